@@ -1,91 +1,315 @@
 
 
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo, useCallback } from 'react';
 import Header from './components/Header.tsx';
 import Sidebar from './components/Sidebar';
 import ChatBubble from './components/ChatBubble';
 import MessageInput from './components/MessageInput';
 import LoadingIndicator from './components/LoadingIndicator';
 import ActionModal from './components/ActionModal';
+import LearnModal from './components/LearnModal';
+import ImageGenerationModal from './components/ImageGenerationModal';
+import ImageEditorModal from './components/ImageEditorModal';
 import SettingsModal from './components/SettingsModal';
+import SessionSettingsPanel from './components/SessionSettingsPanel';
 import Modal from './components/Modal';
-import { BotIcon } from './components/icons';
-import { Message, ChatSession, User } from './types';
-import { generateContentStream, generateImage, generateVideo, generateChatTitle, BillingError } from './services/geminiService';
-import { getChatHistory, saveChatHistory, createNewSession, deleteSession, updateSessionTitle } from './services/chatHistoryService';
+import UndoToast from './components/UndoToast';
+import { BotIcon, CloseIcon } from './components/icons';
+import { Message, ChatSession, User, VideoJob, WithUsage, SyncStatus, ProviderSettings, GenerationSettings, Persona, Attachment, PromptPart, ContextSummary, ImageGenerationRequest, ImageEditSource, ToolCall, ChatStreamEvent, KnowledgeCitation } from './types';
+import { BillingError } from './services/geminiService';
+import { getProviderSettings, saveProviderSettings, getModelProvider } from './services/providerService';
+import { loadChatHistory, getChatHistory, saveChatHistory, onStorageError, createNewSession, moveSessionsToTrash, restoreSessions, deleteSessionsPermanently, isInTrash, updateMessage, renameSession, setSessionPinned, moveSessionToFolder, setSessionTags, renameFolder, deleteFolder, updateSessionTitle, updateSessionSettings, updateSessionPersona, updateSessionInstructions, updateSessionSummary } from './services/chatHistoryService';
+import { getPersonas, upsertPersona, deletePersona, getDefaultPersonaId, saveDefaultPersonaId } from './services/personaService';
 import { addSearchHistoryEntry } from './services/searchHistoryService';
-import { fileToBase64 } from './utils/fileUtils';
+import { fileToPromptPart } from './utils/fileUtils';
+import { saveAttachment, getAttachmentBlob, getMessageParts } from './services/attachmentService';
+import { buildSystemInstruction } from './utils/promptUtils';
+import { downloadBlob, base64ToBlob } from './utils/fileUtils';
+import { exportSessions, importArchive, ExportFormat } from './services/exportService';
+import { ExportScope } from './components/DataExportPanel';
+import ContextSummaryCard from './components/ContextSummaryCard';
+import { recordUsage, getUsageLimitWarning } from './services/usageService';
+import { getTools } from './services/toolService';
+import { addKnowledgeEntry } from './services/knowledgeService';
+import { getVideoJobs, onVideoJobsChange, enqueueVideoJob, cancelVideoJob, startVideoJobs } from './services/videoJobService';
+import { DEFAULT_CONTEXT_TOKEN_BUDGET, getContextWindow, getMessagesToSummarize, countMessageTokens } from './utils/contextUtils';
+import { createMessage, setActivePath, switchBranch, getSiblings } from './utils/messageTreeUtils';
+import { startSync, flushSync, getSyncStatus, onSyncStatusChange } from './services/syncService';
+import { getCurrentUser, onAuthChange, restoreSession, signIn, signUp, signInWithGoogle, signOut, isGoogleSignInAvailable, requestPasswordReset, resetPassword } from './services/authService';
 
 const App: React.FC = () => {
   const [sessions, setSessions] = useState<ChatSession[]>([]);
   const [activeSessionId, setActiveSessionId] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
+  const [isStreaming, setIsStreaming] = useState(false);
   const [streamingMessage, setStreamingMessage] = useState<Message | null>(null);
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
-  const [currentUser, setCurrentUser] = useState<User | null>(null);
+  const [isSessionSettingsOpen, setIsSessionSettingsOpen] = useState(false);
+  const [currentUser, setCurrentUser] = useState<User | null>(getCurrentUser);
+  const [syncStatus, setSyncStatus] = useState<SyncStatus>(getSyncStatus);
+  const [videoJobs, setVideoJobs] = useState<VideoJob[]>(getVideoJobs);
 
   const [isCreateImageModalOpen, setCreateImageModalOpen] = useState(false);
+  const [imageToEdit, setImageToEdit] = useState<{ image: Blob; source: ImageEditSource } | null>(null);
   const [isCreateVideoModalOpen, setCreateVideoModalOpen] = useState(false);
   const [isStudyModalOpen, setStudyModalOpen] = useState(false);
   const [isLearnModalOpen, setLearnModalOpen] = useState(false);
-  const [selectedImage, setSelectedImage] = useState<File | null>(null);
+  const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
   
   const [isSettingsModalOpen, setSettingsModalOpen] = useState(false);
   const [isConfirmClearModalOpen, setConfirmClearModalOpen] = useState(false);
+  const [isConfirmEmptyTrashOpen, setConfirmEmptyTrashOpen] = useState(false);
+  // Chats just moved to the trash, offered for undo
+  const [trashUndo, setTrashUndo] = useState<{ sessionIds: string[]; message: string } | null>(null);
   
   const [isImageGenAvailable, setIsImageGenAvailable] = useState(true);
   const [isVideoGenAvailable, setIsVideoGenAvailable] = useState(true);
   const [language, setLanguage] = useState<string>('pt-BR');
+  const [providerSettings, setProviderSettings] = useState<ProviderSettings>(getProviderSettings);
+  const [personas, setPersonas] = useState<Persona[]>(getPersonas);
+  const [defaultPersonaId, setDefaultPersonaId] = useState<string | null>(getDefaultPersonaId);
+  const [storageError, setStorageError] = useState<string | null>(null);
+  // Message opened from a search result, scrolled into view and briefly highlighted
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
 
 
   const chatContainerRef = useRef<HTMLElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
 
   useEffect(() => {
-    const history = getChatHistory();
-    setSessions(history);
-    if (history.length > 0) {
-      setActiveSessionId(history[0].id);
-    } else {
-      handleNewSession();
-    }
+    restoreSession();
+    return onAuthChange(setCurrentUser);
+  }, []);
+
+  useEffect(() => {
+    const unsubscribe = onStorageError(error => setStorageError(error.message));
+    let stopSync: (() => void) | undefined;
+    let stopVideoJobs: (() => void) | undefined;
+
+    loadChatHistory().then(history => {
+      setSessions(history);
+      const firstSession = history.find(s => !isInTrash(s));
+      if (firstSession) {
+        setActiveSessionId(firstSession.id);
+      } else {
+        handleNewSession();
+      }
+      stopSync = startSync(handleSyncedHistory, confirmAddUnsyncedChats);
+      stopVideoJobs = startVideoJobs({ onCompleted: handleVideoCompleted, onFailed: handleVideoFailed });
+    });
     
     const savedLang = localStorage.getItem('app_language');
     if (savedLang) {
         setLanguage(savedLang);
     }
 
+    return () => {
+      unsubscribe();
+      stopSync?.();
+      stopVideoJobs?.();
+    };
   }, []);
 
+  useEffect(() => onSyncStatusChange(setSyncStatus), []);
+  useEffect(() => onVideoJobsChange(setVideoJobs), []);
+
   useEffect(() => {
     const container = chatContainerRef.current;
-    if (container) {
+    if (container && !highlightedMessageId) {
       container.scrollTo({
         top: container.scrollHeight,
         behavior: 'smooth'
       });
     }
   }, [sessions, activeSessionId, streamingMessage]);
+
+  useEffect(() => {
+    if (!highlightedMessageId) return;
+    document.getElementById(`message-${highlightedMessageId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    const timeout = setTimeout(() => setHighlightedMessageId(null), 2000);
+    return () => clearTimeout(timeout);
+  }, [highlightedMessageId, activeSessionId]);
   
   const activeSession = sessions.find(s => s.id === activeSessionId);
-
-  const updateMessages = (sessionId: string, newMessages: Message[]) => {
-    const updatedSessions = sessions.map(session =>
-      session.id === sessionId ? { ...session, messages: newMessages } : session
+  const listedSessions = sessions.filter(s => !isInTrash(s));
+  const trashedSessions = sessions.filter(isInTrash);
+  const provider = useMemo(() => getModelProvider(providerSettings), [providerSettings]);
+  const canGenerateImage = isImageGenAvailable && provider.supportsImageGeneration;
+  const canEditImage = isImageGenAvailable && provider.supportsImageEditing;
+  const canGenerateVideo = isVideoGenAvailable && provider.supportsVideoGeneration;
+  const activePersona = personas.find(p => p.id === activeSession?.personaId);
+  // A persona's default language takes precedence over the app language
+  const sessionLanguage = activePersona?.language || language;
+  const contextTokenBudget = activeSession?.settings?.contextTokenBudget ?? DEFAULT_CONTEXT_TOKEN_BUDGET;
+  const contextWindow = activeSession ? getContextWindow(activeSession.messages, activeSession.contextSummary, contextTokenBudget) : undefined;
+
+  /**
+   * Replaces the active branch of a session.
+   * @param keepReplaced - Keep the messages that leave the branch as an alternative version
+   *   the user can switch back to, instead of discarding them.
+   */
+  const updateMessages = (sessionId: string, newMessages: Message[], keepReplaced = false) => {
+    // Start from the stored history rather than `sessions`, which can be stale inside async handlers
+    const updatedSessions = getChatHistory().map(session =>
+      session.id === sessionId ? setActivePath(session, newMessages, keepReplaced) : session
     );
     setSessions(updatedSessions);
     saveChatHistory(updatedSessions);
   };
+
+  // Chats changed on another device; the open one may have been deleted there
+  const handleSyncedHistory = (history: ChatSession[]) => {
+    setSessions(history);
+    setActiveSessionId(current => current && history.some(s => s.id === current && !isInTrash(s))
+      ? current
+      : history.find(s => !isInTrash(s))?.id ?? null);
+  };
+
+  // Another account signed in while chats of the previous one were still waiting to be synced
+  const confirmAddUnsyncedChats = (unsynced: ChatSession[]): boolean => {
+    const titles = unsynced.map(session => `• ${session.title}`).join('\n');
+    return window.confirm(`Estes chats ainda não foram sincronizados com a conta anterior:\n\n${titles}\n\nDeseja adicioná-los a esta conta? Se cancelar, eles ficam na lixeira deste navegador.`);
+  };
   
-  const handleSendMessage = async (messageText: string, imageFile: File | null = null) => {
-    if (isLoading || !activeSessionId) return;
+  /**
+   * Folds the turns that no longer fit in the context budget into the session's summary.
+   * @returns The summary to send with this turn, if any.
+   */
+  const summarizeOlderMessages = async (sessionId: string, messages: Message[]): Promise<ContextSummary | undefined> => {
+    const currentSummary = getChatHistory().find(s => s.id === sessionId)?.contextSummary;
+    const { summary, hasUnsummarizedMessages } = getContextWindow(messages, currentSummary, contextTokenBudget);
+    if (!hasUnsummarizedMessages) return summary;
+
+    const messagesToSummarize = getMessagesToSummarize(messages, currentSummary, contextTokenBudget);
+    try {
+        const { value: text, usage } = await provider.summarizeConversation(messagesToSummarize, summary?.text, sessionLanguage);
+        recordUsage(sessionId, 'summary', usage);
+        const newSummary: ContextSummary = { text, upToMessageId: messagesToSummarize[messagesToSummarize.length - 1].id };
+        setSessions(updateSessionSummary(sessionId, newSummary));
+        return newSummary;
+    } catch (error) {
+        // The oldest messages are simply left out of this turn; summarizing is retried on the next one
+        console.error('Error summarizing older messages:', error);
+        return summary;
+    }
+  };
+
+  /**
+   * Streams the model's answer to the last message of `messages` and appends it to the session.
+   * Stopping keeps the text generated so far.
+   */
+  const streamModelResponse = async (sessionId: string, messages: Message[], prompt: string, attachmentParts: PromptPart[]) => {
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    setIsLoading(true);
+    setIsStreaming(true);
+    const modelMessage = createMessage({ sender: 'model', text: '' });
+    setStreamingMessage(modelMessage);
+
+    let fullResponse = '';
+    let toolCalls: ToolCall[] = [];
+    let citations: KnowledgeCitation[] = [];
+    // Tool calls and knowledge base passages are kept on the answer so what it is based on can be looked at
+    const toAnswer = (text: string): Message => ({
+        ...modelMessage,
+        text,
+        toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+        citations: citations.length > 0 ? citations : undefined,
+    });
+    try {
+        // Only the turns that fit in the context budget are sent, after a summary of the older ones
+        const summary = await summarizeOlderMessages(sessionId, messages);
+        const { start } = getContextWindow(messages, summary, contextTokenBudget);
+        const systemInstruction = buildSystemInstruction(sessionLanguage, activePersona, activeSession?.customInstructions, summary?.text);
+        const tools = activeSession?.settings?.useTools === false ? [] : getTools();
+        const stream = provider.generateContentStream(prompt, messages.slice(start), attachmentParts, systemInstruction, activeSession?.settings, abortController.signal, tools);
+        // Iterated by hand because the stream's return value is the usage of the request
+        let result = await stream.next();
+        while (!result.done) {
+            if (abortController.signal.aborted) {
+                await stream.return(undefined);
+                break;
+            }
+            // `done` does not narrow the result without strictNullChecks
+            const event = result.value as ChatStreamEvent;
+            if (event.type === 'knowledge') {
+                citations = event.citations;
+                recordUsage(sessionId, 'embedding', event.usage);
+            } else if (event.type === 'text') {
+                fullResponse += event.text;
+            } else {
+                // Each call is reported when it starts and again with its result
+                const { toolCall } = event;
+                toolCalls = toolCalls.some(c => c.id === toolCall.id)
+                    ? toolCalls.map(c => c.id === toolCall.id ? toolCall : c)
+                    : [...toolCalls, toolCall];
+            }
+            setStreamingMessage(toAnswer(fullResponse));
+            result = await stream.next();
+        }
+        const usage = result.done ? result.value : undefined;
+        recordUsage(sessionId, 'chat', usage);
+
+        // On success, add the final message to the history
+        if (fullResponse || toolCalls.length > 0) {
+            const finalModelMessage: Message = { ...toAnswer(fullResponse), usage };
+            updateMessages(sessionId, [...messages, finalModelMessage]);
+        }
+    } catch (error) {
+        if (abortController.signal.aborted) {
+            // Stopped by the user: the request fails, but the partial answer is kept
+            if (fullResponse || toolCalls.length > 0) {
+                updateMessages(sessionId, [...messages, toAnswer(fullResponse)]);
+            }
+            return;
+        }
+        // On failure, add a formatted error message to the history
+        const errorMessageText = error instanceof Error ? error.message : "Ocorreu um erro desconhecido.";
+        const errorMessage: Message = toAnswer(`⚠️ **Erro:** ${errorMessageText}`);
+        updateMessages(sessionId, [...messages, errorMessage]);
+    } finally {
+        // Always clean up the UI state
+        abortControllerRef.current = null;
+        setIsLoading(false);
+        setIsStreaming(false);
+        setStreamingMessage(null);
+    }
+  };
+
+  // Asks for confirmation when a daily soft limit has been reached
+  const confirmUsageLimit = (): boolean => {
+    const warning = getUsageLimitWarning();
+    return !warning || window.confirm(`${warning}\n\nDeseja continuar mesmo assim?`);
+  };
+
+  const handleStopGeneration = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  const handleSendMessage = async (messageText: string, files: File[] = []) => {
+    if (isLoading || !activeSessionId || !confirmUsageLimit()) return;
 
-    let imagePart = null;
     let userMessageText = messageText;
+    let attachments: Attachment[] | undefined;
+    let attachmentParts: PromptPart[] = [];
+    let readErrorText: string | undefined;
+    const firstImage = files.find(file => file.type.startsWith('image/'));
     
-    if (imageFile) {
-        const { base64, mimeType } = await fileToBase64(imageFile);
-        imagePart = { inlineData: { data: base64, mimeType } };
-        userMessageText = messageText || 'Descreva esta imagem.';
+    if (files.length > 0) {
+        userMessageText = messageText || (files.every(file => file.type.startsWith('image/')) ? 'Descreva esta imagem.' : 'Analise os arquivos anexados.');
+        try {
+            attachmentParts = await Promise.all(files.map(file => fileToPromptPart(file, file.type, file.name)));
+        } catch (error) {
+            // E.g. a file that was moved or deleted after being picked
+            console.error('Error reading attachments:', error);
+            readErrorText = `Não foi possível ler os arquivos anexados${error instanceof Error ? ` (${error.message})` : ''}. Anexe-os novamente e tente outra vez.`;
+        }
+        try {
+            // Store the files durably so they survive reloads and can be sent again as context
+            attachments = await Promise.all(files.map(file => saveAttachment(file, file.name)));
+        } catch (error) {
+            console.error('Error saving attachments:', error);
+        }
     }
 
     if (!userMessageText) return;
@@ -93,58 +317,81 @@ const App: React.FC = () => {
     // Add user's message to search history
     addSearchHistoryEntry(userMessageText);
 
-    const userMessage: Message = { 
+    const userMessage = createMessage({ 
         sender: 'user', 
         text: userMessageText, 
-        imageUrl: imageFile ? URL.createObjectURL(imageFile) : undefined 
-    };
+        attachments,
+        // Fall back to a temporary URL if the files could not be stored
+        imageUrl: firstImage && !attachments ? URL.createObjectURL(firstImage) : undefined 
+    });
     
     const currentMessages = activeSession?.messages ? [...activeSession.messages, userMessage] : [userMessage];
     updateMessages(activeSessionId, currentMessages);
-    setSelectedImage(null);
+    setSelectedFiles([]);
+
+    if (readErrorText) {
+        // Reported like a failed answer, since nothing can be sent without the files
+        updateMessages(activeSessionId, [...currentMessages, createMessage({ sender: 'model', text: `⚠️ **Erro:** ${readErrorText}` })]);
+        return;
+    }
 
     setIsLoading(true);
-    setStreamingMessage({ sender: 'model', text: '' });
+    setStreamingMessage(createMessage({ sender: 'model', text: '' }));
 
-    // Auto-generate title for new chats
-    if (currentMessages.length === 1) {
-        const title = await generateChatTitle(userMessageText, language);
+    // Auto-generate title for new chats, unless the user already named it
+    if (currentMessages.length === 1 && !activeSession?.isTitleEdited) {
+        const { value: title, usage } = await provider.generateChatTitle(userMessageText, sessionLanguage);
+        recordUsage(activeSessionId, 'title', usage);
         const updatedSessions = updateSessionTitle(activeSessionId, title);
         setSessions(updatedSessions);
     }
 
-    try {
-        let fullResponse = '';
-        const stream = generateContentStream(userMessageText, currentMessages, imagePart, language);
-        for await (const chunk of stream) {
-            fullResponse += chunk;
-            setStreamingMessage({ sender: 'model', text: fullResponse });
-        }
+    await streamModelResponse(activeSessionId, currentMessages, userMessageText, attachmentParts);
+  };
 
-        // On success, add the final message to the history
-        if (fullResponse && activeSessionId) {
-            const finalModelMessage: Message = { sender: 'model', text: fullResponse };
-            updateMessages(activeSessionId, [...currentMessages, finalModelMessage]);
-        }
-    } catch (error) {
-        // On failure, add a formatted error message to the history
-        const errorMessageText = error instanceof Error ? error.message : "Ocorreu um erro desconhecido.";
-        const errorMessage: Message = { sender: 'model', text: `⚠️ **Erro:** ${errorMessageText}` };
-        if (activeSessionId) {
-            updateMessages(activeSessionId, [...currentMessages, errorMessage]);
-        }
-    } finally {
-        // Always clean up the UI state
-        setIsLoading(false);
-        setStreamingMessage(null);
-    }
+  // Answers the last user message again; the previous answer stays available as another version
+  const handleRegenerate = async () => {
+    if (isLoading || !activeSession || !confirmUsageLimit()) return;
+    const messages = activeSession.messages;
+    const lastUserIndex = messages.map(m => m.sender).lastIndexOf('user');
+    if (lastUserIndex < 0) return;
+
+    const history = messages.slice(0, lastUserIndex + 1);
+    updateMessages(activeSession.id, history, true);
+    const lastUserMessage = history[lastUserIndex];
+    await streamModelResponse(activeSession.id, history, lastUserMessage.text, await getMessageParts(lastUserMessage));
   };
 
-  const handleGenerateImage = async (prompt: string) => {
-    if (isLoading || !activeSessionId || !isImageGenAvailable) return;
+  // Continues the chat from an edited copy of a user message, starting a new branch
+  const handleEditMessage = async (index: number, newText: string) => {
+    if (isLoading || !activeSession || !newText.trim() || !confirmUsageLimit()) return;
+    const { sender, attachments, imageUrl } = activeSession.messages[index];
+    const editedMessage = createMessage({ sender, attachments, imageUrl, text: newText.trim(), isEdited: true });
+    const history = [...activeSession.messages.slice(0, index), editedMessage];
+    addSearchHistoryEntry(editedMessage.text);
+    updateMessages(activeSession.id, history, true);
+    await streamModelResponse(activeSession.id, history, editedMessage.text, await getMessageParts(editedMessage));
+  };
+
+  // Shows another version of a message (and the conversation that followed it)
+  const handleSwitchBranch = (message: Message, offset: number) => {
+    if (isLoading || !activeSession) return;
+    const siblings = getSiblings(activeSession, message);
+    const target = siblings[siblings.indexOf(message) + offset];
+    if (!target) return;
+    const updatedSessions = getChatHistory().map(session =>
+      session.id === activeSession.id ? switchBranch(session, target.id) : session
+    );
+    setSessions(updatedSessions);
+    saveChatHistory(updatedSessions);
+  };
+
+  const handleGenerateImage = async ({ prompt, options }: ImageGenerationRequest) => {
+    if (isLoading || !activeSessionId || !canGenerateImage || !confirmUsageLimit()) return;
     setCreateImageModalOpen(false);
     
-    const userMessage: Message = { sender: 'user', text: `Gerar imagem: "${prompt}"` };
+    const count = options.numberOfImages ?? 1;
+    const userMessage = createMessage({ sender: 'user', text: `Gerar ${count > 1 ? `${count} imagens` : 'imagem'}: "${prompt}"` });
     addSearchHistoryEntry(userMessage.text);
     const currentMessages = activeSession?.messages ? [...activeSession.messages, userMessage] : [userMessage];
     updateMessages(activeSessionId, currentMessages);
@@ -152,9 +399,19 @@ const App: React.FC = () => {
     setIsLoading(true);
 
     try {
-      const base64Image = await generateImage(prompt);
-      const imageUrl = `data:image/png;base64,${base64Image}`;
-      const modelMessage: Message = { sender: 'model', text: `Imagem gerada para: "${prompt}"`, imageUrl };
+      const { value: images, usage } = await provider.generateImage(prompt, options);
+      recordUsage(activeSessionId, 'image', usage);
+      const attachments = await Promise.all(images.map((base64, index) =>
+        saveAttachment(base64ToBlob(base64, 'image/png'), `imagem-gerada-${index + 1}.png`)
+      ));
+      const modelMessage = createMessage({
+        sender: 'model',
+        text: images.length > 1 ? `${images.length} imagens geradas para: "${prompt}"` : `Imagem gerada para: "${prompt}"`,
+        attachments,
+        // Kept so variations can repeat the request
+        imageGeneration: { prompt, options },
+        usage,
+      });
       updateMessages(activeSessionId, [...currentMessages, modelMessage]);
     } catch (error) {
       if (error instanceof BillingError) {
@@ -162,159 +419,298 @@ const App: React.FC = () => {
       }
       
       const errorMessageText = error instanceof Error ? error.message : "Desculpe, não foi possível gerar a imagem.";
-      const errorMessage: Message = { sender: 'model', text: `⚠️ **Erro:** ${errorMessageText}` };
+      const errorMessage = createMessage({ sender: 'model', text: `⚠️ **Erro:** ${errorMessageText}` });
       updateMessages(activeSessionId, [...currentMessages, errorMessage]);
     } finally {
       setIsLoading(false);
     }
   };
 
-  const handleGenerateVideo = async (prompt: string) => {
-    if (isLoading || !activeSessionId || !isVideoGenAvailable) return;
-    setCreateVideoModalOpen(false);
-    
-    const userMessage: Message = { sender: 'user', text: `Gerar vídeo: "${prompt}"` };
+  // Same prompt and options, but a new seed so the results differ
+  const handleImageVariations = ({ prompt, options }: ImageGenerationRequest) => {
+    handleGenerateImage({ prompt, options: { ...options, seed: undefined } });
+  };
+
+  // Attaches a generated image to the next message, e.g. to ask about it or to edit it
+  const handleUseImageAsInput = async (attachment: Attachment) => {
+    const blob = await getAttachmentBlob(attachment.id);
+    if (!blob) return;
+    const file = new File([blob], attachment.name || 'imagem.png', { type: attachment.mimeType });
+    setSelectedFiles(prev => [...prev, file]);
+  };
+
+  const handleOpenImageEditor = async (message: Message, attachment?: Attachment) => {
+    try {
+      const image = attachment ? await getAttachmentBlob(attachment.id) : await (await fetch(message.imageUrl!)).blob();
+      if (!image) throw new Error('Image not found');
+      setImageToEdit({ image, source: { messageId: message.id, attachmentId: attachment?.id } });
+    } catch (error) {
+      console.error('Error loading image to edit:', error);
+    }
+  };
+
+  // The edited image comes back as a new message that links to the original
+  const handleEditImage = async (instruction: string, mask?: Blob) => {
+    if (!imageToEdit || isLoading || !activeSessionId || !canEditImage || !confirmUsageLimit()) return;
+    const { image, source } = imageToEdit;
+    setImageToEdit(null);
+
+    const userMessage = createMessage({ sender: 'user', text: `Editar imagem: "${instruction}"` });
     addSearchHistoryEntry(userMessage.text);
     const currentMessages = activeSession?.messages ? [...activeSession.messages, userMessage] : [userMessage];
     updateMessages(activeSessionId, currentMessages);
 
-    const waitingMessage: Message = { sender: 'model', text: `Criando seu vídeo... 🎬 Isso pode levar alguns minutos. Vou te avisar assim que estiver pronto!` };
-    updateMessages(activeSessionId, [...currentMessages, waitingMessage]);
-    
     setIsLoading(true);
 
     try {
-      const videoUrl = await generateVideo(prompt);
-      const modelMessage: Message = { sender: 'model', text: `Aqui está o vídeo que você pediu: "${prompt}"`, videoUrl };
-      // Replace waiting message with the final result
+      const { value: editedImage, usage } = await provider.editImage(image, instruction, mask);
+      recordUsage(activeSessionId, 'image', usage);
+      const attachment = await saveAttachment(editedImage, 'imagem-editada.png');
+      const modelMessage = createMessage({ sender: 'model', text: `Imagem editada: "${instruction}"`, attachments: [attachment], editedFrom: source, usage });
       updateMessages(activeSessionId, [...currentMessages, modelMessage]);
     } catch (error) {
       if (error instanceof BillingError) {
-        setIsVideoGenAvailable(false);
+        setIsImageGenAvailable(false);
       }
-      
-      const errorMessageText = error instanceof Error ? error.message : "Desculpe, não foi possível gerar o vídeo.";
-      const errorMessage: Message = { sender: 'model', text: `⚠️ **Erro:** ${errorMessageText}` };
-      // Replace waiting message with an error message
+
+      const errorMessageText = error instanceof Error ? error.message : "Desculpe, não foi possível editar a imagem.";
+      const errorMessage = createMessage({ sender: 'model', text: `⚠️ **Erro:** ${errorMessageText}` });
       updateMessages(activeSessionId, [...currentMessages, errorMessage]);
     } finally {
       setIsLoading(false);
     }
   };
 
+  // Videos render in the background (see videoJobService): a placeholder message shows the
+  // job's progress and is replaced by the video, so the chat stays usable meanwhile
+  const handleGenerateVideo = (prompt: string) => {
+    if (!activeSessionId || !canGenerateVideo || !confirmUsageLimit()) return;
+    setCreateVideoModalOpen(false);
+    
+    const userMessage = createMessage({ sender: 'user', text: `Gerar vídeo: "${prompt}"` });
+    addSearchHistoryEntry(userMessage.text);
+    const placeholder = createMessage({ sender: 'model', text: `🎬 Criando o vídeo: "${prompt}"` });
+    const messages = activeSession?.messages ?? [];
+    updateMessages(activeSessionId, [...messages, userMessage, placeholder]);
+    enqueueVideoJob({ sessionId: activeSessionId, messageId: placeholder.id, prompt });
+  };
+
+  const handleVideoCompleted = async (job: VideoJob, { value: video, usage }: WithUsage<Blob>) => {
+    recordUsage(job.sessionId, 'video', usage);
+    // The chat may have been deleted for good while the video was rendering
+    if (!getChatHistory().some(s => s.id === job.sessionId)) return;
+    try {
+      const attachment = await saveAttachment(video, 'video-gerado.mp4');
+      setSessions(updateMessage(job.sessionId, job.messageId, message => ({
+        ...message,
+        text: `Aqui está o vídeo que você pediu: "${job.prompt}"`,
+        attachments: [attachment],
+        usage,
+      })));
+    } catch (error) {
+      console.error('Error saving generated video:', error);
+      handleVideoFailed(job, new Error('Não foi possível salvar o vídeo gerado.'));
+    }
+  };
+
+  const handleVideoFailed = (job: VideoJob, error: Error) => {
+    if (error instanceof BillingError) {
+      setIsVideoGenAvailable(false);
+    }
+    setSessions(updateMessage(job.sessionId, job.messageId, message => ({ ...message, text: `⚠️ **Erro:** ${error.message}` })));
+  };
+
+  const handleCancelVideo = (jobId: string) => {
+    const job = cancelVideoJob(jobId);
+    if (job) {
+      setSessions(updateMessage(job.sessionId, job.messageId, message => ({ ...message, text: `Geração do vídeo cancelada: "${job.prompt}"` })));
+    }
+  };
+
   const handleStudy = (content: string) => {
     setStudyModalOpen(false);
     const prompt = `Por favor, estude o seguinte texto e me diga o que você aprendeu ou resuma-o:\n\n---\n${content}\n---`;
     handleSendMessage(prompt);
   };
 
-  const handleLearn = (content: string) => {
+  // Stores the text in the knowledge base; rejects (keeping the modal open) if it cannot be indexed
+  const handleLearn = async (title: string, text: string, fileName?: string) => {
+    const sessionId = activeSessionId;
+    const { value: entry, usage } = await addKnowledgeEntry(title, text, provider, fileName);
+    // The knowledge base serves every chat, so indexing is not counted for the open one
+    recordUsage(null, 'embedding', usage);
     setLearnModalOpen(false);
-    const prompt = `Por favor, aprenda a seguinte informação para usar em nossa conversa:\n\n---\n${content}\n---`;
-    handleSendMessage(prompt);
+    const session = getChatHistory().find(s => s.id === sessionId);
+    if (!session) return;
+
+    const confirmation = createMessage({ sender: 'model', text: `🧠 Informação aprendida: "${entry.title}". Vou consultá-la sempre que for relevante, em qualquer chat. Você pode revisar o que aprendi em Configurações > Base de Conhecimento.` });
+    updateMessages(session.id, [...session.messages, confirmation]);
+  };
+
+  const handleSessionSettingsChange = (settings: GenerationSettings) => {
+    if (!activeSessionId) return;
+    const updatedSessions = updateSessionSettings(activeSessionId, settings);
+    setSessions(updatedSessions);
+  };
+  
+  const handleSessionPersonaChange = (personaId: string | null) => {
+    if (!activeSessionId) return;
+    const persona = personas.find(p => p.id === personaId);
+    setSessions(updateSessionPersona(activeSessionId, persona));
+  };
+
+  const handleSessionInstructionsChange = (instructions: string) => {
+    if (!activeSessionId) return;
+    setSessions(updateSessionInstructions(activeSessionId, instructions));
+  };
+
+  const handleSavePersona = (persona: Persona) => {
+    setPersonas(upsertPersona(persona));
+  };
+
+  const handleDeletePersona = (personaId: string) => {
+    setPersonas(deletePersona(personaId));
+    setDefaultPersonaId(getDefaultPersonaId());
+  };
+
+  const handleDefaultPersonaChange = (personaId: string | null) => {
+    setDefaultPersonaId(personaId);
+    saveDefaultPersonaId(personaId);
   };
   
   const handleNewSession = () => {
-    const newSession = createNewSession();
+    const newSession = createNewSession(personas.find(p => p.id === defaultPersonaId));
     setSessions(prev => [newSession, ...prev]);
     setActiveSessionId(newSession.id);
     setIsSidebarOpen(false);
   };
 
+  // Opens the first chat still in the list, or a new one if there is none
+  const openFirstSession = (history: ChatSession[]) => {
+    const firstSession = history.find(s => !isInTrash(s));
+    if (firstSession) {
+      setActiveSessionId(firstSession.id);
+    } else {
+      handleNewSession();
+    }
+  };
+
   const handleDeleteSession = (id: string) => {
-    const updatedSessions = deleteSession(id);
+    const updatedSessions = moveSessionsToTrash([id]);
     setSessions(updatedSessions);
+    setTrashUndo({ sessionIds: [id], message: 'Chat movido para a lixeira.' });
     if (activeSessionId === id) {
-      setActiveSessionId(updatedSessions.length > 0 ? updatedSessions[0].id : null);
-      if (updatedSessions.length === 0) {
-        handleNewSession();
-      }
+      openFirstSession(updatedSessions);
     }
   };
 
   const handleClearAllHistory = () => {
-    const emptyHistory: ChatSession[] = [];
-    setSessions(emptyHistory);
-    saveChatHistory(emptyHistory);
-    
+    const sessionIds = listedSessions.map(s => s.id);
+    setSessions(moveSessionsToTrash(sessionIds));
+    setTrashUndo({ sessionIds, message: `${sessionIds.length} ${sessionIds.length === 1 ? 'chat movido' : 'chats movidos'} para a lixeira.` });
+
     // Create a new session to start fresh
-    const newSession = createNewSession();
-    setSessions([newSession]);
-    setActiveSessionId(newSession.id);
-    
+    handleNewSession();
+
     setConfirmClearModalOpen(false);
     setSettingsModalOpen(false);
   };
-  
-  const handleLogin = (email: string): Promise<User> => {
-    return new Promise((resolve, reject) => {
-      // Simulate API call
-      setTimeout(() => {
-        if (email.toLowerCase() === 'error@example.com') {
-          reject(new Error('Credenciais inválidas. Verifique seu e-mail e senha.'));
-        } else {
-          const user = { email };
-          setCurrentUser(user);
-          resolve(user);
-        }
-      }, 1000);
-    });
+
+  const handleUndoTrash = () => {
+    if (!trashUndo) return;
+    setSessions(restoreSessions(trashUndo.sessionIds));
+    // Reopen a single chat deleted by mistake
+    if (trashUndo.sessionIds.length === 1) {
+      setActiveSessionId(trashUndo.sessionIds[0]);
+    }
+    setTrashUndo(null);
   };
 
-  const handleSignup = (email: string): Promise<User> => {
-     return new Promise((resolve, reject) => {
-      // Simulate API call
-      setTimeout(() => {
-        if (email.toLowerCase() === 'error@example.com') {
-          reject(new Error('Este e-mail já está em uso.'));
-        } else {
-           const user = { email };
-          // In a real app, you'd probably want to log the user in right after signup
-          setCurrentUser(user); 
-          resolve(user);
-        }
-      }, 1000);
-    });
+  const dismissTrashUndo = useCallback(() => setTrashUndo(null), []);
+
+  const handleRestoreSession = (id: string) => {
+    setSessions(restoreSessions([id]));
   };
-  
-  const handleGoogleLogin = (): Promise<User> => {
-    return new Promise((resolve) => {
-      // Simulate Google OAuth popup and API call
-      setTimeout(() => {
-        const user = { email: 'user.google@example.com' };
-        setCurrentUser(user);
-        resolve(user);
-      }, 1000);
-    });
+
+  const handleDeleteSessionPermanently = (id: string) => {
+    setSessions(deleteSessionsPermanently([id]));
   };
 
-  const handleLogout = () => {
-      setCurrentUser(null);
-      // Optionally, close the settings modal on logout
-      // setSettingsModalOpen(false);
+  const handleEmptyTrash = () => {
+    setSessions(deleteSessionsPermanently(trashedSessions.map(s => s.id)));
+    setConfirmEmptyTrashOpen(false);
   };
-  
+
+  const handleExport = async (scope: ExportScope, format: ExportFormat) => {
+    const sessionsToExport = scope === 'current' ? sessions.filter(s => s.id === activeSessionId) : listedSessions;
+    const { blob, fileName } = await exportSessions(sessionsToExport, format);
+    downloadBlob(blob, fileName);
+  };
+
+  const handleImport = async (file: File): Promise<number> => {
+    const { history, importedCount } = await importArchive(file);
+    setSessions(history);
+    return importedCount;
+  };
+
+  const handleLogout = async () => {
+    // Send what was not synced yet while the session can still authorize it
+    await flushSync();
+    await signOut();
+  };
+
   const handleLanguageChange = (lang: string) => {
       setLanguage(lang);
       localStorage.setItem('app_language', lang);
   };
 
+  const handleProviderSettingsChange = (settings: ProviderSettings) => {
+      setProviderSettings(settings);
+      saveProviderSettings(settings);
+      // A new provider may support features the previous one had to disable
+      setIsImageGenAvailable(true);
+      setIsVideoGenAvailable(true);
+  };
+
 
   return (
     <div className="flex h-screen bg-black text-white font-sans">
       <Sidebar
-        sessions={sessions}
+        sessions={listedSessions}
+        trashedSessions={trashedSessions}
         activeSessionId={activeSessionId}
         onSelectSession={(id) => { setActiveSessionId(id); setIsSidebarOpen(false); }}
+        onSelectSearchResult={(sessionId, messageId) => {
+          setActiveSessionId(sessionId);
+          setHighlightedMessageId(messageId ?? null);
+          setIsSidebarOpen(false);
+        }}
         onNewSession={handleNewSession}
         onDeleteSession={handleDeleteSession}
+        onRenameSession={(id, title) => setSessions(renameSession(id, title))}
+        onSetSessionPinned={(id, isPinned) => setSessions(setSessionPinned(id, isPinned))}
+        onMoveSessionToFolder={(id, folder) => setSessions(moveSessionToFolder(id, folder))}
+        onSetSessionTags={(id, tags) => setSessions(setSessionTags(id, tags))}
+        onRenameFolder={(folder, newName) => setSessions(renameFolder(folder, newName))}
+        onDeleteFolder={(folder) => setSessions(deleteFolder(folder))}
+        onRestoreSession={handleRestoreSession}
+        onDeleteSessionPermanently={handleDeleteSessionPermanently}
+        onEmptyTrash={() => setConfirmEmptyTrashOpen(true)}
         isOpen={isSidebarOpen}
         setIsOpen={setIsSidebarOpen}
         onShowSettings={() => setSettingsModalOpen(true)}
         currentUser={currentUser}
       />
       <div className="flex flex-col flex-1">
-        <Header onMenuClick={() => setIsSidebarOpen(!isSidebarOpen)} />
+        <Header onMenuClick={() => setIsSidebarOpen(!isSidebarOpen)} onSessionSettingsClick={() => setIsSessionSettingsOpen(!isSessionSettingsOpen)} />
+        {storageError && (
+          <div role="alert" className="bg-red-900/50 text-red-300 text-sm px-4 py-2 flex items-center justify-between gap-2 flex-shrink-0">
+            <span>⚠️ Não foi possível salvar seu histórico de chats ({storageError}). O espaço de armazenamento do navegador pode estar cheio; apague chats antigos para liberar espaço.</span>
+            <button onClick={() => setStorageError(null)} className="p-1 rounded-full hover:bg-red-800 flex-shrink-0" aria-label="Fechar aviso">
+              <CloseIcon className="w-4 h-4" />
+            </button>
+          </div>
+        )}
         <main ref={chatContainerRef} className="flex-grow p-4 overflow-y-auto">
           <div className="max-w-4xl mx-auto">
             {!activeSession?.messages?.length && !isLoading && !streamingMessage && (
@@ -324,11 +720,42 @@ const App: React.FC = () => {
                 <p>Como posso ajudar hoje?</p>
               </div>
             )}
-            {activeSession?.messages.map((msg, index) => (
-              <ChatBubble key={index} message={msg} />
-            ))}
+            {activeSession?.messages.map((msg, index, messages) => {
+              const siblings = getSiblings(activeSession, msg);
+              const videoJob = videoJobs.find(job => job.messageId === msg.id);
+              return (
+                <React.Fragment key={msg.id}>
+                  {contextWindow && contextWindow.start > 0 && index === contextWindow.start && (
+                    <ContextSummaryCard
+                      summary={contextWindow.summary}
+                      hiddenCount={contextWindow.start}
+                      tokenCount={contextWindow.tokenCount}
+                      tokenBudget={contextTokenBudget}
+                    />
+                  )}
+                  <ChatBubble
+                    message={msg}
+                    isHighlighted={msg.id === highlightedMessageId}
+                    isInContext={!contextWindow || index >= contextWindow.start}
+                    tokenCount={countMessageTokens(msg)}
+                    // Only a text answer to the last question can be regenerated
+                    onRegenerate={!isLoading && msg.sender === 'model' && index === messages.length - 1 && !msg.imageUrl && !msg.videoUrl && !msg.attachments?.length && !videoJob ? handleRegenerate : undefined}
+                    onEdit={!isLoading && msg.sender === 'user' ? (text) => handleEditMessage(index, text) : undefined}
+                    branch={siblings.length > 1 ? { index: siblings.indexOf(msg), count: siblings.length } : undefined}
+                    onSwitchBranch={!isLoading ? (offset) => handleSwitchBranch(msg, offset) : undefined}
+                    videoJob={videoJob}
+                    onCancelVideo={videoJob && (() => handleCancelVideo(videoJob.id))}
+                    onImageVariations={!isLoading && msg.imageGeneration ? () => handleImageVariations(msg.imageGeneration!) : undefined}
+                    onUseImageAsInput={msg.imageGeneration && handleUseImageAsInput}
+                    onEditImage={!isLoading && canEditImage ? (attachment) => handleOpenImageEditor(msg, attachment) : undefined}
+                    onSendCodeOutput={!isLoading ? (output) => handleSendMessage(output) : undefined}
+                    onShowEditSource={msg.editedFrom && messages.some(m => m.id === msg.editedFrom!.messageId) ? () => setHighlightedMessageId(msg.editedFrom!.messageId) : undefined}
+                  />
+                </React.Fragment>
+              );
+            })}
             {streamingMessage && (
-              <ChatBubble message={streamingMessage} />
+              <ChatBubble message={streamingMessage} isStreaming />
             )}
             {isLoading && !streamingMessage?.text && (
                <div className="flex items-start gap-4 my-4 justify-start">
@@ -340,33 +767,50 @@ const App: React.FC = () => {
         <MessageInput 
           onSendMessage={handleSendMessage} 
           isLoading={isLoading}
-          onImageSelect={setSelectedImage}
-          selectedImage={selectedImage}
-          onRemoveImage={() => setSelectedImage(null)}
+          isStreaming={isStreaming}
+          onStop={handleStopGeneration}
+          onFilesSelect={files => setSelectedFiles(prev => [...prev, ...files])}
+          selectedFiles={selectedFiles}
+          onRemoveFile={index => setSelectedFiles(prev => prev.filter((_, i) => i !== index))}
           onShowCreateImage={() => setCreateImageModalOpen(true)}
           onShowStudy={() => setStudyModalOpen(true)}
           onShowLearn={() => setLearnModalOpen(true)}
-          isImageGenAvailable={isImageGenAvailable}
+          isImageGenAvailable={canGenerateImage}
           onShowCreateVideo={() => setCreateVideoModalOpen(true)}
-          isVideoGenAvailable={isVideoGenAvailable}
+          isVideoGenAvailable={canGenerateVideo}
         />
       </div>
+      <SessionSettingsPanel
+        isOpen={isSessionSettingsOpen && !!activeSession}
+        onClose={() => setIsSessionSettingsOpen(false)}
+        settings={activeSession?.settings ?? {}}
+        onSettingsChange={handleSessionSettingsChange}
+        chatModels={provider.chatModels}
+        supportsSafetySettings={provider.supportsSafetySettings}
+        personas={personas}
+        personaId={activeSession?.personaId}
+        onPersonaChange={handleSessionPersonaChange}
+        customInstructions={activeSession?.customInstructions}
+        onCustomInstructionsChange={handleSessionInstructionsChange}
+      />
 
-      <ActionModal
+      <ImageGenerationModal
         isOpen={isCreateImageModalOpen}
         onClose={() => setCreateImageModalOpen(false)}
         onSubmit={handleGenerateImage}
-        title="🎨 Criar Imagem com IA"
-        description="Seja o mais descritivo possível para melhores resultados. Você pode incluir estilos como 'foto realista', 'pintura a óleo', ou 'pixel art'."
-        placeholder="Ex: Um gato de óculos escuros tocando guitarra em um telhado, estilo anime."
-        submitText='Gerar'
+        supportedOptions={provider.imageGenerationOptions}
+      />
+      <ImageEditorModal
+        image={imageToEdit?.image ?? null}
+        onClose={() => setImageToEdit(null)}
+        onSubmit={handleEditImage}
       />
        <ActionModal
         isOpen={isCreateVideoModalOpen}
         onClose={() => setCreateVideoModalOpen(false)}
         onSubmit={handleGenerateVideo}
         title="🎥 Criar Vídeo com IA"
-        description="Descreva a cena que você quer criar. A geração pode levar alguns minutos. Seja paciente!"
+        description="Descreva a cena que você quer criar. A geração leva alguns minutos e roda em segundo plano, então você pode continuar conversando."
         placeholder="Ex: Um close de um astronauta surfando em uma onda cósmica."
         submitText='Gerar Vídeo'
       />
@@ -379,14 +823,10 @@ const App: React.FC = () => {
         isTextarea={true}
         submitText='Enviar para Estudo'
       />
-      <ActionModal
+      <LearnModal
         isOpen={isLearnModalOpen}
         onClose={() => setLearnModalOpen(false)}
         onSubmit={handleLearn}
-        title="🧠 Aprender Informação"
-        placeholder="Cole aqui a informação que você quer me ensinar..."
-        isTextarea={true}
-        submitText='Enviar para Aprender'
       />
 
       <SettingsModal
@@ -394,12 +834,28 @@ const App: React.FC = () => {
         onClose={() => setSettingsModalOpen(false)}
         onClearHistory={() => setConfirmClearModalOpen(true)}
         currentUser={currentUser}
-        onLogin={handleLogin}
-        onSignup={handleSignup}
+        onLogin={signIn}
+        onSignup={signUp}
         onLogout={handleLogout}
-        onGoogleLogin={handleGoogleLogin}
+        onGoogleLogin={signInWithGoogle}
+        isGoogleLoginAvailable={isGoogleSignInAvailable()}
+        onRequestPasswordReset={requestPasswordReset}
+        onResetPassword={resetPassword}
+        syncStatus={syncStatus}
         language={language}
         onLanguageChange={handleLanguageChange}
+        providerSettings={providerSettings}
+        onProviderSettingsChange={handleProviderSettingsChange}
+        personas={personas}
+        defaultPersonaId={defaultPersonaId}
+        chatModels={provider.chatModels}
+        onSavePersona={handleSavePersona}
+        onDeletePersona={handleDeletePersona}
+        onDefaultPersonaChange={handleDefaultPersonaChange}
+        sessions={sessions}
+        hasActiveSession={!!activeSession}
+        onExport={handleExport}
+        onImport={handleImport}
       />
 
       <Modal
@@ -408,9 +864,22 @@ const App: React.FC = () => {
         onConfirm={handleClearAllHistory}
         title="Confirmar Limpeza"
       >
-        <p>Tem certeza de que deseja apagar todo o seu histórico de chats? Esta ação não pode ser desfeita.</p>
+        <p>Todos os chats serão movidos para a lixeira, onde ficam por 30 dias antes de serem excluídos. Deseja continuar?</p>
       </Modal>
 
+      <Modal
+        isOpen={isConfirmEmptyTrashOpen}
+        onClose={() => setConfirmEmptyTrashOpen(false)}
+        onConfirm={handleEmptyTrash}
+        title="Esvaziar Lixeira"
+      >
+        <p>Os {trashedSessions.length} chats da lixeira e seus arquivos serão excluídos para sempre. Esta ação não pode ser desfeita.</p>
+      </Modal>
+
+      {trashUndo && (
+        <UndoToast key={trashUndo.sessionIds.join()} message={trashUndo.message} onUndo={handleUndoTrash} onDismiss={dismissTrashUndo} />
+      )}
+
     </div>
   );
 };
@@ -1,17 +1,159 @@
 
-import React from 'react';
-import ReactMarkdown from 'react-markdown';
-import remarkGfm from 'remark-gfm';
-import { Message } from '../types';
-import { DownloadIcon } from './icons';
+import React, { useState } from 'react';
+import { Message, Attachment, VideoJob } from '../types';
+import { DownloadIcon, FileIcon, EditIcon, RefreshIcon, ChevronLeftIcon, ChevronRightIcon, PaletteIcon, MessageSquareIcon } from './icons';
+import useAttachmentUrl from '../hooks/useAttachmentUrl';
+import VideoJobCard from './VideoJobCard';
+import ToolCallBlock from './ToolCallBlock';
+import CitationList from './CitationList';
+import MarkdownContent from './MarkdownContent';
 
 interface ChatBubbleProps {
   message: Message;
+  // Actions are only offered when these callbacks are given
+  onRegenerate?: () => void;
+  onEdit?: (newText: string) => void;
+  // Position among the alternative versions of this message (0-based), when there is more than one
+  branch?: { index: number; count: number };
+  onSwitchBranch?: (offset: number) => void;
+  isHighlighted?: boolean;
+  // False for older messages that are no longer sent to the model (see ContextSummaryCard)
+  isInContext?: boolean;
+  // Estimated size of the message in the model's context
+  tokenCount?: number;
+  // The video generation this message stands in for, while it runs
+  videoJob?: VideoJob;
+  onCancelVideo?: () => void;
+  // Actions for generated images
+  onImageVariations?: () => void;
+  onUseImageAsInput?: (attachment: Attachment) => void;
+  // Opens the image editor; without an attachment, the legacy imageUrl is edited
+  onEditImage?: (attachment?: Attachment) => void;
+  // For edited images: scrolls to the message with the original
+  onShowEditSource?: () => void;
+  // Sends the output of a code block run as the next message
+  onSendCodeOutput?: (text: string) => void;
+  // The answer is still being written
+  isStreaming?: boolean;
 }
 
-const ChatBubble: React.FC<ChatBubbleProps> = ({ message }) => {
-  const { sender, text, imageUrl, videoUrl } = message;
+const MissingImage: React.FC = () => (
+  <div className="rounded-lg mb-2 p-4 bg-black bg-opacity-20 text-sm text-gray-300">🖼️ Imagem não disponível</div>
+);
+
+const imageActionClasses = 'p-2 bg-black bg-opacity-60 rounded-full text-white hover:bg-opacity-80';
+
+interface AttachmentImageProps {
+  attachment: Attachment;
+  onEdit?: () => void;
+  onVariations?: () => void;
+  onUseAsInput?: () => void;
+}
+
+// Image stored in IndexedDB, loaded on demand, with actions shown on hover
+const AttachmentImage: React.FC<AttachmentImageProps> = ({ attachment, onEdit, onVariations, onUseAsInput }) => {
+  const url = useAttachmentUrl(attachment.id);
+  if (url === undefined) return <MissingImage />;
+  if (!url) return <div className="rounded-lg mb-2 w-48 h-32 bg-black bg-opacity-20 animate-pulse" />;
+  return (
+    <div className="relative group mb-2">
+      <img src={url} alt={attachment.name || 'Imagem enviada'} className="rounded-lg max-w-full h-auto" />
+      <div className="absolute top-2 right-2 flex gap-1 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+        {onUseAsInput && (
+          <button onClick={onUseAsInput} className={imageActionClasses} aria-label="Usar no chat" title="Anexar à próxima mensagem">
+            <MessageSquareIcon className="w-5 h-5" />
+          </button>
+        )}
+        {onEdit && (
+          <button onClick={onEdit} className={imageActionClasses} aria-label="Editar imagem" title="Editar imagem">
+            <EditIcon className="w-5 h-5" />
+          </button>
+        )}
+        {onVariations && (
+          <button onClick={onVariations} className={imageActionClasses} aria-label="Gerar variações" title="Gerar novas versões com o mesmo pedido">
+            <PaletteIcon className="w-5 h-5" />
+          </button>
+        )}
+        <a href={url} download={attachment.name || 'imagem.png'} className={imageActionClasses} aria-label="Baixar imagem" title="Baixar imagem">
+          <DownloadIcon className="w-5 h-5" />
+        </a>
+      </div>
+    </div>
+  );
+};
+
+// Generated video stored in IndexedDB
+const AttachmentVideo: React.FC<{ attachment: Attachment }> = ({ attachment }) => {
+  const url = useAttachmentUrl(attachment.id);
+  if (url === undefined) return <div className="rounded-lg mb-2 p-4 bg-black bg-opacity-20 text-sm text-gray-300">🎬 Vídeo não disponível</div>;
+  if (!url) return <div className="rounded-lg mb-2 w-64 h-36 bg-black bg-opacity-20 animate-pulse" />;
+  return (
+    <video src={url} controls className="rounded-lg mb-2 max-w-full h-auto" aria-label="Vídeo gerado">
+      Seu navegador não suporta a tag de vídeo.
+    </video>
+  );
+};
+
+// Document attachment shown as a chip that downloads the stored file
+const AttachmentFile: React.FC<{ attachment: Attachment }> = ({ attachment }) => {
+  const url = useAttachmentUrl(attachment.id);
+  const name = attachment.name || 'arquivo';
+  return (
+    <a
+      href={url || undefined}
+      download={name}
+      className={`flex items-center gap-2 mb-2 px-3 py-2 rounded-lg bg-black bg-opacity-20 text-sm max-w-xs ${url ? 'hover:bg-opacity-40' : 'opacity-60 pointer-events-none'}`}
+      title={url === undefined ? 'Arquivo não disponível' : `Baixar ${name}`}
+    >
+      <FileIcon className="w-5 h-5 flex-shrink-0" />
+      <span className="truncate">{name}</span>
+    </a>
+  );
+};
+
+const isSameDay = (a: Date, b: Date) => a.toDateString() === b.toDateString();
+
+// Only the time for today's messages, the date as well for older ones
+const formatMessageTime = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  const time = date.toLocaleTimeString('pt-BR', { hour: '2-digit', minute: '2-digit' });
+  return isSameDay(date, new Date()) ? time : `${date.toLocaleDateString('pt-BR', { day: '2-digit', month: '2-digit', year: '2-digit' })} ${time}`;
+};
+
+const formatFullDate = (timestamp: number): string => new Date(timestamp).toLocaleString('pt-BR', { dateStyle: 'full', timeStyle: 'short' });
+
+const ChatBubble: React.FC<ChatBubbleProps> = ({ message, onRegenerate, onEdit, branch, onSwitchBranch, isHighlighted, isInContext = true, tokenCount, videoJob, onCancelVideo, onImageVariations, onUseImageAsInput, onEditImage, onShowEditSource, onSendCodeOutput, isStreaming }) => {
+  const { sender, text, imageUrl, videoUrl, isEdited } = message;
+  // Records from damaged backups or other devices may lack a valid creation time
+  const sentAt = [message.createdAt, message.updatedAt].find(Number.isFinite);
+  const imageAttachments = message.attachments?.filter(a => a.mimeType.startsWith('image/')) ?? [];
   const isUser = sender === 'user';
+  // Images from older versions were saved as blob URLs, which stop working after a reload
+  const [hasImageError, setHasImageError] = useState(false);
+  // Older video links expire on Google's side and no longer carry the API key
+  const [hasVideoError, setHasVideoError] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(text);
+
+  const startEditing = () => {
+    setDraft(text);
+    setIsEditing(true);
+  };
+
+  const submitEdit = () => {
+    if (!draft.trim() || !onEdit) return;
+    setIsEditing(false);
+    onEdit(draft);
+  };
+
+  const handleEditKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      submitEdit();
+    } else if (e.key === 'Escape') {
+      setIsEditing(false);
+    }
+  };
 
   const wrapperClasses = `flex my-4 ${isUser ? 'justify-end' : 'justify-start'}`;
   const bubbleClasses = `px-4 py-3 rounded-xl shadow-md max-w-2xl`;
@@ -29,46 +171,144 @@ const ChatBubble: React.FC<ChatBubbleProps> = ({ message }) => {
   };
 
   return (
-    <div className={wrapperClasses}>
-      <div className={`${bubbleClasses} ${isUser ? userBubbleClasses : modelBubbleClasses}`}>
-        {imageUrl && (
+    <div id={`message-${message.id}`} className={`${wrapperClasses} ${isInContext ? '' : 'opacity-50'}`}>
+      <div
+        className={`${bubbleClasses} ${isUser ? userBubbleClasses : modelBubbleClasses} ${isHighlighted ? 'ring-2 ring-yellow-400' : ''} transition-shadow`}
+        title={tokenCount !== undefined ? `~${tokenCount} tokens${isInContext ? '' : ' · fora do contexto do modelo'}` : undefined}
+      >
+        {message.editedFrom && (
+          <p className="text-xs text-gray-400 mb-2">
+            ✏️ Edição de uma imagem anterior
+            {onShowEditSource && (
+              <>
+                {' · '}
+                <button onClick={onShowEditSource} className="underline hover:text-white">ver original</button>
+              </>
+            )}
+          </p>
+        )}
+        {imageAttachments.length > 0 && (
+          // Several generated images form a gallery
+          <div className={imageAttachments.length > 1 ? 'grid grid-cols-2 gap-2' : undefined}>
+            {imageAttachments.map(attachment => (
+              <AttachmentImage
+                key={attachment.id}
+                attachment={attachment}
+                onEdit={onEditImage && (() => onEditImage(attachment))}
+                onVariations={onImageVariations}
+                onUseAsInput={onUseImageAsInput && (() => onUseImageAsInput(attachment))}
+              />
+            ))}
+          </div>
+        )}
+        {message.attachments?.filter(a => a.mimeType.startsWith('video/')).map(attachment => (
+          <AttachmentVideo key={attachment.id} attachment={attachment} />
+        ))}
+        {message.attachments?.filter(a => !a.mimeType.startsWith('image/') && !a.mimeType.startsWith('video/')).map(attachment => (
+          <AttachmentFile key={attachment.id} attachment={attachment} />
+        ))}
+        {imageUrl && hasImageError && <MissingImage />}
+        {imageUrl && !hasImageError && (
           <div className="relative group">
             <img 
               src={imageUrl} 
               alt="Conteúdo da imagem" 
               className="rounded-lg mb-2 max-w-full h-auto" 
+              onError={() => setHasImageError(true)}
             />
-            {sender === 'model' && imageUrl.startsWith('data:image') && (
-              <button
-                onClick={handleDownload}
-                className="absolute top-2 right-2 p-2 bg-black bg-opacity-60 rounded-full text-white opacity-0 group-hover:opacity-100 transition-opacity focus:opacity-100"
-                aria-label="Baixar imagem"
-                title="Baixar imagem"
-              >
-                <DownloadIcon className="w-5 h-5" />
-              </button>
-            )}
+            <div className="absolute top-2 right-2 flex gap-1 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+              {onEditImage && (
+                <button onClick={() => onEditImage()} className={imageActionClasses} aria-label="Editar imagem" title="Editar imagem">
+                  <EditIcon className="w-5 h-5" />
+                </button>
+              )}
+              {sender === 'model' && imageUrl.startsWith('data:image') && (
+                <button onClick={handleDownload} className={imageActionClasses} aria-label="Baixar imagem" title="Baixar imagem">
+                  <DownloadIcon className="w-5 h-5" />
+                </button>
+              )}
+            </div>
           </div>
         )}
-        {videoUrl && (
+        {videoUrl && hasVideoError && (
+          <div className="rounded-lg mb-2 p-4 bg-black bg-opacity-20 text-sm text-gray-300">🎬 Vídeo não disponível</div>
+        )}
+        {videoUrl && !hasVideoError && (
             <video 
                 src={videoUrl} 
                 controls 
                 className="rounded-lg mb-2 max-w-full h-auto"
                 aria-label="Vídeo gerado"
+                onError={() => setHasVideoError(true)}
             >
                 Seu navegador não suporta a tag de vídeo.
             </video>
         )}
-        <div className="prose prose-invert max-w-none prose-p:my-2 prose-headings:my-2">
-          {isUser ? (
-             <div style={{ whiteSpace: 'pre-wrap' }}>{text || '...'}</div>
-          ) : (
-            <ReactMarkdown remarkPlugins={[remarkGfm]}>
-              {text || '...'}
-            </ReactMarkdown>
-          )}
-        </div>
+        {message.toolCalls?.map(toolCall => (
+          <ToolCallBlock key={toolCall.id} toolCall={toolCall} />
+        ))}
+        {videoJob ? (
+          <VideoJobCard job={videoJob} onCancel={() => onCancelVideo?.()} />
+        ) : isEditing ? (
+          <div className="space-y-2">
+            <textarea
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              onKeyDown={handleEditKeyDown}
+              autoFocus
+              rows={3}
+              className="w-full min-w-[16rem] bg-black bg-opacity-20 text-white p-2 rounded-lg resize-y focus:outline-none focus:ring-2 focus:ring-white"
+              aria-label="Editar mensagem"
+            />
+            <div className="flex justify-end gap-2 text-sm">
+              <button onClick={() => setIsEditing(false)} className="px-3 py-1 rounded-md bg-gray-600 hover:bg-gray-500 transition-colors">Cancelar</button>
+              <button onClick={submitEdit} disabled={!draft.trim()} className="px-3 py-1 rounded-md bg-white text-[#0878d8] font-semibold hover:bg-gray-200 transition-colors disabled:opacity-50">Enviar</button>
+            </div>
+          </div>
+        ) : (
+          <div className="prose prose-invert max-w-none prose-p:my-2 prose-headings:my-2">
+            {isUser ? (
+               <div style={{ whiteSpace: 'pre-wrap' }}>{text || '...'}</div>
+            ) : (
+              <MarkdownContent text={text || '...'} isStreaming={isStreaming} onSendCodeOutput={onSendCodeOutput} />
+            )}
+          </div>
+        )}
+        {message.citations && !isEditing && <CitationList citations={message.citations} />}
+        {!isEditing && (
+          <div className="flex justify-end items-center gap-1 mt-1 -mb-1">
+            {branch && (
+              <div className="flex items-center mr-auto text-xs text-gray-300 select-none">
+                <button onClick={() => onSwitchBranch?.(-1)} disabled={!onSwitchBranch || branch.index === 0} className="p-1 rounded-full hover:bg-black hover:bg-opacity-20 transition-colors disabled:opacity-40 disabled:hover:bg-transparent" aria-label="Versão anterior" title="Versão anterior">
+                  <ChevronLeftIcon className="w-4 h-4" />
+                </button>
+                <span>{branch.index + 1}/{branch.count}</span>
+                <button onClick={() => onSwitchBranch?.(1)} disabled={!onSwitchBranch || branch.index === branch.count - 1} className="p-1 rounded-full hover:bg-black hover:bg-opacity-20 transition-colors disabled:opacity-40 disabled:hover:bg-transparent" aria-label="Próxima versão" title="Próxima versão">
+                  <ChevronRightIcon className="w-4 h-4" />
+                </button>
+              </div>
+            )}
+            {onEdit && (
+              <button onClick={startEditing} className="p-1 rounded-full text-gray-200 hover:text-white hover:bg-black hover:bg-opacity-20 transition-colors" aria-label="Editar mensagem" title="Editar e reenviar">
+                <EditIcon className="w-4 h-4" />
+              </button>
+            )}
+            {onRegenerate && (
+              <button onClick={onRegenerate} className="p-1 rounded-full text-gray-400 hover:text-white hover:bg-gray-700 transition-colors" aria-label="Gerar novamente" title="Gerar novamente">
+                <RefreshIcon className="w-4 h-4" />
+              </button>
+            )}
+            {sentAt !== undefined && (
+              <time
+                dateTime={new Date(sentAt).toISOString()}
+                className="ml-1 text-xs text-gray-300 select-none"
+                title={isEdited ? `Editada em ${formatFullDate(sentAt)}` : formatFullDate(sentAt)}
+              >
+                {formatMessageTime(sentAt)}{isEdited && ' · editada'}
+              </time>
+            )}
+          </div>
+        )}
       </div>
     </div>
   );
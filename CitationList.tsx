@@ -0,0 +1,25 @@
+import React from 'react';
+import { KnowledgeCitation } from '../types';
+
+interface CitationListProps {
+  citations: KnowledgeCitation[];
+}
+
+// The knowledge base passages an answer was given, matching its [1], [2]... references
+const CitationList: React.FC<CitationListProps> = ({ citations }) => (
+  <details className="mt-2 rounded-lg bg-black bg-opacity-20 text-sm">
+    <summary className="px-3 py-2 cursor-pointer select-none text-gray-300">
+      📚 Base de conhecimento <span className="text-xs text-gray-500">· {citations.length} {citations.length === 1 ? 'trecho' : 'trechos'}</span>
+    </summary>
+    <ol className="px-3 pb-3 space-y-2">
+      {citations.map(citation => (
+        <li key={citation.index}>
+          <p className="text-xs text-gray-400 mb-1">[{citation.index}] {citation.title}</p>
+          <p className="whitespace-pre-wrap break-words text-xs bg-black bg-opacity-30 p-2 rounded max-h-40 overflow-y-auto">{citation.text}</p>
+        </li>
+      ))}
+    </ol>
+  </details>
+);
+
+export default CitationList;
@@ -0,0 +1,140 @@
+import React, { useState, createContext, useContext } from 'react';
+import { CopyIcon, CheckIcon, DownloadIcon, PlayIcon } from './icons';
+import { getRunnableLanguage, runCode, CodeRunResult, RUN_TIME_LIMIT_MS } from '../services/codeRunnerService';
+import { downloadBlob } from '../utils/fileUtils';
+import MermaidDiagram from './MermaidDiagram';
+
+interface CodeBlockContextValue {
+  // Diagrams are only drawn once the answer is complete
+  isStreaming?: boolean;
+  // Sends the output of a run to the chat as the next message
+  onSendOutput?: (text: string) => void;
+}
+
+// A context rather than props because ReactMarkdown creates the blocks, and its components
+// must stay the same between renders
+export const CodeBlockContext = createContext<CodeBlockContextValue>({});
+
+const FILE_EXTENSIONS: Record<string, string> = {
+  javascript: 'js', typescript: 'ts', python: 'py', py: 'py', js: 'js', ts: 'ts', jsx: 'jsx', tsx: 'tsx',
+  json: 'json', html: 'html', css: 'css', bash: 'sh', sh: 'sh', shell: 'sh', sql: 'sql', java: 'java',
+  c: 'c', cpp: 'cpp', csharp: 'cs', go: 'go', rust: 'rs', ruby: 'rb', php: 'php', yaml: 'yml', markdown: 'md',
+};
+
+const COPIED_FEEDBACK_MS = 2000;
+
+const actionClasses = 'flex items-center gap-1 px-2 py-1 rounded hover:bg-gray-600 hover:text-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed';
+
+// Plain text of rendered markdown, e.g. of a highlighted <code> element
+const getText = (node: React.ReactNode): string => {
+  if (typeof node === 'string' || typeof node === 'number') return String(node);
+  if (Array.isArray(node)) return node.map(getText).join('');
+  if (React.isValidElement<{ children?: React.ReactNode }>(node)) return getText(node.props.children);
+  return '';
+};
+
+const formatOutput = (result: CodeRunResult): string => {
+  const lines = result.output.map(line => line.text);
+  if (result.error) lines.push(result.error);
+  if (result.timedOut) lines.push(`[Interrompido após ${RUN_TIME_LIMIT_MS / 1000} s]`);
+  return lines.join('\n');
+};
+
+// A fenced code block in an answer, with copy, download and (for supported languages) run
+// actions. Mermaid blocks are drawn as diagrams, with the code a click away.
+const CodeBlock: React.FC<{ children?: React.ReactNode }> = ({ children }) => {
+  const { isStreaming, onSendOutput } = useContext(CodeBlockContext);
+  const [isCopied, setIsCopied] = useState(false);
+  const [isShowingCode, setIsShowingCode] = useState(false);
+  const [isRunning, setIsRunning] = useState(false);
+  const [result, setResult] = useState<CodeRunResult | null>(null);
+
+  // ReactMarkdown renders fenced blocks as <pre><code className="language-x">
+  const className = React.isValidElement<{ className?: string }>(children) ? children.props.className ?? '' : '';
+  const language = /language-([\w+#-]+)/.exec(className)?.[1]?.toLowerCase();
+  const runnableLanguage = language ? getRunnableLanguage(language) : undefined;
+  const isDiagram = language === 'mermaid' && !isStreaming;
+  const code = getText(children).replace(/\n$/, '');
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(code);
+      setIsCopied(true);
+      setTimeout(() => setIsCopied(false), COPIED_FEEDBACK_MS);
+    } catch (error) {
+      console.error('Error copying code:', error);
+    }
+  };
+
+  const handleDownload = () => {
+    const extension = (language && FILE_EXTENSIONS[language]) ?? 'txt';
+    downloadBlob(new Blob([code], { type: 'text/plain' }), `codigo.${extension}`);
+  };
+
+  const handleRun = async () => {
+    if (!runnableLanguage || isRunning) return;
+    setIsRunning(true);
+    setResult(null);
+    setResult(await runCode(runnableLanguage, code));
+    setIsRunning(false);
+  };
+
+  const handleSendOutput = () => {
+    if (!result || !onSendOutput) return;
+    onSendOutput(`Executei o código e esta foi a saída:\n\n\`\`\`\n${formatOutput(result) || '(nenhuma saída)'}\n\`\`\``);
+  };
+
+  return (
+    <div className="my-2 rounded-lg overflow-hidden bg-black bg-opacity-30 not-prose">
+      <div className="flex items-center gap-1 px-2 py-1 text-xs text-gray-400 bg-black bg-opacity-30">
+        <span className="mr-auto px-1">{language ?? 'código'}</span>
+        <button onClick={handleCopy} className={actionClasses} aria-label="Copiar código">
+          {isCopied ? <CheckIcon className="w-3.5 h-3.5" /> : <CopyIcon className="w-3.5 h-3.5" />}
+          <span>{isCopied ? 'Copiado' : 'Copiar'}</span>
+        </button>
+        <button onClick={handleDownload} className={actionClasses} aria-label="Baixar código">
+          <DownloadIcon className="w-3.5 h-3.5" /> <span>Baixar</span>
+        </button>
+        {isDiagram && (
+          <button onClick={() => setIsShowingCode(!isShowingCode)} className={actionClasses}>
+            <span>{isShowingCode ? 'Ver diagrama' : 'Ver código'}</span>
+          </button>
+        )}
+        {runnableLanguage && (
+          <button onClick={handleRun} disabled={isRunning} className={actionClasses} aria-label="Executar código" title={`Executa em um ambiente isolado, por até ${RUN_TIME_LIMIT_MS / 1000} s`}>
+            <PlayIcon className="w-3.5 h-3.5" /> <span>{isRunning ? 'Executando...' : 'Executar'}</span>
+          </button>
+        )}
+      </div>
+      {isDiagram && !isShowingCode ? (
+        <MermaidDiagram source={code} />
+      ) : (
+        // The highlight.js theme's own padding and background would double the block's
+        <pre className="p-3 overflow-x-auto text-sm [&_.hljs]:p-0 [&_.hljs]:bg-transparent">{children}</pre>
+      )}
+      {result && (
+        <div className="border-t border-gray-700 px-3 py-2 text-xs font-mono">
+          <div className="flex items-center mb-1 font-sans text-gray-400">
+            <span className="mr-auto">Saída · {(result.durationMs / 1000).toFixed(2)} s</span>
+            {onSendOutput && (
+              <button onClick={handleSendOutput} className="px-2 py-0.5 rounded hover:bg-gray-600 hover:text-white transition-colors">
+                Enviar saída ao chat
+              </button>
+            )}
+          </div>
+          <div className="max-h-64 overflow-y-auto whitespace-pre-wrap break-words">
+            {result.output.length === 0 && !result.error && !result.timedOut && <span className="text-gray-500">(nenhuma saída)</span>}
+            {result.output.map((line, index) => (
+              <div key={index} className={line.stream === 'stderr' ? 'text-red-400' : 'text-gray-200'}>{line.text}</div>
+            ))}
+            {result.isTruncated && <div className="text-yellow-400">[Saída cortada: limite de tamanho atingido]</div>}
+            {result.error && <div className="text-red-400">{result.error}</div>}
+            {result.timedOut && <div className="text-yellow-400">Tempo limite de {RUN_TIME_LIMIT_MS / 1000} s excedido; a execução foi interrompida.</div>}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CodeBlock;
@@ -0,0 +1,40 @@
+import React, { useState } from 'react';
+import { ContextSummary } from '../types';
+
+interface ContextSummaryCardProps {
+  summary?: ContextSummary;
+  // Number of earlier messages no longer sent to the model
+  hiddenCount: number;
+  tokenCount: number;
+  tokenBudget: number;
+}
+
+// Pinned above the first message still sent in full, marking where the model's context begins
+const ContextSummaryCard: React.FC<ContextSummaryCardProps> = ({ summary, hiddenCount, tokenCount, tokenBudget }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  return (
+    <div className="my-4 p-3 rounded-xl border border-dashed border-gray-600 bg-[#1c1c1c] text-sm text-gray-300">
+      <div className="flex items-center justify-between gap-2">
+        <span className="font-semibold">
+          📌 {summary ? `Resumo de ${hiddenCount} ${hiddenCount === 1 ? 'mensagem anterior' : 'mensagens anteriores'}` : `${hiddenCount} ${hiddenCount === 1 ? 'mensagem anterior fora' : 'mensagens anteriores fora'} do contexto`}
+        </span>
+        <span className="text-xs text-gray-500 flex-shrink-0" title="Estimativa do histórico enviado ao modelo">
+          ~{tokenCount.toLocaleString('pt-BR')} / {tokenBudget.toLocaleString('pt-BR')} tokens
+        </span>
+      </div>
+      {summary ? (
+        <>
+          <p className={`mt-2 whitespace-pre-wrap ${isExpanded ? '' : 'line-clamp-3'}`}>{summary.text}</p>
+          <button onClick={() => setIsExpanded(!isExpanded)} className="mt-1 text-xs text-[#2196f3] hover:underline">
+            {isExpanded ? 'Mostrar menos' : 'Mostrar resumo completo'}
+          </button>
+        </>
+      ) : (
+        <p className="mt-2 text-xs text-gray-500">O modelo não vê as mensagens acima desta linha. Um resumo será criado na próxima resposta.</p>
+      )}
+    </div>
+  );
+};
+
+export default ContextSummaryCard;
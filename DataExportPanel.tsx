@@ -0,0 +1,99 @@
+import React, { useState, useRef } from 'react';
+import { ExportFormat } from '../services/exportService';
+
+export type ExportScope = 'current' | 'all';
+
+interface DataExportPanelProps {
+  hasActiveSession: boolean;
+  onExport: (scope: ExportScope, format: ExportFormat) => Promise<void>;
+  // Resolves with the number of chats added
+  onImport: (file: File) => Promise<number>;
+}
+
+const FORMATS: { format: ExportFormat; label: string; description: string }[] = [
+  { format: 'json', label: 'JSON', description: 'Backup completo, com anexos. Pode ser importado de volta.' },
+  { format: 'markdown', label: 'Markdown', description: 'Transcrição em texto para ler ou compartilhar.' },
+  { format: 'html', label: 'HTML', description: 'Página única com imagens, abre em qualquer navegador.' },
+];
+
+const DataExportPanel: React.FC<DataExportPanelProps> = ({ hasActiveSession, onExport, onImport }) => {
+  const [scope, setScope] = useState<ExportScope>(hasActiveSession ? 'current' : 'all');
+  const [isBusy, setIsBusy] = useState(false);
+  const [feedbackMessage, setFeedbackMessage] = useState<{ type: 'error' | 'success'; text: string } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const run = async (action: () => Promise<string>) => {
+    setIsBusy(true);
+    setFeedbackMessage(null);
+    try {
+      setFeedbackMessage({ type: 'success', text: await action() });
+    } catch (error: any) {
+      setFeedbackMessage({ type: 'error', text: error.message || 'Ocorreu um erro inesperado.' });
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleExport = (format: ExportFormat) => run(async () => {
+    await onExport(scope, format);
+    return 'Exportação concluída.';
+  });
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    run(async () => {
+      const importedCount = await onImport(file);
+      return importedCount > 0
+        ? `${importedCount} ${importedCount === 1 ? 'chat importado' : 'chats importados'}.`
+        : 'Nenhum chat novo: todos já estavam no histórico.';
+    });
+  };
+
+  return (
+    <div className="space-y-4 p-4 bg-[#2a2a2a] rounded-xl">
+      <div>
+        <label htmlFor="export-scope" className="block text-gray-300 mb-2 font-medium">O que exportar</label>
+        <select
+          id="export-scope"
+          value={scope}
+          onChange={e => setScope(e.target.value as ExportScope)}
+          className="w-full bg-[#1c1c1c] text-gray-200 p-3 rounded-xl focus:outline-none focus:ring-2 focus:ring-[#0878d8]"
+        >
+          {hasActiveSession && <option value="current">Chat atual</option>}
+          <option value="all">Todos os chats</option>
+        </select>
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+        {FORMATS.map(({ format, label, description }) => (
+          <button
+            key={format}
+            onClick={() => handleExport(format)}
+            disabled={isBusy}
+            className="p-3 text-left rounded-xl bg-gray-600 hover:bg-gray-500 text-white transition-colors disabled:opacity-50"
+          >
+            <span className="block font-semibold text-sm">{label}</span>
+            <span className="block text-xs text-gray-300">{description}</span>
+          </button>
+        ))}
+      </div>
+      <div className="border-t border-gray-700 pt-4">
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isBusy}
+          className="px-4 py-2 text-sm rounded-xl bg-[#0878d8] hover:bg-[#2196f3] text-white transition-colors disabled:opacity-50"
+        >
+          Importar backup JSON
+        </button>
+        <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={handleFileChange} className="hidden" />
+        <p className="text-xs text-gray-500 mt-2">Os chats do arquivo são adicionados ao histórico atual; nada é apagado.</p>
+      </div>
+      {feedbackMessage && (
+        <p role="status" className={`text-sm ${feedbackMessage.type === 'error' ? 'text-red-400' : 'text-green-400'}`}>{feedbackMessage.text}</p>
+      )}
+    </div>
+  );
+};
+
+export default DataExportPanel;
@@ -0,0 +1,152 @@
+import React, { useState, useEffect } from 'react';
+import {
+  getApiKey, hasStoredApiKey, isApiKeyUnlocked, onApiKeyChange, saveApiKey, unlockApiKey, lockApiKey, removeApiKey, maskApiKey,
+} from '../services/apiKeyService';
+import { testApiKey } from '../services/geminiService';
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+const inputClasses = 'w-full bg-[#1c1c1c] text-gray-200 p-3 rounded-xl focus:outline-none focus:ring-2 focus:ring-[#0878d8] placeholder-gray-500';
+const secondaryButtonClasses = 'px-4 py-2 text-sm rounded-xl bg-gray-600 hover:bg-gray-500 text-white transition-colors disabled:opacity-50';
+const primaryButtonClasses = 'px-4 py-2 text-sm rounded-xl bg-[#0878d8] hover:bg-[#2196f3] text-white transition-colors disabled:opacity-50';
+
+// Lets the user bring their own Gemini key, kept encrypted in this browser behind a passphrase
+const GeminiApiKeyPanel: React.FC = () => {
+  const [isStored, setIsStored] = useState(hasStoredApiKey);
+  const [isUnlocked, setIsUnlocked] = useState(isApiKeyUnlocked);
+  const [isReplacing, setIsReplacing] = useState(false);
+  const [apiKeyInput, setApiKeyInput] = useState('');
+  const [passphrase, setPassphrase] = useState('');
+  const [passphraseConfirmation, setPassphraseConfirmation] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+  const [feedbackMessage, setFeedbackMessage] = useState<{ type: 'error' | 'success'; text: string } | null>(null);
+
+  useEffect(() => {
+    return onApiKeyChange(() => {
+      setIsStored(hasStoredApiKey());
+      setIsUnlocked(isApiKeyUnlocked());
+    });
+  }, []);
+
+  const resetForm = () => {
+    setApiKeyInput('');
+    setPassphrase('');
+    setPassphraseConfirmation('');
+  };
+
+  const run = async (action: () => Promise<string>) => {
+    setIsBusy(true);
+    setFeedbackMessage(null);
+    try {
+      setFeedbackMessage({ type: 'success', text: await action() });
+    } catch (error: any) {
+      setFeedbackMessage({ type: 'error', text: error.message || 'Ocorreu um erro inesperado.' });
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleTest = (apiKey: string) => run(async () => {
+    await testApiKey(apiKey.trim());
+    return 'A chave funciona.';
+  });
+
+  const handleSave = () => run(async () => {
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      throw new Error(`A senha precisa ter pelo menos ${MIN_PASSPHRASE_LENGTH} caracteres.`);
+    }
+    if (passphrase !== passphraseConfirmation) {
+      throw new Error('As senhas não coincidem.');
+    }
+    const apiKey = apiKeyInput.trim();
+    // A typo would otherwise only show up on the next message
+    await testApiKey(apiKey);
+    await saveApiKey(apiKey, passphrase);
+    resetForm();
+    setIsReplacing(false);
+    return 'Chave salva e ativada.';
+  });
+
+  const handleUnlock = () => run(async () => {
+    await unlockApiKey(passphrase);
+    resetForm();
+    return 'Chave desbloqueada.';
+  });
+
+  const handleRemove = () => {
+    if (!window.confirm('Remover a chave de API salva neste navegador?')) return;
+    removeApiKey();
+    resetForm();
+    setFeedbackMessage(null);
+  };
+
+  const showForm = !isStored || isReplacing;
+  const activeApiKey = getApiKey();
+
+  return (
+    <div className="space-y-4 p-4 bg-[#2a2a2a] rounded-xl">
+      <p className="text-xs text-gray-400">
+        Sua chave do Google AI Studio fica apenas neste navegador, criptografada com uma senha que só você conhece. Você vai precisar da senha para desbloqueá-la a cada visita.
+      </p>
+
+      {showForm ? (
+        <div className="space-y-3">
+          <div>
+            <label htmlFor="gemini-api-key" className="block text-gray-300 mb-2 font-medium">{isReplacing ? 'Nova chave de API' : 'Chave de API do Gemini'}</label>
+            <input id="gemini-api-key" type="password" value={apiKeyInput} onChange={e => setApiKeyInput(e.target.value)} placeholder="AIza..." autoComplete="off" className={inputClasses} />
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <div>
+              <label htmlFor="api-key-passphrase" className="block text-gray-300 mb-2 font-medium">Senha</label>
+              <input id="api-key-passphrase" type="password" value={passphrase} onChange={e => setPassphrase(e.target.value)} autoComplete="new-password" className={inputClasses} />
+            </div>
+            <div>
+              <label htmlFor="api-key-passphrase-confirmation" className="block text-gray-300 mb-2 font-medium">Confirmar senha</label>
+              <input id="api-key-passphrase-confirmation" type="password" value={passphraseConfirmation} onChange={e => setPassphraseConfirmation(e.target.value)} autoComplete="new-password" className={inputClasses} />
+            </div>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <button onClick={() => handleTest(apiKeyInput)} disabled={isBusy || !apiKeyInput.trim()} className={secondaryButtonClasses}>Testar</button>
+            <button onClick={handleSave} disabled={isBusy || !apiKeyInput.trim() || !passphrase} className={primaryButtonClasses}>Salvar chave</button>
+            {isReplacing && (
+              <button onClick={() => { setIsReplacing(false); resetForm(); }} disabled={isBusy} className={secondaryButtonClasses}>Cancelar</button>
+            )}
+          </div>
+        </div>
+      ) : isUnlocked && activeApiKey ? (
+        <div className="space-y-3">
+          <p className="text-sm text-gray-300">🔓 Chave ativa: <span className="font-mono">{maskApiKey(activeApiKey)}</span></p>
+          <div className="flex flex-wrap gap-2">
+            <button onClick={() => handleTest(activeApiKey)} disabled={isBusy} className={secondaryButtonClasses}>Testar</button>
+            <button onClick={() => { setIsReplacing(true); setFeedbackMessage(null); }} disabled={isBusy} className={secondaryButtonClasses}>Trocar chave</button>
+            <button onClick={lockApiKey} disabled={isBusy} className={secondaryButtonClasses}>Bloquear</button>
+            <button onClick={handleRemove} disabled={isBusy} className="px-4 py-2 text-sm rounded-xl bg-red-600 hover:bg-red-700 text-white transition-colors disabled:opacity-50">Remover</button>
+          </div>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          <label htmlFor="api-key-unlock" className="block text-gray-300 font-medium">🔒 Digite sua senha para desbloquear a chave salva</label>
+          <input
+            id="api-key-unlock"
+            type="password"
+            value={passphrase}
+            onChange={e => setPassphrase(e.target.value)}
+            onKeyDown={e => { if (e.key === 'Enter' && passphrase) handleUnlock(); }}
+            autoComplete="current-password"
+            className={inputClasses}
+          />
+          <div className="flex flex-wrap gap-2">
+            <button onClick={handleUnlock} disabled={isBusy || !passphrase} className={primaryButtonClasses}>Desbloquear</button>
+            <button onClick={handleRemove} disabled={isBusy} className={secondaryButtonClasses}>Esqueci a senha (remover chave)</button>
+          </div>
+        </div>
+      )}
+
+      {feedbackMessage && (
+        <p role="status" className={`text-sm ${feedbackMessage.type === 'error' ? 'text-red-400' : 'text-green-400'}`}>{feedbackMessage.text}</p>
+      )}
+    </div>
+  );
+};
+
+export default GeminiApiKeyPanel;
@@ -1,12 +1,13 @@
 
 import React from 'react';
-import { MenuIcon } from './icons';
+import { MenuIcon, SlidersIcon } from './icons';
 
 interface HeaderProps {
     onMenuClick: () => void;
+    onSessionSettingsClick: () => void;
 }
 
-const Header: React.FC<HeaderProps> = ({ onMenuClick }) => {
+const Header: React.FC<HeaderProps> = ({ onMenuClick, onSessionSettingsClick }) => {
   return (
     <header className="bg-[#1c1c1c] p-4 border-b border-gray-700 flex-shrink-0 flex items-center h-16 z-10">
       <button onClick={onMenuClick} className="md:hidden p-2 mr-2 text-gray-300 hover:text-white">
@@ -15,8 +16,11 @@ const Header: React.FC<HeaderProps> = ({ onMenuClick }) => {
       <div className="flex-grow text-center md:text-xl">
         <h1 className="text-xl font-bold text-white">Chat do Robertin Souzah</h1>
       </div>
+      <button onClick={onSessionSettingsClick} className="p-2 ml-2 text-gray-300 hover:text-white" aria-label="Configurações do chat" title="Modelo e parâmetros deste chat">
+          <SlidersIcon className="w-6 h-6" />
+      </button>
     </header>
   );
 };
 
-export default Header;
\ No newline at end of file
+export default Header;
@@ -0,0 +1,196 @@
+import React, { useState, useEffect, useRef } from 'react';
+
+interface ImageEditorModalProps {
+  // The image to edit; the editor is closed while it is null
+  image: Blob | null;
+  onClose: () => void;
+  onSubmit: (instruction: string, mask?: Blob) => void;
+}
+
+// Brush diameter as a share of the image width, so it feels the same at any resolution
+const MIN_BRUSH_SIZE = 0.01;
+const MAX_BRUSH_SIZE = 0.15;
+const DEFAULT_BRUSH_SIZE = 0.05;
+const MASK_COLOR = '#ff3b30';
+
+type Point = { x: number; y: number };
+
+// Turns the painted strokes into the mask sent to the model: white where the image may change, black elsewhere
+const exportMask = (strokes: HTMLCanvasElement): Promise<Blob | null> => {
+  const mask = document.createElement('canvas');
+  mask.width = strokes.width;
+  mask.height = strokes.height;
+  const context = mask.getContext('2d');
+  if (!context) return Promise.resolve(null);
+  context.drawImage(strokes, 0, 0);
+  context.globalCompositeOperation = 'source-in';
+  context.fillStyle = 'white';
+  context.fillRect(0, 0, mask.width, mask.height);
+  context.globalCompositeOperation = 'destination-over';
+  context.fillStyle = 'black';
+  context.fillRect(0, 0, mask.width, mask.height);
+  return new Promise(resolve => mask.toBlob(resolve, 'image/png'));
+};
+
+const ImageEditorModal: React.FC<ImageEditorModalProps> = ({ image, onClose, onSubmit }) => {
+  const [imageUrl, setImageUrl] = useState<string | null>(null);
+  const [instruction, setInstruction] = useState('');
+  const [brushSize, setBrushSize] = useState(DEFAULT_BRUSH_SIZE);
+  const [hasMask, setHasMask] = useState(false);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  // Where the current stroke is; null while the pointer is up
+  const lastPoint = useRef<Point | null>(null);
+
+  useEffect(() => {
+    if (!image) return;
+    const url = URL.createObjectURL(image);
+    setImageUrl(url);
+    setInstruction('');
+    setHasMask(false);
+    return () => URL.revokeObjectURL(url);
+  }, [image]);
+
+  if (!image || !imageUrl) return null;
+
+  // The canvas takes the image's own resolution so the mask lines up with it
+  const handleImageLoad = (e: React.SyntheticEvent<HTMLImageElement>) => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    canvas.width = e.currentTarget.naturalWidth;
+    canvas.height = e.currentTarget.naturalHeight;
+  };
+
+  const getPoint = (e: React.PointerEvent<HTMLCanvasElement>): Point => {
+    const canvas = e.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: (e.clientX - rect.left) * (canvas.width / rect.width),
+      y: (e.clientY - rect.top) * (canvas.height / rect.height),
+    };
+  };
+
+  const paint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = e.currentTarget;
+    const context = canvas.getContext('2d');
+    if (!context) return;
+    const point = getPoint(e);
+    const from = lastPoint.current ?? point;
+    context.strokeStyle = MASK_COLOR;
+    context.lineWidth = brushSize * canvas.width;
+    context.lineCap = 'round';
+    context.lineJoin = 'round';
+    context.beginPath();
+    context.moveTo(from.x, from.y);
+    context.lineTo(point.x, point.y);
+    context.stroke();
+    lastPoint.current = point;
+    setHasMask(true);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    lastPoint.current = null;
+    paint(e);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (lastPoint.current) paint(e);
+  };
+
+  const handlePointerUp = () => {
+    lastPoint.current = null;
+  };
+
+  const clearMask = () => {
+    const canvas = canvasRef.current;
+    canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+    setHasMask(false);
+  };
+
+  const handleSubmit = async () => {
+    if (!instruction.trim()) return;
+    const mask = hasMask && canvasRef.current ? await exportMask(canvasRef.current) : null;
+    onSubmit(instruction.trim(), mask ?? undefined);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-70 z-50 flex justify-center items-center p-4">
+      <div className="bg-[#1c1c1c] border border-gray-700 p-6 rounded-xl shadow-xl w-full max-w-3xl max-h-full overflow-y-auto flex flex-col">
+        <h2 className="text-xl font-semibold mb-2 text-white">🖌️ Editar Imagem</h2>
+        <p className="text-gray-400 text-sm mb-4">Pinte a área que deve mudar e descreva a alteração. Sem pintura, a instrução vale para a imagem toda.</p>
+
+        <div className="flex justify-center mb-4">
+          <div className="relative inline-block">
+            <img
+              src={imageUrl}
+              alt="Imagem a editar"
+              onLoad={handleImageLoad}
+              draggable={false}
+              className="block max-w-full max-h-[55vh] rounded-lg select-none"
+            />
+            <canvas
+              ref={canvasRef}
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onPointerCancel={handlePointerUp}
+              className="absolute inset-0 w-full h-full rounded-lg opacity-50 cursor-crosshair touch-none"
+              aria-label="Área de pintura da máscara"
+            />
+          </div>
+        </div>
+
+        <div className="flex items-center gap-4 mb-4 text-sm text-gray-300">
+          <label className="flex items-center gap-2 flex-grow">
+            <span className="flex-shrink-0">Pincel</span>
+            <input
+              type="range"
+              min={MIN_BRUSH_SIZE}
+              max={MAX_BRUSH_SIZE}
+              step={0.01}
+              value={brushSize}
+              onChange={(e) => setBrushSize(Number(e.target.value))}
+              className="w-full accent-[#0878d8]"
+            />
+          </label>
+          <button
+            onClick={clearMask}
+            disabled={!hasMask}
+            className="px-3 py-1.5 rounded-md bg-[#2a2a2a] hover:bg-gray-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed">
+            Limpar máscara
+          </button>
+        </div>
+
+        <textarea
+          value={instruction}
+          onChange={(e) => setInstruction(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && !e.shiftKey) {
+              e.preventDefault();
+              handleSubmit();
+            }
+          }}
+          rows={2}
+          autoFocus
+          placeholder="Ex: Troque o céu por um pôr do sol."
+          className="w-full bg-[#2a2a2a] text-gray-200 p-3 rounded-md focus:outline-none focus:ring-2 focus:ring-[#0878d8] placeholder-gray-500 resize-none mb-6"
+          aria-label="Instrução de edição"
+        />
+
+        <div className="flex justify-end space-x-4">
+          <button onClick={onClose} className="px-4 py-2 rounded-md bg-gray-600 hover:bg-gray-500 text-white transition-colors">
+            Cancelar
+          </button>
+          <button
+            onClick={handleSubmit}
+            disabled={!instruction.trim()}
+            className="px-4 py-2 rounded-md bg-[#0878d8] hover:bg-[#2196f3] text-white transition-colors disabled:bg-gray-500 disabled:cursor-not-allowed">
+            Editar
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImageEditorModal;
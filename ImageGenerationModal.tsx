@@ -0,0 +1,158 @@
+import React, { useState, useEffect } from 'react';
+import { ImageAspectRatio, ImageGenerationOptions, ImageGenerationRequest } from '../types';
+
+interface ImageGenerationModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSubmit: (request: ImageGenerationRequest) => void;
+  // The options the current provider accepts; the others are hidden
+  supportedOptions: (keyof ImageGenerationOptions)[];
+}
+
+const ASPECT_RATIOS: { value: ImageAspectRatio; label: string }[] = [
+  { value: '1:1', label: 'Quadrado' },
+  { value: '4:3', label: 'Paisagem' },
+  { value: '16:9', label: 'Widescreen' },
+  { value: '3:4', label: 'Retrato' },
+  { value: '9:16', label: 'Stories' },
+];
+
+const MAX_IMAGES = 4;
+const MAX_SEED = 2147483647;
+
+const inputClasses = 'w-full bg-[#2a2a2a] text-gray-200 p-3 rounded-md focus:outline-none focus:ring-2 focus:ring-[#0878d8] placeholder-gray-500';
+
+const ImageGenerationModal: React.FC<ImageGenerationModalProps> = ({ isOpen, onClose, onSubmit, supportedOptions }) => {
+  const [prompt, setPrompt] = useState('');
+  // The options are kept between requests, since they are usually reused
+  const [aspectRatio, setAspectRatio] = useState<ImageAspectRatio>('1:1');
+  const [numberOfImages, setNumberOfImages] = useState(1);
+  const [negativePrompt, setNegativePrompt] = useState('');
+  const [seed, setSeed] = useState('');
+
+  useEffect(() => {
+    if (isOpen) {
+      setPrompt('');
+    }
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const supports = (option: keyof ImageGenerationOptions) => supportedOptions.includes(option);
+  const isSeedValid = seed === '' || (/^\d+$/.test(seed) && Number(seed) <= MAX_SEED);
+
+  const handleSubmit = () => {
+    if (!prompt.trim() || !isSeedValid) return;
+    const options: ImageGenerationOptions = {};
+    if (supports('aspectRatio')) options.aspectRatio = aspectRatio;
+    if (supports('numberOfImages')) options.numberOfImages = numberOfImages;
+    if (supports('negativePrompt') && negativePrompt.trim()) options.negativePrompt = negativePrompt.trim();
+    if (supports('seed') && seed) options.seed = Number(seed);
+    onSubmit({ prompt: prompt.trim(), options });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-70 z-50 flex justify-center items-center p-4">
+      <div className="bg-[#1c1c1c] border border-gray-700 p-6 rounded-xl shadow-xl w-full max-w-2xl max-h-full overflow-y-auto flex flex-col">
+        <h2 className="text-xl font-semibold mb-2 text-white">🎨 Criar Imagem com IA</h2>
+        <p className="text-gray-400 text-sm mb-4">Seja o mais descritivo possível para melhores resultados. Você pode incluir estilos como 'foto realista', 'pintura a óleo', ou 'pixel art'.</p>
+        <div className="text-gray-300 mb-6 space-y-4">
+          <textarea
+            value={prompt}
+            onChange={(e) => setPrompt(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && !e.shiftKey) {
+                e.preventDefault();
+                handleSubmit();
+              }
+            }}
+            rows={3}
+            autoFocus
+            placeholder="Ex: Um gato de óculos escuros tocando guitarra em um telhado, estilo anime."
+            className={`${inputClasses} resize-none`}
+            aria-label="Descrição da imagem"
+          />
+
+          {supports('aspectRatio') && (
+            <fieldset>
+              <legend className="text-sm font-medium mb-2">Proporção</legend>
+              <div className="flex flex-wrap gap-2">
+                {ASPECT_RATIOS.map(({ value, label }) => (
+                  <button
+                    key={value}
+                    onClick={() => setAspectRatio(value)}
+                    className={`px-3 py-1.5 text-sm rounded-md transition-colors ${aspectRatio === value ? 'bg-[#0878d8] text-white' : 'bg-[#2a2a2a] hover:bg-gray-600'}`}
+                    aria-pressed={aspectRatio === value}
+                  >
+                    {value} <span className="text-xs opacity-75">{label}</span>
+                  </button>
+                ))}
+              </div>
+            </fieldset>
+          )}
+
+          {supports('numberOfImages') && (
+            <fieldset>
+              <legend className="text-sm font-medium mb-2">Quantidade de imagens</legend>
+              <div className="flex gap-2">
+                {Array.from({ length: MAX_IMAGES }, (_, i) => i + 1).map(count => (
+                  <button
+                    key={count}
+                    onClick={() => setNumberOfImages(count)}
+                    className={`w-10 py-1.5 text-sm rounded-md transition-colors ${numberOfImages === count ? 'bg-[#0878d8] text-white' : 'bg-[#2a2a2a] hover:bg-gray-600'}`}
+                    aria-pressed={numberOfImages === count}
+                  >
+                    {count}
+                  </button>
+                ))}
+              </div>
+            </fieldset>
+          )}
+
+          {supports('negativePrompt') && (
+            <label className="block">
+              <span className="text-sm font-medium">Evitar na imagem (opcional)</span>
+              <input
+                type="text"
+                value={negativePrompt}
+                onChange={(e) => setNegativePrompt(e.target.value)}
+                placeholder="Ex: texto, marcas d'água, pessoas"
+                className={`${inputClasses} mt-2`}
+              />
+            </label>
+          )}
+
+          {supports('seed') && (
+            <label className="block">
+              <span className="text-sm font-medium">Semente (opcional)</span>
+              <input
+                type="text"
+                inputMode="numeric"
+                value={seed}
+                onChange={(e) => setSeed(e.target.value.trim())}
+                placeholder="Aleatória"
+                className={`${inputClasses} mt-2`}
+              />
+              <span className={`block text-xs mt-1 ${isSeedValid ? 'text-gray-500' : 'text-red-400'}`}>
+                {isSeedValid ? 'A mesma semente com o mesmo pedido repete o resultado. Imagens com semente saem sem a marca d\'água SynthID.' : `Use um número inteiro de 0 a ${MAX_SEED}.`}
+              </span>
+            </label>
+          )}
+        </div>
+        <div className="flex justify-end space-x-4">
+          <button onClick={onClose} className="px-4 py-2 rounded-md bg-gray-600 hover:bg-gray-500 text-white transition-colors">
+            Cancelar
+          </button>
+          <button
+            onClick={handleSubmit}
+            disabled={!prompt.trim() || !isSeedValid}
+            className="px-4 py-2 rounded-md bg-[#0878d8] hover:bg-[#2196f3] text-white transition-colors disabled:bg-gray-500 disabled:cursor-not-allowed">
+            Gerar
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImageGenerationModal;
@@ -0,0 +1,69 @@
+import React, { useState, useEffect } from 'react';
+import { KnowledgeEntry } from '../types';
+import { getKnowledgeEntries, deleteKnowledgeEntry } from '../services/knowledgeService';
+import { TrashIcon } from './icons';
+
+const formatDate = (timestamp: number) => new Date(timestamp).toLocaleDateString('pt-BR', { day: '2-digit', month: '2-digit', year: 'numeric' });
+
+// Lists what was taught through "Aprender" and lets entries be deleted
+const KnowledgeBasePanel: React.FC = () => {
+  const [entries, setEntries] = useState<KnowledgeEntry[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadEntries = () => {
+    getKnowledgeEntries()
+      .then(setEntries)
+      .catch(error => {
+        console.error('Error loading the knowledge base:', error);
+        setError('Não foi possível carregar a base de conhecimento.');
+      });
+  };
+
+  useEffect(loadEntries, []);
+
+  const handleDelete = async (entry: KnowledgeEntry) => {
+    if (!window.confirm(`Esquecer "${entry.title}"? Essa informação deixará de ser usada em todos os chats.`)) return;
+    try {
+      await deleteKnowledgeEntry(entry.id);
+      setEntries(current => current?.filter(e => e.id !== entry.id) ?? null);
+    } catch (error) {
+      console.error('Error deleting knowledge entry:', error);
+      setError('Não foi possível excluir a entrada.');
+    }
+  };
+
+  if (error) {
+    return <p className="text-sm text-red-400">{error}</p>;
+  }
+  if (!entries) {
+    return <p className="text-sm text-gray-400">Carregando...</p>;
+  }
+  if (entries.length === 0) {
+    return <p className="text-sm text-gray-500">Nada aprendido ainda. Use "Aprender" no menu + da caixa de mensagem para ensinar textos ou documentos.</p>;
+  }
+
+  return (
+    <ul className="space-y-2">
+      {entries.map(entry => (
+        <li key={entry.id} className="flex items-center gap-3 p-3 bg-[#2a2a2a] rounded-xl">
+          <div className="flex-grow min-w-0">
+            <span className="block font-medium truncate" title={entry.title}>{entry.title}</span>
+            <span className="block text-xs text-gray-400 truncate">
+              {entry.fileName ? `${entry.fileName} · ` : ''}{formatDate(entry.createdAt)} · {entry.size.toLocaleString('pt-BR')} caracteres · {entry.chunkCount} {entry.chunkCount === 1 ? 'trecho' : 'trechos'}
+            </span>
+          </div>
+          <button
+            type="button"
+            onClick={() => handleDelete(entry)}
+            className="p-1 text-gray-400 rounded-full hover:bg-gray-600 hover:text-white transition-colors flex-shrink-0"
+            aria-label={`Excluir ${entry.title}`}
+          >
+            <TrashIcon className="w-4 h-4" />
+          </button>
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+export default KnowledgeBasePanel;
@@ -0,0 +1,116 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { FileIcon } from './icons';
+import { isTextFile, TEXT_FILE_ACCEPT } from '../utils/fileUtils';
+
+interface LearnModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // Rejects with a message to show when the text could not be learned
+  onSubmit: (title: string, text: string, fileName?: string) => Promise<void>;
+}
+
+const MAX_TITLE_LENGTH = 80;
+
+const inputClasses = 'w-full bg-[#2a2a2a] text-gray-200 p-3 rounded-md focus:outline-none focus:ring-2 focus:ring-[#0878d8] placeholder-gray-500';
+
+// Untitled texts are named after their first line
+const getDefaultTitle = (text: string): string => {
+  const firstLine = text.trim().split('\n')[0].trim();
+  return firstLine.length > MAX_TITLE_LENGTH ? `${firstLine.slice(0, MAX_TITLE_LENGTH - 1)}…` : firstLine;
+};
+
+// Teaches a text or a text document to the knowledge base shared by all chats
+const LearnModal: React.FC<LearnModalProps> = ({ isOpen, onClose, onSubmit }) => {
+  const [title, setTitle] = useState('');
+  const [text, setText] = useState('');
+  const [fileName, setFileName] = useState<string | undefined>();
+  const [isLearning, setIsLearning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setTitle('');
+      setText('');
+      setFileName(undefined);
+      setIsLearning(false);
+      setError(null);
+    }
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const handleFileSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    if (!isTextFile(file.type, file.name)) {
+      setError(`"${file.name}" não é um arquivo de texto. Para PDFs, copie e cole o conteúdo.`);
+      return;
+    }
+    setError(null);
+    setText(await file.text());
+    setFileName(file.name);
+    if (!title.trim()) setTitle(file.name);
+  };
+
+  const handleSubmit = async () => {
+    if (!text.trim() || isLearning) return;
+    setIsLearning(true);
+    setError(null);
+    try {
+      await onSubmit(title.trim() || getDefaultTitle(text), text, fileName);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : String(error));
+      setIsLearning(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-70 z-50 flex justify-center items-center p-4">
+      <div className="bg-[#1c1c1c] border border-gray-700 p-6 rounded-xl shadow-xl w-full max-w-2xl max-h-full overflow-y-auto flex flex-col">
+        <h2 className="text-xl font-semibold mb-2 text-white">🧠 Aprender Informação</h2>
+        <p className="text-gray-400 text-sm mb-4">O que você ensinar fica guardado na base de conhecimento deste navegador e vale para todos os chats. Você pode revisá-la em Configurações.</p>
+        <div className="text-gray-300 mb-6 space-y-4">
+          <input
+            type="text"
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            placeholder="Título (opcional)"
+            aria-label="Título"
+            maxLength={MAX_TITLE_LENGTH}
+            className={inputClasses}
+          />
+          <textarea
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            placeholder="Cole aqui a informação que você quer me ensinar..."
+            aria-label="Informação"
+            className={`${inputClasses} h-64 resize-none`}
+          />
+          <div className="flex items-center gap-3 text-sm">
+            <button type="button" onClick={() => fileInputRef.current?.click()} className="flex items-center gap-2 px-3 py-2 rounded-md bg-[#2a2a2a] hover:bg-gray-600 transition-colors">
+              <FileIcon className="w-4 h-4" /> <span>Carregar arquivo de texto</span>
+            </button>
+            {fileName && <span className="text-gray-400 truncate">{fileName}</span>}
+            <input type="file" ref={fileInputRef} onChange={handleFileSelect} accept={TEXT_FILE_ACCEPT} className="hidden" />
+          </div>
+          {error && <p className="text-sm text-red-400">{error}</p>}
+        </div>
+        <div className="flex justify-end space-x-4">
+          <button onClick={onClose} className="px-4 py-2 rounded-md bg-gray-600 hover:bg-gray-500 text-white transition-colors">
+            Cancelar
+          </button>
+          <button
+            onClick={handleSubmit}
+            disabled={!text.trim() || isLearning}
+            className="px-4 py-2 rounded-md bg-[#0878d8] hover:bg-[#2196f3] text-white transition-colors disabled:bg-gray-500 disabled:cursor-not-allowed">
+            {isLearning ? 'Aprendendo...' : 'Enviar para Aprender'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LearnModal;
@@ -0,0 +1,42 @@
+import React, { useMemo } from 'react';
+import ReactMarkdown, { Options } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import remarkMath from 'remark-math';
+import rehypeKatex from 'rehype-katex';
+import rehypeHighlight from 'rehype-highlight';
+import 'katex/dist/katex.min.css';
+import 'highlight.js/styles/github-dark.css';
+import CodeBlock, { CodeBlockContext } from './CodeBlock';
+import { prepareMarkdown } from '../utils/markdownUtils';
+
+interface MarkdownContentProps {
+  text: string;
+  // The answer is still streaming, so its end may be incomplete
+  isStreaming?: boolean;
+  onSendCodeOutput?: (text: string) => void;
+}
+
+// Math needs $$...$$ (inline or on its own lines): single dollars are prices, as in "R$ 10,00"
+const REMARK_PLUGINS: Options['remarkPlugins'] = [remarkGfm, [remarkMath, { singleDollarTextMath: false }]];
+// Highlighting only for blocks that name their language; diagrams are drawn by CodeBlock instead
+const REHYPE_PLUGINS: Options['rehypePlugins'] = [
+  [rehypeKatex, { throwOnError: false }],
+  [rehypeHighlight, { detect: false, plainText: ['mermaid'] }],
+];
+// Defined once: ReactMarkdown remounts the blocks (losing their run output) when components change
+const MARKDOWN_COMPONENTS = { pre: CodeBlock };
+
+// A model answer rendered as markdown, with highlighted code, math and diagrams
+const MarkdownContent: React.FC<MarkdownContentProps> = ({ text, isStreaming = false, onSendCodeOutput }) => {
+  const codeBlockContext = useMemo(() => ({ isStreaming, onSendOutput: onSendCodeOutput }), [isStreaming, onSendCodeOutput]);
+
+  return (
+    <CodeBlockContext.Provider value={codeBlockContext}>
+      <ReactMarkdown remarkPlugins={REMARK_PLUGINS} rehypePlugins={REHYPE_PLUGINS} components={MARKDOWN_COMPONENTS}>
+        {prepareMarkdown(text, isStreaming)}
+      </ReactMarkdown>
+    </CodeBlockContext.Provider>
+  );
+};
+
+export default MarkdownContent;
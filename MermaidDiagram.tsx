@@ -0,0 +1,58 @@
+import React, { useState, useEffect } from 'react';
+import type { Mermaid } from 'mermaid';
+
+interface MermaidDiagramProps {
+  source: string;
+}
+
+let diagramCount = 0;
+let mermaidPromise: Promise<Mermaid> | null = null;
+
+// Loaded on first use: mermaid is large and most answers have no diagrams
+const loadMermaid = (): Promise<Mermaid> => {
+  if (!mermaidPromise) {
+    mermaidPromise = import('mermaid').then(({ default: mermaid }) => {
+      // "strict" sanitizes labels and disables scripts and click handlers in the diagrams
+      mermaid.initialize({ startOnLoad: false, theme: 'dark', securityLevel: 'strict' });
+      return mermaid;
+    });
+  }
+  return mermaidPromise;
+};
+
+const MermaidDiagram: React.FC<MermaidDiagramProps> = ({ source }) => {
+  const [svg, setSvg] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let isCancelled = false;
+    const id = `mermaid-diagram-${++diagramCount}`;
+    setSvg(null);
+    setError(null);
+
+    loadMermaid()
+      .then(mermaid => mermaid.render(id, source))
+      .then(result => {
+        if (!isCancelled) setSvg(result.svg);
+      })
+      .catch(error => {
+        // Mermaid leaves the element it rendered into behind when the syntax is wrong
+        document.getElementById(`d${id}`)?.remove();
+        if (!isCancelled) setError(error instanceof Error ? error.message : String(error));
+      });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [source]);
+
+  if (error) {
+    return <p className="p-3 text-xs text-red-400 whitespace-pre-wrap">Não foi possível desenhar o diagrama: {error}</p>;
+  }
+  if (!svg) {
+    return <p className="p-3 text-xs text-gray-400">Desenhando diagrama...</p>;
+  }
+  return <div className="p-3 flex justify-center overflow-x-auto" dangerouslySetInnerHTML={{ __html: svg }} />;
+};
+
+export default MermaidDiagram;
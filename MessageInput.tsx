@@ -1,14 +1,20 @@
 import React, { useState, useRef, useEffect, useMemo } from 'react';
-import { SendIcon, PlusIcon, ImageIcon, FileIcon, PaletteIcon, BookIcon, BrainIcon, CloseIcon, MicrophoneIcon, VideoIcon } from './icons';
+import { SendIcon, PlusIcon, ImageIcon, FileIcon, PaletteIcon, BookIcon, BrainIcon, CloseIcon, MicrophoneIcon, VideoIcon, StopIcon } from './icons';
 import useSpeechRecognition from '../hooks/useSpeechRecognition';
 import { getSearchHistory, deleteSearchHistoryEntry } from '../services/searchHistoryService';
+import { isSupportedFile, DOCUMENT_ACCEPT, MAX_ATTACHMENT_SIZE } from '../utils/fileUtils';
+
+const MAX_ATTACHMENTS = 10;
 
 interface MessageInputProps {
-  onSendMessage: (message: string, imageFile: File | null) => void;
+  onSendMessage: (message: string, files: File[]) => void;
   isLoading: boolean;
-  onImageSelect: (file: File) => void;
-  selectedImage: File | null;
-  onRemoveImage: () => void;
+  // True while a chat answer is being streamed and can be stopped
+  isStreaming: boolean;
+  onStop: () => void;
+  onFilesSelect: (files: File[]) => void;
+  selectedFiles: File[];
+  onRemoveFile: (index: number) => void;
   onShowCreateImage: () => void;
   onShowStudy: () => void;
   onShowLearn: () => void;
@@ -17,8 +23,31 @@ interface MessageInputProps {
   isVideoGenAvailable: boolean;
 }
 
+// Preview of a selected file: a thumbnail for images, the file name for everything else
+const FileChip: React.FC<{ file: File; onRemove: () => void }> = ({ file, onRemove }) => {
+  const previewUrl = useMemo(() => file.type.startsWith('image/') ? URL.createObjectURL(file) : null, [file]);
+
+  useEffect(() => {
+    return () => {
+      if (previewUrl) URL.revokeObjectURL(previewUrl);
+    };
+  }, [previewUrl]);
+
+  return (
+    <div className="p-2 bg-[#1c1c1c] rounded-lg flex items-center gap-2 max-w-xs">
+      {previewUrl
+        ? <img src={previewUrl} alt="Preview" className="w-12 h-12 rounded-md object-cover flex-shrink-0" />
+        : <FileIcon className="w-6 h-6 text-gray-400 flex-shrink-0" />}
+      <span className="text-sm text-gray-300 truncate">{file.name}</span>
+      <button onClick={onRemove} className="p-1 text-gray-400 hover:text-white flex-shrink-0" aria-label={`Remover ${file.name}`}>
+        <CloseIcon className="w-5 h-5" />
+      </button>
+    </div>
+  );
+};
+
 const MessageInput: React.FC<MessageInputProps> = (props) => {
-  const { onSendMessage, isLoading, onImageSelect, selectedImage, onRemoveImage, onShowCreateImage, onShowStudy, onShowLearn, isImageGenAvailable, onShowCreateVideo, isVideoGenAvailable } = props;
+  const { onSendMessage, isLoading, isStreaming, onStop, onFilesSelect, selectedFiles, onRemoveFile, onShowCreateImage, onShowStudy, onShowLearn, isImageGenAvailable, onShowCreateVideo, isVideoGenAvailable } = props;
   const [input, setInput] = useState('');
   const [isMenuOpen, setMenuOpen] = useState(false);
   const [isHistoryOpen, setHistoryOpen] = useState(false);
@@ -62,9 +91,9 @@ const MessageInput: React.FC<MessageInputProps> = (props) => {
 
   const handleSend = () => {
     const trimmedInput = input.trim();
-    if ((trimmedInput || selectedImage) && !isLoading) {
+    if ((trimmedInput || selectedFiles.length > 0) && !isLoading) {
       if(isListening) stopListening();
-      onSendMessage(trimmedInput, selectedImage);
+      onSendMessage(trimmedInput, selectedFiles);
       setInput('');
       speechBaseText.current = '';
       if (trimmedInput) {
@@ -101,12 +130,24 @@ const MessageInput: React.FC<MessageInputProps> = (props) => {
     return () => document.removeEventListener('mousedown', handleClickOutside);
   }, []);
 
-  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>, isImage: boolean) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      if(isImage) onImageSelect(file);
-      else alert(`Arquivo "${file.name}" selecionado. Funcionalidade em desenvolvimento.`);
+  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    const accepted: File[] = [];
+    const rejected: string[] = [];
+    for (const file of files) {
+      if (!isSupportedFile(file)) {
+        rejected.push(`"${file.name}": tipo de arquivo não suportado`);
+      } else if (file.size > MAX_ATTACHMENT_SIZE) {
+        rejected.push(`"${file.name}": maior que 20 MB`);
+      } else if (selectedFiles.length + accepted.length >= MAX_ATTACHMENTS) {
+        rejected.push(`"${file.name}": limite de ${MAX_ATTACHMENTS} anexos por mensagem`);
+      } else {
+        accepted.push(file);
+      }
     }
+    if (accepted.length > 0) onFilesSelect(accepted);
+    if (rejected.length > 0) alert(`Alguns arquivos não foram anexados:\n${rejected.join('\n')}`);
+    setMenuOpen(false);
     e.target.value = ''; // Reset input
   };
 
@@ -157,15 +198,11 @@ const MessageInput: React.FC<MessageInputProps> = (props) => {
             </ul>
           </div>
         )}
-        {selectedImage && (
-          <div className="mb-2 p-2 bg-[#1c1c1c] rounded-lg flex items-center justify-between">
-              <div className="flex items-center gap-2">
-                  <img src={URL.createObjectURL(selectedImage)} alt="Preview" className="w-12 h-12 rounded-md object-cover" />
-                  <span className="text-sm text-gray-300">{selectedImage.name}</span>
-              </div>
-              <button onClick={onRemoveImage} className="p-1 text-gray-400 hover:text-white">
-                  <CloseIcon className="w-5 h-5" />
-              </button>
+        {selectedFiles.length > 0 && (
+          <div className="mb-2 flex flex-wrap gap-2">
+            {selectedFiles.map((file, index) => (
+              <FileChip key={`${file.name}-${index}`} file={file} onRemove={() => onRemoveFile(index)} />
+            ))}
           </div>
         )}
         <div className="relative flex items-end bg-[#1c1c1c] rounded-xl shadow-lg border border-gray-700">
@@ -212,8 +249,8 @@ const MessageInput: React.FC<MessageInputProps> = (props) => {
               <PlusIcon className="w-5 h-5" />
             </button>
           </div>
-          <input type="file" ref={imageInputRef} onChange={(e) => handleFileSelect(e, true)} accept="image/*" className="hidden" />
-          <input type="file" ref={fileInputRef} onChange={(e) => handleFileSelect(e, false)} className="hidden" />
+          <input type="file" ref={imageInputRef} onChange={handleFileSelect} accept="image/*" multiple className="hidden" />
+          <input type="file" ref={fileInputRef} onChange={handleFileSelect} accept={DOCUMENT_ACCEPT} multiple className="hidden" />
           
           <textarea
             ref={textareaRef}
@@ -238,14 +275,25 @@ const MessageInput: React.FC<MessageInputProps> = (props) => {
                 <MicrophoneIcon className="w-5 h-5" />
               </button>
           )}
-          <button
-            onClick={handleSend}
-            disabled={isLoading || (!input.trim() && !selectedImage)}
-            className="absolute right-3 bottom-3 p-2 rounded-full text-white bg-[#0878d8] hover:bg-[#2196f3] disabled:bg-gray-500 disabled:cursor-not-allowed transition-colors"
-            aria-label="Enviar mensagem"
-          >
-            <SendIcon className="w-5 h-5" />
-          </button>
+          {isStreaming ? (
+            <button
+              onClick={onStop}
+              className="absolute right-3 bottom-3 p-2 rounded-full text-white bg-red-600 hover:bg-red-500 transition-colors"
+              aria-label="Parar resposta"
+              title="Parar resposta"
+            >
+              <StopIcon className="w-5 h-5" />
+            </button>
+          ) : (
+            <button
+              onClick={handleSend}
+              disabled={isLoading || (!input.trim() && selectedFiles.length === 0)}
+              className="absolute right-3 bottom-3 p-2 rounded-full text-white bg-[#0878d8] hover:bg-[#2196f3] disabled:bg-gray-500 disabled:cursor-not-allowed transition-colors"
+              aria-label="Enviar mensagem"
+            >
+              <SendIcon className="w-5 h-5" />
+            </button>
+          )}
         </div>
       </div>
     </div>
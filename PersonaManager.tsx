@@ -0,0 +1,113 @@
+
+import React, { useState } from 'react';
+import { Persona } from '../types';
+import { TrashIcon } from './icons';
+
+interface PersonaManagerProps {
+  personas: Persona[];
+  defaultPersonaId: string | null;
+  chatModels: string[];
+  onSavePersona: (persona: Persona) => void;
+  onDeletePersona: (personaId: string) => void;
+  onDefaultPersonaChange: (personaId: string | null) => void;
+}
+
+const EMPTY_FORM = { name: '', systemPrompt: '', language: '', model: '' };
+
+const PersonaManager: React.FC<PersonaManagerProps> = ({ personas, defaultPersonaId, chatModels, onSavePersona, onDeletePersona, onDefaultPersonaChange }) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState(EMPTY_FORM);
+
+  const startEditing = (persona: Persona) => {
+    setEditingId(persona.id);
+    setForm({
+      name: persona.name,
+      systemPrompt: persona.systemPrompt,
+      language: persona.language ?? '',
+      model: persona.model ?? '',
+    });
+  };
+
+  const resetForm = () => {
+    setEditingId(null);
+    setForm(EMPTY_FORM);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form.name.trim() || !form.systemPrompt.trim()) return;
+    onSavePersona({
+      id: editingId ?? new Date().toISOString(),
+      name: form.name.trim(),
+      systemPrompt: form.systemPrompt.trim(),
+      language: form.language || undefined,
+      model: form.model.trim() || undefined,
+    });
+    resetForm();
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label htmlFor="default-persona" className="block text-gray-300 mb-2 font-medium">Persona para novos chats</label>
+        <select
+          id="default-persona"
+          value={defaultPersonaId ?? ''}
+          onChange={e => onDefaultPersonaChange(e.target.value || null)}
+          className="w-full bg-[#2a2a2a] text-gray-200 p-3 rounded-xl focus:outline-none focus:ring-2 focus:ring-[#0878d8]"
+        >
+          <option value="">Nenhuma (assistente padrão)</option>
+          {personas.map(persona => <option key={persona.id} value={persona.id}>{persona.name}</option>)}
+        </select>
+      </div>
+
+      {personas.length > 0 && (
+        <ul className="space-y-2">
+          {personas.map(persona => (
+            <li key={persona.id} className="flex items-center gap-3 p-3 bg-[#2a2a2a] rounded-xl">
+              <button type="button" onClick={() => startEditing(persona)} className="flex-grow min-w-0 text-left" title="Editar persona">
+                <span className="block font-medium truncate">{persona.name}</span>
+                <span className="block text-xs text-gray-400 truncate">{persona.systemPrompt}</span>
+              </button>
+              <button
+                type="button"
+                onClick={() => { onDeletePersona(persona.id); if (editingId === persona.id) resetForm(); }}
+                className="p-1 text-gray-400 rounded-full hover:bg-gray-600 hover:text-white transition-colors flex-shrink-0"
+                aria-label={`Excluir persona ${persona.name}`}
+              >
+                <TrashIcon className="w-4 h-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <form onSubmit={handleSubmit} className="space-y-3 p-4 border border-gray-700 rounded-xl">
+        <h4 className="font-semibold">{editingId ? 'Editar persona' : 'Nova persona'}</h4>
+        <input type="text" placeholder="Nome (ex: Professor de Física)" value={form.name} onChange={e => setForm({ ...form, name: e.target.value })} required aria-label="Nome da persona" className="w-full bg-[#2a2a2a] text-gray-200 p-3 rounded-xl focus:outline-none focus:ring-2 focus:ring-[#0878d8] placeholder-gray-500" />
+        <textarea placeholder="Instruções de sistema (como a IA deve se comportar)" value={form.systemPrompt} onChange={e => setForm({ ...form, systemPrompt: e.target.value })} required aria-label="Instruções de sistema" className="w-full h-28 bg-[#2a2a2a] text-gray-200 p-3 rounded-xl resize-none focus:outline-none focus:ring-2 focus:ring-[#0878d8] placeholder-gray-500" />
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          <select value={form.language} onChange={e => setForm({ ...form, language: e.target.value })} aria-label="Idioma padrão da persona" className="w-full bg-[#2a2a2a] text-gray-200 p-3 rounded-xl focus:outline-none focus:ring-2 focus:ring-[#0878d8]">
+            <option value="">Idioma do app</option>
+            <option value="pt-BR">Português</option>
+            <option value="en-US">English</option>
+          </select>
+          <input type="text" list="persona-models" placeholder="Modelo padrão (opcional)" value={form.model} onChange={e => setForm({ ...form, model: e.target.value })} aria-label="Modelo padrão da persona" className="w-full bg-[#2a2a2a] text-gray-200 p-3 rounded-xl focus:outline-none focus:ring-2 focus:ring-[#0878d8] placeholder-gray-500" />
+          <datalist id="persona-models">
+            {chatModels.map(model => <option key={model} value={model} />)}
+          </datalist>
+        </div>
+        <div className="flex justify-end gap-3">
+          {editingId && (
+            <button type="button" onClick={resetForm} className="px-4 py-2 text-sm rounded-xl bg-gray-600 hover:bg-gray-500 text-white transition-colors">Cancelar</button>
+          )}
+          <button type="submit" disabled={!form.name.trim() || !form.systemPrompt.trim()} className="px-4 py-2 text-sm rounded-xl bg-[#0878d8] hover:bg-[#2196f3] text-white transition-colors disabled:bg-gray-600 disabled:cursor-not-allowed">
+            {editingId ? 'Salvar alterações' : 'Criar persona'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default PersonaManager;
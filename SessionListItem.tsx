@@ -0,0 +1,199 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { ChatSession, SessionTag } from '../types';
+import { MessageSquareIcon, TrashIcon, EditIcon, PinIcon, FolderIcon, MoreIcon, PlusIcon } from './icons';
+
+export const SESSION_TAGS: { tag: SessionTag; label: string; className: string }[] = [
+  { tag: 'red', label: 'Vermelho', className: 'bg-red-500' },
+  { tag: 'orange', label: 'Laranja', className: 'bg-orange-500' },
+  { tag: 'yellow', label: 'Amarelo', className: 'bg-yellow-400' },
+  { tag: 'green', label: 'Verde', className: 'bg-green-500' },
+  { tag: 'blue', label: 'Azul', className: 'bg-blue-500' },
+  { tag: 'purple', label: 'Roxo', className: 'bg-purple-500' },
+];
+
+interface SessionListItemProps {
+  session: ChatSession;
+  isActive: boolean;
+  // Existing folders, offered in the "move to folder" menu
+  folders: string[];
+  onSelect: () => void;
+  onDelete: () => void;
+  onRename: (title: string) => void;
+  onSetPinned: (isPinned: boolean) => void;
+  onMoveToFolder: (folder?: string) => void;
+  onSetTags: (tags: SessionTag[]) => void;
+}
+
+const menuItemClasses = 'flex items-center gap-3 w-full px-3 py-2 rounded-lg text-left hover:bg-[#0878d8] transition-colors';
+
+const SessionListItem: React.FC<SessionListItemProps> = ({ session, isActive, folders, onSelect, onDelete, onRename, onSetPinned, onMoveToFolder, onSetTags }) => {
+  const [isMenuOpen, setMenuOpen] = useState(false);
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [titleDraft, setTitleDraft] = useState(session.title);
+  // Name typed for a new folder in the menu; null while the field is hidden
+  const [newFolder, setNewFolder] = useState<string | null>(null);
+  const containerRef = useRef<HTMLLIElement>(null);
+  const hasFinishedRenaming = useRef(false);
+
+  useEffect(() => {
+    if (!isMenuOpen) return;
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setMenuOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isMenuOpen]);
+
+  const closeMenu = () => {
+    setMenuOpen(false);
+    setNewFolder(null);
+  };
+
+  const startRenaming = () => {
+    closeMenu();
+    setTitleDraft(session.title);
+    hasFinishedRenaming.current = false;
+    setIsRenaming(true);
+  };
+
+  const finishRenaming = () => {
+    // Enter or Escape already ended it; the input can still report a blur while closing
+    if (hasFinishedRenaming.current) return;
+    hasFinishedRenaming.current = true;
+    setIsRenaming(false);
+    if (titleDraft.trim() && titleDraft.trim() !== session.title) {
+      onRename(titleDraft);
+    }
+  };
+
+  const handleRenameKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      finishRenaming();
+    } else if (e.key === 'Escape') {
+      hasFinishedRenaming.current = true;
+      setIsRenaming(false);
+    }
+  };
+
+  const moveToFolder = (folder?: string) => {
+    onMoveToFolder(folder);
+    closeMenu();
+  };
+
+  const toggleTag = (tag: SessionTag) => {
+    const tags = session.tags ?? [];
+    onSetTags(tags.includes(tag) ? tags.filter(t => t !== tag) : SESSION_TAGS.map(t => t.tag).filter(t => t === tag || tags.includes(t)));
+  };
+
+  const Icon = session.isPinned ? PinIcon : MessageSquareIcon;
+
+  return (
+    <li ref={containerRef} className="relative">
+      <div
+        onClick={() => !isRenaming && onSelect()}
+        className={`flex items-center p-3 rounded-lg cursor-pointer group transition-colors ${
+          isActive ? 'bg-[#0878d8] text-white' : 'text-gray-300 hover:bg-[#2a2a2a]'
+        }`}
+      >
+        <Icon className="w-5 h-5 mr-3 flex-shrink-0" />
+        {isRenaming ? (
+          <input
+            value={titleDraft}
+            onChange={(e) => setTitleDraft(e.target.value)}
+            onKeyDown={handleRenameKeyDown}
+            onBlur={finishRenaming}
+            onClick={(e) => e.stopPropagation()}
+            autoFocus
+            className="flex-grow min-w-0 bg-[#2a2a2a] text-white text-sm px-2 py-0.5 rounded border border-gray-600 focus:outline-none focus:ring-2 focus:ring-[#2196f3]"
+            aria-label="Nome do chat"
+          />
+        ) : (
+          <span onDoubleClick={startRenaming} className="flex-grow truncate text-sm" title={session.title}>{session.title}</span>
+        )}
+        {!isRenaming && session.tags?.map(tag => (
+          <span key={tag} className={`w-2 h-2 ml-1 rounded-full flex-shrink-0 ${SESSION_TAGS.find(t => t.tag === tag)?.className}`} />
+        ))}
+        {!isRenaming && (
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              if (isMenuOpen) closeMenu();
+              else setMenuOpen(true);
+            }}
+            className={`ml-2 p-1 text-gray-400 rounded-full hover:bg-gray-600 hover:text-white transition-opacity focus:opacity-100 ${isMenuOpen ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'}`}
+            aria-label="Opções do chat"
+            aria-expanded={isMenuOpen}
+          >
+            <MoreIcon className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+      {isMenuOpen && (
+        <div className="absolute right-0 top-full mt-1 w-56 bg-[#2a2a2a] rounded-xl shadow-lg border border-gray-600 z-10 p-2 text-sm text-white">
+          <button onClick={startRenaming} className={menuItemClasses}>
+            <EditIcon className="w-4 h-4" /> <span>Renomear</span>
+          </button>
+          <button onClick={() => { onSetPinned(!session.isPinned); closeMenu(); }} className={menuItemClasses}>
+            <PinIcon className="w-4 h-4" /> <span>{session.isPinned ? 'Desafixar' : 'Fixar no topo'}</span>
+          </button>
+
+          <p className="px-3 pt-3 pb-1 text-xs text-gray-400">Mover para pasta</p>
+          {folders.filter(folder => folder !== session.folder).map(folder => (
+            <button key={folder} onClick={() => moveToFolder(folder)} className={menuItemClasses}>
+              <FolderIcon className="w-4 h-4 flex-shrink-0" /> <span className="truncate">{folder}</span>
+            </button>
+          ))}
+          {newFolder === null ? (
+            <button onClick={() => setNewFolder('')} className={menuItemClasses}>
+              <PlusIcon className="w-4 h-4" /> <span>Nova pasta...</span>
+            </button>
+          ) : (
+            <form onSubmit={(e) => { e.preventDefault(); if (newFolder.trim()) moveToFolder(newFolder); }} className="px-1 py-1">
+              <input
+                value={newFolder}
+                onChange={(e) => setNewFolder(e.target.value)}
+                onKeyDown={(e) => e.key === 'Escape' && setNewFolder(null)}
+                autoFocus
+                placeholder="Nome da pasta"
+                className="w-full bg-[#1c1c1c] text-white px-2 py-1 rounded border border-gray-600 focus:outline-none focus:ring-2 focus:ring-[#0878d8]"
+                aria-label="Nome da nova pasta"
+              />
+            </form>
+          )}
+          {session.folder && (
+            <button onClick={() => moveToFolder(undefined)} className={menuItemClasses}>
+              <FolderIcon className="w-4 h-4" /> <span>Tirar da pasta</span>
+            </button>
+          )}
+
+          <p className="px-3 pt-3 pb-1 text-xs text-gray-400">Tags</p>
+          <div className="flex gap-2 px-3 py-1">
+            {SESSION_TAGS.map(({ tag, label, className }) => {
+              const isTagged = session.tags?.includes(tag) ?? false;
+              return (
+                <button
+                  key={tag}
+                  onClick={() => toggleTag(tag)}
+                  className={`w-5 h-5 rounded-full ${className} ${isTagged ? 'ring-2 ring-white ring-offset-2 ring-offset-[#2a2a2a]' : 'opacity-60 hover:opacity-100'}`}
+                  aria-label={label}
+                  aria-pressed={isTagged}
+                  title={label}
+                />
+              );
+            })}
+          </div>
+
+          <div className="border-t border-gray-600 mt-2 pt-2">
+            <button onClick={() => { closeMenu(); onDelete(); }} className="flex items-center gap-3 w-full px-3 py-2 rounded-lg text-left text-red-400 hover:text-white hover:bg-red-600 transition-colors">
+              <TrashIcon className="w-4 h-4" /> <span>Deletar</span>
+            </button>
+          </div>
+        </div>
+      )}
+    </li>
+  );
+};
+
+export default SessionListItem;
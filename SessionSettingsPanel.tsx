@@ -0,0 +1,212 @@
+
+import React from 'react';
+import { GenerationSettings, SafetyCategory, SafetyThreshold, Persona } from '../types';
+import { CloseIcon } from './icons';
+import { DEFAULT_CONTEXT_TOKEN_BUDGET } from '../utils/contextUtils';
+import { getTools } from '../services/toolService';
+
+interface SessionSettingsPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  settings: GenerationSettings;
+  onSettingsChange: (settings: GenerationSettings) => void;
+  chatModels: string[];
+  supportsSafetySettings: boolean;
+  personas: Persona[];
+  personaId?: string;
+  onPersonaChange: (personaId: string | null) => void;
+  customInstructions?: string;
+  onCustomInstructionsChange: (instructions: string) => void;
+}
+
+const DEFAULT_TEMPERATURE = 1;
+const DEFAULT_TOP_P = 0.95;
+
+const SAFETY_CATEGORIES: { id: SafetyCategory; label: string }[] = [
+  { id: 'HARM_CATEGORY_HARASSMENT', label: 'Assédio' },
+  { id: 'HARM_CATEGORY_HATE_SPEECH', label: 'Discurso de ódio' },
+  { id: 'HARM_CATEGORY_SEXUALLY_EXPLICIT', label: 'Conteúdo sexual' },
+  { id: 'HARM_CATEGORY_DANGEROUS_CONTENT', label: 'Conteúdo perigoso' },
+];
+
+const SAFETY_THRESHOLDS: { id: SafetyThreshold; label: string }[] = [
+  { id: 'BLOCK_NONE', label: 'Não bloquear' },
+  { id: 'BLOCK_ONLY_HIGH', label: 'Bloquear pouco' },
+  { id: 'BLOCK_MEDIUM_AND_ABOVE', label: 'Bloquear alguns' },
+  { id: 'BLOCK_LOW_AND_ABOVE', label: 'Bloquear muitos' },
+];
+
+const SessionSettingsPanel: React.FC<SessionSettingsPanelProps> = (props) => {
+  const {
+    isOpen, onClose, settings, onSettingsChange, chatModels, supportsSafetySettings,
+    personas, personaId, onPersonaChange, customInstructions, onCustomInstructionsChange
+  } = props;
+
+  if (!isOpen) return null;
+
+  const update = (changes: Partial<GenerationSettings>) => {
+    onSettingsChange({ ...settings, ...changes });
+  };
+
+  const updateSafety = (category: SafetyCategory, threshold: SafetyThreshold | '') => {
+    const safetySettings = { ...settings.safetySettings };
+    if (threshold) {
+      safetySettings[category] = threshold;
+    } else {
+      delete safetySettings[category];
+    }
+    update({ safetySettings });
+  };
+
+  const selectedModel = settings.model || chatModels[0];
+  // Keep a model saved with the session selectable even if the provider doesn't list it
+  const modelOptions = chatModels.includes(selectedModel) ? chatModels : [selectedModel, ...chatModels];
+
+  return (
+    <aside className="bg-[#1c1c1c] w-72 p-4 flex flex-col flex-shrink-0 border-l border-gray-700 fixed lg:static inset-y-0 right-0 z-30 overflow-y-auto" aria-labelledby="session-settings-title">
+      <div className="flex justify-between items-center mb-4">
+        <h2 id="session-settings-title" className="text-lg font-semibold text-white">Configurações do Chat</h2>
+        <button onClick={onClose} className="p-1 text-gray-400 hover:text-white rounded-full hover:bg-gray-700 transition-colors" aria-label="Fechar configurações do chat">
+          <CloseIcon className="w-5 h-5" />
+        </button>
+      </div>
+
+      <div className="space-y-5 text-sm">
+        <div>
+          <label htmlFor="session-persona" className="block text-gray-300 mb-2 font-medium">Persona</label>
+          <select
+            id="session-persona"
+            value={personaId ?? ''}
+            onChange={e => onPersonaChange(e.target.value || null)}
+            className="w-full bg-[#2a2a2a] text-gray-200 p-2 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#0878d8]"
+          >
+            <option value="">Nenhuma (assistente padrão)</option>
+            {personas.map(persona => <option key={persona.id} value={persona.id}>{persona.name}</option>)}
+          </select>
+        </div>
+
+        <div>
+          <label htmlFor="session-model" className="block text-gray-300 mb-2 font-medium">Modelo</label>
+          <select
+            id="session-model"
+            value={selectedModel}
+            onChange={e => update({ model: e.target.value })}
+            className="w-full bg-[#2a2a2a] text-gray-200 p-2 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#0878d8]"
+          >
+            {modelOptions.map(model => <option key={model} value={model}>{model}</option>)}
+          </select>
+        </div>
+
+        <div>
+          <label htmlFor="session-temperature" className="flex justify-between text-gray-300 mb-2 font-medium">
+            <span>Temperatura</span>
+            <span className="text-gray-400">{settings.temperature ?? `${DEFAULT_TEMPERATURE} (padrão)`}</span>
+          </label>
+          <input
+            id="session-temperature"
+            type="range" min={0} max={2} step={0.1}
+            value={settings.temperature ?? DEFAULT_TEMPERATURE}
+            onChange={e => update({ temperature: Number(e.target.value) })}
+            className="w-full accent-[#0878d8]"
+          />
+        </div>
+
+        <div>
+          <label htmlFor="session-top-p" className="flex justify-between text-gray-300 mb-2 font-medium">
+            <span>Top-p</span>
+            <span className="text-gray-400">{settings.topP ?? `${DEFAULT_TOP_P} (padrão)`}</span>
+          </label>
+          <input
+            id="session-top-p"
+            type="range" min={0} max={1} step={0.05}
+            value={settings.topP ?? DEFAULT_TOP_P}
+            onChange={e => update({ topP: Number(e.target.value) })}
+            className="w-full accent-[#0878d8]"
+          />
+        </div>
+
+        <div>
+          <label htmlFor="session-max-tokens" className="block text-gray-300 mb-2 font-medium">Máximo de tokens na resposta</label>
+          <input
+            id="session-max-tokens"
+            type="number" min={1}
+            value={settings.maxOutputTokens ?? ''}
+            onChange={e => update({ maxOutputTokens: e.target.value ? Number(e.target.value) : undefined })}
+            placeholder="Padrão do modelo"
+            className="w-full bg-[#2a2a2a] text-gray-200 p-2 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#0878d8] placeholder-gray-500"
+          />
+        </div>
+
+        <div>
+          <label htmlFor="session-context-budget" className="block text-gray-300 mb-2 font-medium">Orçamento de contexto (tokens)</label>
+          <input
+            id="session-context-budget"
+            type="number" min={1000} step={1000}
+            value={settings.contextTokenBudget ?? ''}
+            onChange={e => update({ contextTokenBudget: e.target.value ? Number(e.target.value) : undefined })}
+            placeholder={DEFAULT_CONTEXT_TOKEN_BUDGET.toLocaleString('pt-BR')}
+            className="w-full bg-[#2a2a2a] text-gray-200 p-2 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#0878d8] placeholder-gray-500"
+          />
+          <p className="text-xs text-gray-500 mt-1">Histórico enviado a cada resposta. Mensagens mais antigas são resumidas automaticamente.</p>
+        </div>
+
+        <div>
+          <label className="flex items-center gap-2 text-gray-300 font-medium cursor-pointer">
+            <input
+              type="checkbox"
+              checked={settings.useTools !== false}
+              onChange={e => update({ useTools: e.target.checked ? undefined : false })}
+              className="w-4 h-4 accent-[#0878d8]"
+            />
+            Ferramentas
+          </label>
+          <p className="text-xs text-gray-500 mt-1">
+            O modelo pode usar: {getTools().map(tool => tool.label).join(', ')}. Desative se o modelo do servidor não aceitar ferramentas.
+          </p>
+        </div>
+
+        {supportsSafetySettings && (
+          <div>
+            <h3 className="text-gray-300 mb-2 font-medium">Filtros de segurança</h3>
+            <div className="space-y-2">
+              {SAFETY_CATEGORIES.map(category => (
+                <div key={category.id} className="flex items-center justify-between gap-2">
+                  <label htmlFor={`safety-${category.id}`} className="text-gray-400">{category.label}</label>
+                  <select
+                    id={`safety-${category.id}`}
+                    value={settings.safetySettings?.[category.id] ?? ''}
+                    onChange={e => updateSafety(category.id, e.target.value as SafetyThreshold | '')}
+                    className="bg-[#2a2a2a] text-gray-200 p-1 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#0878d8]"
+                  >
+                    <option value="">Padrão</option>
+                    {SAFETY_THRESHOLDS.map(threshold => <option key={threshold.id} value={threshold.id}>{threshold.label}</option>)}
+                  </select>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div>
+          <label htmlFor="session-instructions" className="block text-gray-300 mb-2 font-medium">Informações deste chat</label>
+          <textarea
+            id="session-instructions"
+            value={customInstructions ?? ''}
+            onChange={e => onCustomInstructionsChange(e.target.value)}
+            placeholder="O que o modelo deve lembrar só nesta conversa. Para todos os chats, use 'Aprender' no menu +."
+            className="w-full h-28 bg-[#2a2a2a] text-gray-200 p-2 rounded-lg resize-none focus:outline-none focus:ring-2 focus:ring-[#0878d8] placeholder-gray-500"
+          />
+        </div>
+
+        <button
+          onClick={() => onSettingsChange({})}
+          className="w-full px-4 py-2 rounded-xl bg-gray-600 hover:bg-gray-500 text-white transition-colors"
+        >
+          Restaurar padrões
+        </button>
+      </div>
+    </aside>
+  );
+};
+
+export default SessionSettingsPanel;
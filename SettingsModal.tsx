@@ -1,19 +1,42 @@
 
 import React, { useState, useEffect } from 'react';
 import { CloseIcon, GoogleIcon } from './icons';
-import { User } from '../types';
+import PersonaManager from './PersonaManager';
+import DataExportPanel, { ExportScope } from './DataExportPanel';
+import UsageDashboard from './UsageDashboard';
+import GeminiApiKeyPanel from './GeminiApiKeyPanel';
+import KnowledgeBasePanel from './KnowledgeBasePanel';
+import { ExportFormat } from '../services/exportService';
+import { User, SyncStatus, ProviderSettings, ProviderId, Persona, ChatSession } from '../types';
 
 interface SettingsModalProps {
   isOpen: boolean;
   onClose: () => void;
   onClearHistory: () => void;
   currentUser: User | null;
-  onLogin: (email: string, password?: string) => Promise<User>;
-  onSignup: (email: string, password?: string) => Promise<User>;
+  onLogin: (email: string, password: string) => Promise<User>;
+  onSignup: (email: string, password: string) => Promise<User>;
   onLogout: () => void;
   onGoogleLogin: () => Promise<User>;
+  // Hides the Google button on deploys without an OAuth client id
+  isGoogleLoginAvailable: boolean;
+  onRequestPasswordReset: (email: string) => Promise<void>;
+  onResetPassword: (email: string, code: string, newPassword: string) => Promise<void>;
+  syncStatus: SyncStatus;
   language: string;
   onLanguageChange: (language: string) => void;
+  providerSettings: ProviderSettings;
+  onProviderSettingsChange: (settings: ProviderSettings) => void;
+  personas: Persona[];
+  defaultPersonaId: string | null;
+  chatModels: string[];
+  onSavePersona: (persona: Persona) => void;
+  onDeletePersona: (personaId: string) => void;
+  onDefaultPersonaChange: (personaId: string | null) => void;
+  sessions: ChatSession[];
+  hasActiveSession: boolean;
+  onExport: (scope: ExportScope, format: ExportFormat) => Promise<void>;
+  onImport: (file: File) => Promise<number>;
 }
 
 // A simple, self-contained toggle switch component for the UI
@@ -26,6 +49,24 @@ const ToggleSwitch: React.FC = () => {
   );
 };
 
+const formatSyncStatus = ({ state, pendingCount, lastSyncedAt }: SyncStatus): string => {
+  const pending = pendingCount > 0 ? ` · ${pendingCount} ${pendingCount === 1 ? 'alteração pendente' : 'alterações pendentes'}` : '';
+  switch (state) {
+    case 'disabled':
+      return '☁️ Sincronização indisponível neste site. Seus chats ficam só neste navegador.';
+    case 'offline':
+      return `📴 Sem conexão. As alterações serão enviadas quando voltar a ficar online${pending}`;
+    case 'syncing':
+      return '🔄 Sincronizando...';
+    case 'error':
+      return `⚠️ Falha ao sincronizar. Tentando novamente em breve${pending}`;
+    default:
+      return lastSyncedAt
+        ? `☁️ Chats sincronizados às ${new Date(lastSyncedAt).toLocaleTimeString('pt-BR', { hour: '2-digit', minute: '2-digit' })}${pending}`
+        : `☁️ Sincronização ativa${pending}`;
+  }
+};
+
 // Spinner icon for loading states
 const SpinnerIcon: React.FC = () => (
     <svg className="animate-spin h-5 w-5 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
@@ -38,22 +79,28 @@ const SpinnerIcon: React.FC = () => (
 const SettingsModal: React.FC<SettingsModalProps> = (props) => {
   const { 
     isOpen, onClose, onClearHistory, currentUser, 
-    onLogin, onSignup, onLogout, onGoogleLogin,
-    language, onLanguageChange
+    onLogin, onSignup, onLogout, onGoogleLogin, isGoogleLoginAvailable, onRequestPasswordReset, onResetPassword, syncStatus,
+    language, onLanguageChange,
+    providerSettings, onProviderSettingsChange,
+    personas, defaultPersonaId, chatModels, onSavePersona, onDeletePersona, onDefaultPersonaChange,
+    sessions, hasActiveSession, onExport, onImport
   } = props;
     
-  const [authMode, setAuthMode] = useState<'login' | 'signup' | 'forgot'>('login');
+  const [authMode, setAuthMode] = useState<'login' | 'signup' | 'forgot' | 'reset'>('login');
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [confirmPassword, setConfirmPassword] = useState('');
+  const [resetCode, setResetCode] = useState('');
   const [isAuthLoading, setIsAuthLoading] = useState(false);
   const [isGoogleAuthLoading, setIsGoogleAuthLoading] = useState(false);
   const [feedbackMessage, setFeedbackMessage] = useState<{ type: 'error' | 'success'; text: string } | null>(null);
+  const [isExportOpen, setIsExportOpen] = useState(false);
 
   const resetFormState = () => {
       setEmail('');
       setPassword('');
       setConfirmPassword('');
+      setResetCode('');
       setFeedbackMessage(null);
       setIsAuthLoading(false);
       setIsGoogleAuthLoading(false);
@@ -69,10 +116,10 @@ const SettingsModal: React.FC<SettingsModalProps> = (props) => {
 
   // Clear feedback when user starts interacting again
   useEffect(() => {
-    if (email || password || confirmPassword) {
+    if (email || password || confirmPassword || resetCode) {
       setFeedbackMessage(null);
     }
-  }, [email, password, confirmPassword]);
+  }, [email, password, confirmPassword, resetCode]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -82,7 +129,7 @@ const SettingsModal: React.FC<SettingsModalProps> = (props) => {
     setFeedbackMessage(null);
 
     try {
-      if (authMode === 'signup' && password !== confirmPassword) {
+      if ((authMode === 'signup' || authMode === 'reset') && password !== confirmPassword) {
         throw new Error('As senhas não coincidem. Tente novamente.');
       }
       
@@ -98,8 +145,16 @@ const SettingsModal: React.FC<SettingsModalProps> = (props) => {
           // No need to switch mode, the component will re-render to the logged-in view.
           break;
         case 'forgot':
-          // The onForgot prop would be implemented here. For now, just show a message.
-          setFeedbackMessage({ type: 'success', text: 'Se o e-mail estiver cadastrado, você receberá um link para redefinir sua senha.' });
+          await onRequestPasswordReset(email);
+          setAuthMode('reset');
+          setFeedbackMessage({ type: 'success', text: 'Se o e-mail estiver cadastrado, você receberá um código para redefinir sua senha.' });
+          break;
+        case 'reset':
+          await onResetPassword(email, resetCode, password);
+          // The fields are left as they are (editing them would clear the message) and
+          // the new password stays filled in, so the user only has to press Entrar
+          setAuthMode('login');
+          setFeedbackMessage({ type: 'success', text: 'Senha redefinida! Entre com a nova senha.' });
           break;
       }
     } catch (error: any) {
@@ -126,13 +181,22 @@ const SettingsModal: React.FC<SettingsModalProps> = (props) => {
   };
 
   if (!isOpen) return null;
+
+  const updateProviderSetting = <K extends keyof ProviderSettings>(key: K, value: ProviderSettings[K]) => {
+    onProviderSettingsChange({ ...providerSettings, [key]: value });
+  };
   
   const renderAuthContent = () => {
     if (currentUser) {
       return (
         <div className="text-center">
             <h4 className="font-semibold text-white text-xl mb-2">Minha Conta</h4>
-            <p className="text-gray-300 mb-4 break-all">Logado como: <strong className="font-medium">{currentUser.email}</strong></p>
+            {currentUser.pictureUrl && (
+              <img src={currentUser.pictureUrl} alt="" referrerPolicy="no-referrer" className="w-16 h-16 rounded-full mx-auto mb-2" />
+            )}
+            {currentUser.name && <p className="text-white font-medium">{currentUser.name}</p>}
+            <p className="text-gray-300 mb-2 break-all">Logado como: <strong className="font-medium">{currentUser.email}</strong></p>
+            <p className="text-sm text-gray-400 mb-4">{formatSyncStatus(syncStatus)}</p>
             <button
                 onClick={onLogout}
                 className="w-full max-w-xs mx-auto px-4 py-3 rounded-xl bg-red-700 hover:bg-red-600 text-white font-semibold transition-colors"
@@ -155,7 +219,7 @@ const SettingsModal: React.FC<SettingsModalProps> = (props) => {
       </div>
     );
     
-    const switchAuthMode = (mode: 'login' | 'signup' | 'forgot') => {
+    const switchAuthMode = (mode: 'login' | 'signup' | 'forgot' | 'reset') => {
         setAuthMode(mode);
         setFeedbackMessage(null);
     };
@@ -183,14 +247,36 @@ const SettingsModal: React.FC<SettingsModalProps> = (props) => {
         return (
           <form onSubmit={handleSubmit} className="space-y-4">
             <h4 className="font-semibold text-white text-xl text-center mb-2">Recuperar Senha</h4>
-            <p className="text-sm text-gray-400 text-center">Insira seu e-mail e enviaremos um link para redefinir sua senha.</p>
+            <p className="text-sm text-gray-400 text-center">Insira seu e-mail e enviaremos um código para redefinir sua senha.</p>
             {feedbackJsx}
             <input type="email" placeholder="E-mail" value={email} onChange={e => setEmail(e.target.value)} required aria-label="E-mail" className="w-full bg-[#2a2a2a] text-gray-200 p-3 rounded-xl focus:outline-none focus:ring-2 focus:ring-[#0878d8] placeholder-gray-500" />
             <button type="submit" disabled={isAuthLoading} className="w-full flex justify-center items-center gap-2 px-4 py-3 rounded-xl bg-[#0878d8] hover:bg-[#2196f3] text-white font-semibold transition-colors disabled:bg-gray-600 disabled:cursor-wait">
                {isAuthLoading && <SpinnerIcon />}
-               <span>{isAuthLoading ? 'Enviando...' : 'Enviar Link de Recuperação'}</span>
+               <span>{isAuthLoading ? 'Enviando...' : 'Enviar Código de Recuperação'}</span>
+            </button>
+            <div className="text-center text-sm pt-2">
+              <button type="button" onClick={() => switchAuthMode('reset')} disabled={!email} className="text-gray-400 hover:text-white hover:underline bg-transparent border-none p-0 cursor-pointer disabled:opacity-50 disabled:no-underline">Já tenho um código</button>
+              <span className="text-gray-600 mx-2">·</span>
+              <button type="button" onClick={() => switchAuthMode('login')} className="text-gray-400 hover:text-white hover:underline bg-transparent border-none p-0 cursor-pointer">Voltar para o login</button>
+            </div>
+          </form>
+        );
+      case 'reset':
+        return (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <h4 className="font-semibold text-white text-xl text-center mb-2">Redefinir Senha</h4>
+            <p className="text-sm text-gray-400 text-center break-all">Digite o código enviado para <strong className="font-medium text-gray-300">{email}</strong> e escolha uma nova senha.</p>
+            {feedbackJsx}
+            <input type="text" inputMode="numeric" autoComplete="one-time-code" placeholder="Código" value={resetCode} onChange={e => setResetCode(e.target.value)} required aria-label="Código de redefinição" className="w-full bg-[#2a2a2a] text-gray-200 p-3 rounded-xl focus:outline-none focus:ring-2 focus:ring-[#0878d8] placeholder-gray-500" />
+            <input type="password" autoComplete="new-password" placeholder="Nova Senha" value={password} onChange={e => setPassword(e.target.value)} required aria-label="Nova Senha" className="w-full bg-[#2a2a2a] text-gray-200 p-3 rounded-xl focus:outline-none focus:ring-2 focus:ring-[#0878d8] placeholder-gray-500" />
+            <input type="password" autoComplete="new-password" placeholder="Confirmar Nova Senha" value={confirmPassword} onChange={e => setConfirmPassword(e.target.value)} required aria-label="Confirmar Nova Senha" className="w-full bg-[#2a2a2a] text-gray-200 p-3 rounded-xl focus:outline-none focus:ring-2 focus:ring-[#0878d8] placeholder-gray-500" />
+            <button type="submit" disabled={isAuthLoading} className="w-full flex justify-center items-center gap-2 px-4 py-3 rounded-xl bg-[#0878d8] hover:bg-[#2196f3] text-white font-semibold transition-colors disabled:bg-gray-600 disabled:cursor-wait">
+               {isAuthLoading && <SpinnerIcon />}
+               <span>{isAuthLoading ? 'Salvando...' : 'Redefinir Senha'}</span>
             </button>
             <div className="text-center text-sm pt-2">
+              <button type="button" onClick={() => switchAuthMode('forgot')} className="text-gray-400 hover:text-white hover:underline bg-transparent border-none p-0 cursor-pointer">Reenviar código</button>
+              <span className="text-gray-600 mx-2">·</span>
               <button type="button" onClick={() => switchAuthMode('login')} className="text-gray-400 hover:text-white hover:underline bg-transparent border-none p-0 cursor-pointer">Voltar para o login</button>
             </div>
           </form>
@@ -206,20 +292,24 @@ const SettingsModal: React.FC<SettingsModalProps> = (props) => {
               {isAuthLoading && <SpinnerIcon />}
               <span>{isAuthLoading ? 'Entrando...' : 'Entrar'}</span>
             </button>
-            <div className="flex items-center">
-              <hr className="flex-grow border-t border-gray-600"/>
-              <span className="mx-4 text-sm text-gray-400">ou</span>
-              <hr className="flex-grow border-t border-gray-600"/>
-            </div>
-            <button 
-              type="button" 
-              onClick={handleGoogleSignIn}
-              disabled={isAuthLoading || isGoogleAuthLoading}
-              className="w-full flex items-center justify-center gap-3 px-4 py-3 rounded-xl bg-white hover:bg-gray-200 text-black font-semibold transition-colors border border-gray-300 disabled:bg-gray-400 disabled:cursor-wait"
-            >
-              {isGoogleAuthLoading ? <SpinnerIcon /> : <GoogleIcon className="w-5 h-5" />}
-              <span>{isGoogleAuthLoading ? 'Aguarde...' : 'Entrar com Google'}</span>
-            </button>
+            {isGoogleLoginAvailable && (
+              <>
+                <div className="flex items-center">
+                  <hr className="flex-grow border-t border-gray-600"/>
+                  <span className="mx-4 text-sm text-gray-400">ou</span>
+                  <hr className="flex-grow border-t border-gray-600"/>
+                </div>
+                <button 
+                  type="button" 
+                  onClick={handleGoogleSignIn}
+                  disabled={isAuthLoading || isGoogleAuthLoading}
+                  className="w-full flex items-center justify-center gap-3 px-4 py-3 rounded-xl bg-white hover:bg-gray-200 text-black font-semibold transition-colors border border-gray-300 disabled:bg-gray-400 disabled:cursor-wait"
+                >
+                  {isGoogleAuthLoading ? <SpinnerIcon /> : <GoogleIcon className="w-5 h-5" />}
+                  <span>{isGoogleAuthLoading ? 'Aguarde...' : 'Entrar com Google'}</span>
+                </button>
+              </>
+            )}
             <div className="text-center text-sm pt-2">
               <span className="text-gray-400">Não tem uma conta? </span>
               <button type="button" onClick={() => switchAuthMode('signup')} className="font-semibold text-[#2196f3] hover:underline bg-transparent border-none p-0 cursor-pointer">Crie uma conta</button>
@@ -295,6 +385,82 @@ const SettingsModal: React.FC<SettingsModalProps> = (props) => {
             </div>
           </section>
           
+          {/* Section: Personas */}
+          <section className="mb-8" aria-labelledby="personas-heading">
+            <h3 id="personas-heading" className="text-lg font-bold text-[#0878d8] mb-4 border-b border-gray-700 pb-2">🎭 Personas</h3>
+            <p className="text-sm text-gray-400 mb-4">Crie personalidades com instruções próprias. A persona pode ser trocada a qualquer momento no painel de configurações do chat.</p>
+            <PersonaManager
+              personas={personas}
+              defaultPersonaId={defaultPersonaId}
+              chatModels={chatModels}
+              onSavePersona={onSavePersona}
+              onDeletePersona={onDeletePersona}
+              onDefaultPersonaChange={onDefaultPersonaChange}
+            />
+          </section>
+
+          {/* Section: Knowledge base */}
+          <section className="mb-8" aria-labelledby="knowledge-heading">
+            <h3 id="knowledge-heading" className="text-lg font-bold text-[#0878d8] mb-4 border-b border-gray-700 pb-2">🧠 Base de Conhecimento</h3>
+            <p className="text-sm text-gray-400 mb-4">O que você ensinou com "Aprender" fica guardado neste navegador. Em todos os chats, os trechos relacionados à sua mensagem são enviados ao modelo, que os cita nas respostas.</p>
+            <KnowledgeBasePanel />
+          </section>
+
+          {/* Section: Model provider */}
+          <section className="mb-8" aria-labelledby="provider-heading">
+            <h3 id="provider-heading" className="text-lg font-bold text-[#0878d8] mb-4 border-b border-gray-700 pb-2">🤖 Provedor de IA</h3>
+            <div className="space-y-4">
+                <div>
+                    <label className="block text-gray-300 mb-2 font-medium">Provedor</label>
+                    <div className="flex gap-1 bg-[#2a2a2a] rounded-xl p-1">
+                        {([['gemini', 'Google Gemini'], ['openai-compatible', 'Compatível com OpenAI (local)']] as [ProviderId, string][]).map(([id, label]) => (
+                            <button
+                                key={id}
+                                onClick={() => updateProviderSetting('providerId', id)}
+                                className={`flex-1 p-2 rounded-lg text-sm transition-colors ${providerSettings.providerId === id ? 'bg-[#0878d8]' : 'hover:bg-gray-600'}`}
+                            >
+                                {label}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+                {providerSettings.providerId === 'gemini' && <GeminiApiKeyPanel />}
+                {providerSettings.providerId === 'openai-compatible' && (
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <div className="md:col-span-2">
+                            <label htmlFor="provider-base-url" className="block text-gray-300 mb-2 font-medium">URL do servidor</label>
+                            <input id="provider-base-url" type="url" value={providerSettings.baseUrl} onChange={e => updateProviderSetting('baseUrl', e.target.value)} placeholder="http://localhost:11434/v1" className="w-full bg-[#2a2a2a] text-gray-200 p-3 rounded-xl focus:outline-none focus:ring-2 focus:ring-[#0878d8] placeholder-gray-500" />
+                            <p className="text-xs text-gray-500 mt-1">Funciona com Ollama, llama.cpp, LM Studio ou qualquer servidor com a API da OpenAI.</p>
+                        </div>
+                        <div>
+                            <label htmlFor="provider-chat-model" className="block text-gray-300 mb-2 font-medium">Modelo de chat</label>
+                            <input id="provider-chat-model" type="text" value={providerSettings.chatModel} onChange={e => updateProviderSetting('chatModel', e.target.value)} placeholder="llama3.2" className="w-full bg-[#2a2a2a] text-gray-200 p-3 rounded-xl focus:outline-none focus:ring-2 focus:ring-[#0878d8] placeholder-gray-500" />
+                        </div>
+                        <div>
+                            <label htmlFor="provider-image-model" className="block text-gray-300 mb-2 font-medium">Modelo de imagem (opcional)</label>
+                            <input id="provider-image-model" type="text" value={providerSettings.imageModel} onChange={e => updateProviderSetting('imageModel', e.target.value)} placeholder="Deixe vazio para desativar" className="w-full bg-[#2a2a2a] text-gray-200 p-3 rounded-xl focus:outline-none focus:ring-2 focus:ring-[#0878d8] placeholder-gray-500" />
+                        </div>
+                        <div className="md:col-span-2">
+                            <label htmlFor="provider-embedding-model" className="block text-gray-300 mb-2 font-medium">Modelo de embeddings</label>
+                            <input id="provider-embedding-model" type="text" value={providerSettings.embeddingModel} onChange={e => updateProviderSetting('embeddingModel', e.target.value)} placeholder="nomic-embed-text" className="w-full bg-[#2a2a2a] text-gray-200 p-3 rounded-xl focus:outline-none focus:ring-2 focus:ring-[#0878d8] placeholder-gray-500" />
+                            <p className="text-xs text-gray-500 mt-1">Usado pela base de conhecimento do "Aprender". Deixe vazio para desativá-la.</p>
+                        </div>
+                        <div className="md:col-span-2">
+                            <label htmlFor="provider-api-key" className="block text-gray-300 mb-2 font-medium">Chave de API (opcional)</label>
+                            <input id="provider-api-key" type="password" value={providerSettings.apiKey} onChange={e => updateProviderSetting('apiKey', e.target.value)} autoComplete="off" className="w-full bg-[#2a2a2a] text-gray-200 p-3 rounded-xl focus:outline-none focus:ring-2 focus:ring-[#0878d8] placeholder-gray-500" />
+                        </div>
+                    </div>
+                )}
+            </div>
+          </section>
+
+          {/* Section: Usage */}
+          <section className="mb-8" aria-labelledby="usage-heading">
+            <h3 id="usage-heading" className="text-lg font-bold text-[#0878d8] mb-4 border-b border-gray-700 pb-2">📊 Uso</h3>
+            <p className="text-sm text-gray-400 mb-4">Tokens, imagens e vídeos usados neste navegador, com custo estimado pela tabela de preços abaixo.</p>
+            <UsageDashboard sessions={sessions} />
+          </section>
+
           {/* Section: Help */}
           <section className="mb-8" aria-labelledby="help-heading">
              <h3 id="help-heading" className="text-lg font-bold text-[#0878d8] mb-4 border-b border-gray-700 pb-2">❓ Ajuda e Suporte</h3>
@@ -313,7 +479,8 @@ const SettingsModal: React.FC<SettingsModalProps> = (props) => {
             <h3 id="other-heading" className="text-lg font-bold text-[#0878d8] mb-4 border-b border-gray-700 pb-2">⚡ Outras Configurações</h3>
             <div className="space-y-3">
                 <button onClick={onClearHistory} className="px-4 py-2 text-sm rounded-xl bg-red-700 hover:bg-red-600 text-white transition-colors">Limpar histórico de chats</button>
-                <button className="px-4 py-2 text-sm rounded-xl bg-gray-600 hover:bg-gray-500 text-white transition-colors">Exportar dados</button>
+                <button onClick={() => setIsExportOpen(!isExportOpen)} className="px-4 py-2 text-sm rounded-xl bg-gray-600 hover:bg-gray-500 text-white transition-colors" aria-expanded={isExportOpen}>Exportar dados</button>
+                {isExportOpen && <DataExportPanel hasActiveSession={hasActiveSession} onExport={onExport} onImport={onImport} />}
                 <p className="text-sm text-gray-500 pt-2">Sobre o projeto: Chat do Robertin Souzah - Versão 1.0</p>
             </div>
           </section>
@@ -1,21 +1,150 @@
 
-import React from 'react';
-import { ChatSession, User } from '../types';
-import { PlusIcon, MessageSquareIcon, TrashIcon, SettingsIcon } from './icons';
+import React, { useState, useMemo } from 'react';
+import { ChatSession, SessionTag, User } from '../types';
+import { PlusIcon, TrashIcon, SettingsIcon, SearchIcon, CloseIcon, EditIcon, FolderIcon, ChevronDownIcon, ChevronRightIcon } from './icons';
+import SessionListItem, { SESSION_TAGS } from './SessionListItem';
+import TrashList from './TrashList';
+import { searchChats, SnippetSegment } from '../services/chatSearchService';
+import { compareSessions, getFolders } from '../services/chatHistoryService';
 
 interface SidebarProps {
+  // Chats in the list; those in the trash are passed separately
   sessions: ChatSession[];
+  trashedSessions: ChatSession[];
   activeSessionId: string | null;
   onSelectSession: (id: string) => void;
+  // Opens a search result, scrolling to the matching message if there is one
+  onSelectSearchResult: (sessionId: string, messageId?: string) => void;
   onNewSession: () => void;
   onDeleteSession: (id: string) => void;
+  onRenameSession: (id: string, title: string) => void;
+  onSetSessionPinned: (id: string, isPinned: boolean) => void;
+  onMoveSessionToFolder: (id: string, folder?: string) => void;
+  onSetSessionTags: (id: string, tags: SessionTag[]) => void;
+  onRenameFolder: (folder: string, newName: string) => void;
+  onDeleteFolder: (folder: string) => void;
+  onRestoreSession: (id: string) => void;
+  onDeleteSessionPermanently: (id: string) => void;
+  onEmptyTrash: () => void;
   isOpen: boolean;
   setIsOpen: (isOpen: boolean) => void;
   onShowSettings: () => void;
   currentUser: User | null;
 }
 
-const Sidebar: React.FC<SidebarProps> = ({ sessions, activeSessionId, onSelectSession, onNewSession, onDeleteSession, isOpen, setIsOpen, onShowSettings, currentUser }) => {
+const Snippet: React.FC<{ segments: SnippetSegment[] }> = ({ segments }) => (
+  <>
+    {segments.map((segment, i) => (
+      segment.isMatch ? <mark key={i} className="bg-yellow-400 text-black rounded-sm">{segment.text}</mark> : <React.Fragment key={i}>{segment.text}</React.Fragment>
+    ))}
+  </>
+);
+
+interface FolderHeaderProps {
+  folder: string;
+  count: number;
+  isCollapsed: boolean;
+  onToggle: () => void;
+  onRename: (newName: string) => void;
+  onDelete: () => void;
+}
+
+const FolderHeader: React.FC<FolderHeaderProps> = ({ folder, count, isCollapsed, onToggle, onRename, onDelete }) => {
+  const [draft, setDraft] = useState<string | null>(null);
+
+  if (draft !== null) {
+    return (
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          if (draft.trim() && draft.trim() !== folder) onRename(draft);
+          setDraft(null);
+        }}
+        className="px-2 py-1"
+      >
+        <input
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => e.key === 'Escape' && setDraft(null)}
+          autoFocus
+          className="w-full bg-[#2a2a2a] text-white text-sm px-2 py-1 rounded border border-gray-600 focus:outline-none focus:ring-2 focus:ring-[#0878d8]"
+          aria-label="Nome da pasta"
+        />
+      </form>
+    );
+  }
+
+  const Chevron = isCollapsed ? ChevronRightIcon : ChevronDownIcon;
+  return (
+    <div className="flex items-center group text-gray-400">
+      <button onClick={onToggle} className="flex items-center gap-2 flex-grow min-w-0 px-2 py-1 text-xs font-semibold uppercase tracking-wide hover:text-white" aria-expanded={!isCollapsed}>
+        <Chevron className="w-3 h-3 flex-shrink-0" />
+        <FolderIcon className="w-4 h-4 flex-shrink-0" />
+        <span className="truncate">{folder}</span>
+        <span className="font-normal">({count})</span>
+      </button>
+      <button onClick={() => setDraft(folder)} className="p-1 rounded-full opacity-0 group-hover:opacity-100 focus:opacity-100 hover:text-white hover:bg-gray-600" aria-label={`Renomear pasta ${folder}`} title="Renomear pasta">
+        <EditIcon className="w-3 h-3" />
+      </button>
+      <button onClick={onDelete} className="p-1 rounded-full opacity-0 group-hover:opacity-100 focus:opacity-100 hover:text-white hover:bg-gray-600" aria-label={`Remover pasta ${folder}`} title="Remover pasta (os chats continuam na lista)">
+        <TrashIcon className="w-3 h-3" />
+      </button>
+    </div>
+  );
+};
+
+const Sidebar: React.FC<SidebarProps> = (props) => {
+  const { sessions, trashedSessions, activeSessionId, onSelectSession, onSelectSearchResult, onNewSession, onDeleteSession, isOpen, setIsOpen, onShowSettings, currentUser } = props;
+  const [searchQuery, setSearchQuery] = useState('');
+  const [isTrashOpen, setIsTrashOpen] = useState(false);
+  const [tagFilter, setTagFilter] = useState<SessionTag | null>(null);
+  const [collapsedFolders, setCollapsedFolders] = useState<Set<string>>(new Set());
+  const searchResults = useMemo(() => searchChats(sessions, searchQuery), [sessions, searchQuery]);
+  const isSearching = searchQuery.trim().length > 0;
+
+  const folders = useMemo(() => getFolders(sessions), [sessions]);
+  const usedTags = useMemo(() => SESSION_TAGS.filter(({ tag }) => sessions.some(s => s.tags?.includes(tag))), [sessions]);
+  // Pinned chats first, then each folder, then the rest; most recently active first within each group
+  const groups = useMemo(() => {
+    const visible = sessions.filter(s => !tagFilter || s.tags?.includes(tagFilter)).sort(compareSessions);
+    return {
+      pinned: visible.filter(s => s.isPinned),
+      folders: folders
+        .map(folder => ({ folder, sessions: visible.filter(s => !s.isPinned && s.folder === folder) }))
+        .filter(group => group.sessions.length > 0),
+      unfiled: visible.filter(s => !s.isPinned && !s.folder),
+    };
+  }, [sessions, folders, tagFilter]);
+  const hasVisibleSessions = groups.pinned.length > 0 || groups.folders.length > 0 || groups.unfiled.length > 0;
+
+  const toggleFolder = (folder: string) => {
+    setCollapsedFolders(current => {
+      const next = new Set(current);
+      if (next.has(folder)) next.delete(folder);
+      else next.add(folder);
+      return next;
+    });
+  };
+
+  const renderSessions = (list: ChatSession[]) => (
+    <ul className="space-y-1">
+      {list.map((session) => (
+        <SessionListItem
+          key={session.id}
+          session={session}
+          isActive={activeSessionId === session.id}
+          folders={folders}
+          onSelect={() => onSelectSession(session.id)}
+          onDelete={() => onDeleteSession(session.id)}
+          onRename={(title) => props.onRenameSession(session.id, title)}
+          onSetPinned={(isPinned) => props.onSetSessionPinned(session.id, isPinned)}
+          onMoveToFolder={(folder) => props.onMoveSessionToFolder(session.id, folder)}
+          onSetTags={(tags) => props.onSetSessionTags(session.id, tags)}
+        />
+      ))}
+    </ul>
+  );
+
   return (
     <>
       {isOpen && <div className="fixed inset-0 bg-black bg-opacity-50 z-20 md:hidden" onClick={() => setIsOpen(false)}></div>}
@@ -24,39 +153,119 @@ const Sidebar: React.FC<SidebarProps> = ({ sessions, activeSessionId, onSelectSe
           <div className="mb-4 flex-shrink-0">
               <h2 className="text-lg font-semibold text-white mb-4">Chats Salvos</h2>
               <button
-                  onClick={onNewSession}
+                  onClick={() => { setIsTrashOpen(false); onNewSession(); }}
                   className="flex items-center justify-center gap-2 w-full p-3 text-white bg-[#0878d8] rounded-lg hover:bg-[#2196f3] transition-colors"
               >
                   <PlusIcon className="w-5 h-5" />
                   <span>Novo Chat</span>
               </button>
+              <div className="relative mt-3">
+                  <SearchIcon className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2 pointer-events-none" />
+                  <input
+                      type="search"
+                      value={searchQuery}
+                      onChange={(e) => setSearchQuery(e.target.value)}
+                      onKeyDown={(e) => e.key === 'Escape' && setSearchQuery('')}
+                      placeholder="Pesquisar nos chats"
+                      className="w-full bg-[#2a2a2a] text-white text-sm pl-9 pr-8 py-2 rounded-lg border border-gray-600 focus:outline-none focus:ring-2 focus:ring-[#0878d8]"
+                      aria-label="Pesquisar nos chats"
+                  />
+                  {isSearching && (
+                      <button
+                          onClick={() => setSearchQuery('')}
+                          className="absolute right-2 top-1/2 -translate-y-1/2 p-1 text-gray-400 rounded-full hover:text-white"
+                          aria-label="Limpar pesquisa"
+                      >
+                          <CloseIcon className="w-3 h-3" />
+                      </button>
+                  )}
+              </div>
+              {!isSearching && !isTrashOpen && (usedTags.length > 0 || tagFilter) && (
+                  <div className="flex items-center gap-2 mt-3 px-1" role="group" aria-label="Filtrar por tag">
+                      {usedTags.map(({ tag, label, className }) => (
+                          <button
+                              key={tag}
+                              onClick={() => setTagFilter(current => current === tag ? null : tag)}
+                              className={`w-4 h-4 rounded-full ${className} ${tagFilter === tag ? 'ring-2 ring-white ring-offset-2 ring-offset-[#1c1c1c]' : 'opacity-60 hover:opacity-100'}`}
+                              aria-label={`Mostrar só ${label}`}
+                              aria-pressed={tagFilter === tag}
+                              title={label}
+                          />
+                      ))}
+                      {tagFilter && (
+                          <button onClick={() => setTagFilter(null)} className="ml-auto text-xs text-gray-400 hover:text-white">
+                              Mostrar todos
+                          </button>
+                      )}
+                  </div>
+              )}
           </div>
           <div className="flex-grow overflow-y-auto -mr-2 pr-2">
-            <ul className="space-y-2">
-              {sessions.map((session) => (
-                <li key={session.id}>
-                  <div
-                    onClick={() => onSelectSession(session.id)}
-                    className={`flex items-center p-3 rounded-lg cursor-pointer group transition-colors ${
-                      activeSessionId === session.id ? 'bg-[#0878d8] text-white' : 'text-gray-300 hover:bg-[#2a2a2a]'
-                    }`}
-                  >
-                    <MessageSquareIcon className="w-5 h-5 mr-3 flex-shrink-0" />
-                    <span className="flex-grow truncate text-sm">{session.title}</span>
-                    <button
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        onDeleteSession(session.id);
-                      }}
-                      className="ml-2 p-1 text-gray-400 rounded-full opacity-0 group-hover:opacity-100 hover:bg-gray-600 hover:text-white transition-opacity"
-                      aria-label="Deletar chat"
-                    >
-                      <TrashIcon className="w-4 h-4" />
-                    </button>
-                  </div>
-                </li>
-              ))}
-            </ul>
+            {isTrashOpen ? (
+              <TrashList
+                sessions={trashedSessions}
+                onRestore={props.onRestoreSession}
+                onDeletePermanently={props.onDeleteSessionPermanently}
+                onEmptyTrash={props.onEmptyTrash}
+              />
+            ) : isSearching ? (
+              searchResults.length === 0 ? (
+                <p className="text-sm text-gray-400 text-center mt-4">Nenhum resultado encontrado.</p>
+              ) : (
+                <ul className="space-y-2">
+                  {searchResults.map((result) => (
+                    <li key={`${result.sessionId}:${result.messageId ?? 'title'}`}>
+                      <button
+                        onClick={() => onSelectSearchResult(result.sessionId, result.messageId)}
+                        className="w-full text-left p-3 rounded-lg text-gray-300 hover:bg-[#2a2a2a] transition-colors"
+                      >
+                        <span className="block text-xs font-semibold text-white truncate">
+                          {result.messageId ? result.sessionTitle : <Snippet segments={result.snippet} />}
+                        </span>
+                        {result.messageId && (
+                          <span className="block text-xs mt-1 line-clamp-3 break-words">
+                            <span className="text-gray-500">{result.sender === 'user' ? 'Você: ' : 'IA: '}</span>
+                            <Snippet segments={result.snippet} />
+                          </span>
+                        )}
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )
+            ) : !hasVisibleSessions ? (
+              tagFilter && <p className="text-sm text-gray-400 text-center mt-4">Nenhum chat com esta tag.</p>
+            ) : (
+              <div className="space-y-3">
+                {groups.pinned.length > 0 && (
+                  <section>
+                    <h3 className="px-2 py-1 text-xs font-semibold uppercase tracking-wide text-gray-400">Fixados</h3>
+                    {renderSessions(groups.pinned)}
+                  </section>
+                )}
+                {groups.folders.map(({ folder, sessions: folderSessions }) => (
+                  <section key={folder}>
+                    <FolderHeader
+                      folder={folder}
+                      count={folderSessions.length}
+                      isCollapsed={collapsedFolders.has(folder)}
+                      onToggle={() => toggleFolder(folder)}
+                      onRename={(newName) => props.onRenameFolder(folder, newName)}
+                      onDelete={() => props.onDeleteFolder(folder)}
+                    />
+                    {!collapsedFolders.has(folder) && renderSessions(folderSessions)}
+                  </section>
+                ))}
+                {groups.unfiled.length > 0 && (
+                  <section>
+                    {(groups.pinned.length > 0 || groups.folders.length > 0) && (
+                      <h3 className="px-2 py-1 text-xs font-semibold uppercase tracking-wide text-gray-400">Chats</h3>
+                    )}
+                    {renderSessions(groups.unfiled)}
+                  </section>
+                )}
+              </div>
+            )}
           </div>
         </div>
         <div className="flex-shrink-0 border-t border-gray-700 pt-4 mt-2">
@@ -66,6 +275,15 @@ const Sidebar: React.FC<SidebarProps> = ({ sessions, activeSessionId, onSelectSe
                 <span className="truncate block">{currentUser.email}</span>
             </div>
            )}
+           <button
+                onClick={() => setIsTrashOpen(!isTrashOpen)}
+                className={`flex items-center gap-3 w-full p-3 text-sm rounded-lg hover:bg-[#2a2a2a] hover:text-white transition-colors ${isTrashOpen ? 'text-white bg-[#2a2a2a]' : 'text-gray-300'}`}
+                aria-pressed={isTrashOpen}
+            >
+                <TrashIcon className="w-5 h-5 flex-shrink-0" />
+                <span className="truncate flex-grow text-left">{isTrashOpen ? 'Voltar aos chats' : 'Lixeira'}</span>
+                {!isTrashOpen && trashedSessions.length > 0 && <span className="text-xs text-gray-400">{trashedSessions.length}</span>}
+            </button>
            <button
                 onClick={onShowSettings}
                 className="flex items-center gap-3 w-full p-3 text-sm text-gray-300 rounded-lg hover:bg-[#2a2a2a] hover:text-white transition-colors"
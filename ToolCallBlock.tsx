@@ -0,0 +1,38 @@
+import React from 'react';
+import { ToolCall } from '../types';
+import { getTool } from '../services/toolService';
+
+interface ToolCallBlockProps {
+  toolCall: ToolCall;
+}
+
+const formatJson = (value: unknown): string => JSON.stringify(value, null, 2) ?? 'undefined';
+
+// One step the model took before answering, collapsed to a single line by default
+const ToolCallBlock: React.FC<ToolCallBlockProps> = ({ toolCall }) => {
+  const { name, args, result, error } = toolCall;
+  const isRunning = result === undefined && error === undefined;
+  const status = isRunning ? 'executando...' : error !== undefined ? 'falhou' : 'concluída';
+
+  return (
+    <details className="mb-2 rounded-lg bg-black bg-opacity-20 text-sm">
+      <summary className="px-3 py-2 cursor-pointer select-none text-gray-300">
+        🔧 {getTool(name)?.label ?? name} <span className={`text-xs ${error !== undefined ? 'text-red-400' : 'text-gray-500'}`}>· {status}</span>
+      </summary>
+      <div className="px-3 pb-3 space-y-2">
+        <div>
+          <p className="text-xs text-gray-400 mb-1">Entrada</p>
+          <pre className="whitespace-pre-wrap break-words text-xs bg-black bg-opacity-30 p-2 rounded">{formatJson(args)}</pre>
+        </div>
+        {!isRunning && (
+          <div>
+            <p className="text-xs text-gray-400 mb-1">{error !== undefined ? 'Erro' : 'Resultado'}</p>
+            <pre className="whitespace-pre-wrap break-words text-xs bg-black bg-opacity-30 p-2 rounded">{error ?? formatJson(result)}</pre>
+          </div>
+        )}
+      </div>
+    </details>
+  );
+};
+
+export default ToolCallBlock;
@@ -0,0 +1,65 @@
+import React from 'react';
+import { ChatSession } from '../types';
+import { RefreshIcon, TrashIcon } from './icons';
+import { TRASH_RETENTION_MS } from '../services/chatHistoryService';
+
+interface TrashListProps {
+  sessions: ChatSession[];
+  onRestore: (id: string) => void;
+  onDeletePermanently: (id: string) => void;
+  onEmptyTrash: () => void;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const formatRemainingDays = (deletedAt: number): string => {
+  const days = Math.max(Math.ceil((deletedAt + TRASH_RETENTION_MS - Date.now()) / DAY_MS), 0);
+  return days <= 1 ? 'Excluído em menos de 1 dia' : `Excluído em ${days} dias`;
+};
+
+// Chats moved to the trash, most recently deleted first
+const TrashList: React.FC<TrashListProps> = ({ sessions, onRestore, onDeletePermanently, onEmptyTrash }) => {
+  if (sessions.length === 0) {
+    return <p className="text-sm text-gray-400 text-center mt-4">A lixeira está vazia.</p>;
+  }
+
+  const sorted = [...sessions].sort((a, b) => (b.deletedAt ?? 0) - (a.deletedAt ?? 0));
+  return (
+    <div>
+      <p className="text-xs text-gray-400 px-1 mb-2">Os chats ficam na lixeira por {TRASH_RETENTION_MS / DAY_MS} dias antes de serem excluídos.</p>
+      <ul className="space-y-1">
+        {sorted.map(session => (
+          <li key={session.id} className="flex items-center p-3 rounded-lg text-gray-300 hover:bg-[#2a2a2a] group">
+            <div className="flex-grow min-w-0">
+              <span className="block truncate text-sm">{session.title}</span>
+              {session.deletedAt !== undefined && (
+                <span className="block text-xs text-gray-500">{formatRemainingDays(session.deletedAt)}</span>
+              )}
+            </div>
+            <button
+              onClick={() => onRestore(session.id)}
+              className="ml-2 p-1 text-gray-400 rounded-full hover:bg-gray-600 hover:text-white"
+              aria-label={`Restaurar ${session.title}`}
+              title="Restaurar"
+            >
+              <RefreshIcon className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => onDeletePermanently(session.id)}
+              className="ml-1 p-1 text-gray-400 rounded-full hover:bg-red-600 hover:text-white"
+              aria-label={`Excluir ${session.title} para sempre`}
+              title="Excluir para sempre"
+            >
+              <TrashIcon className="w-4 h-4" />
+            </button>
+          </li>
+        ))}
+      </ul>
+      <button onClick={onEmptyTrash} className="w-full mt-3 p-2 text-sm text-red-400 rounded-lg border border-gray-700 hover:bg-red-600 hover:text-white transition-colors">
+        Esvaziar lixeira
+      </button>
+    </div>
+  );
+};
+
+export default TrashList;
@@ -0,0 +1,33 @@
+import React, { useEffect } from 'react';
+import { CloseIcon } from './icons';
+
+// How long the toast stays up when left alone
+const TOAST_DURATION_MS = 8000;
+
+interface UndoToastProps {
+  message: string;
+  onUndo: () => void;
+  onDismiss: () => void;
+}
+
+// Confirms an action that can still be reverted, e.g. moving a chat to the trash
+const UndoToast: React.FC<UndoToastProps> = ({ message, onUndo, onDismiss }) => {
+  useEffect(() => {
+    const timer = setTimeout(onDismiss, TOAST_DURATION_MS);
+    return () => clearTimeout(timer);
+  }, [onDismiss]);
+
+  return (
+    <div role="status" className="fixed bottom-24 left-1/2 -translate-x-1/2 z-40 flex items-center gap-4 px-4 py-3 rounded-lg shadow-lg bg-[#2a2a2a] border border-gray-600 text-sm text-white">
+      <span>{message}</span>
+      <button onClick={onUndo} className="font-semibold text-[#2196f3] hover:underline">
+        Desfazer
+      </button>
+      <button onClick={onDismiss} className="p-1 text-gray-400 rounded-full hover:text-white" aria-label="Fechar">
+        <CloseIcon className="w-3 h-3" />
+      </button>
+    </div>
+  );
+};
+
+export default UndoToast;
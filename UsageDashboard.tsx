@@ -0,0 +1,191 @@
+import React, { useState, useMemo } from 'react';
+import { ChatSession } from '../types';
+import {
+  getUsageLog, clearUsageLog, getPriceTable, savePriceTable, getUsageLimits, saveUsageLimits,
+  sumUsage, toDayKey, DEFAULT_PRICE_TABLE, ModelPrice, PriceTable, UsageEntry, UsageLimits, UsageTotals,
+} from '../services/usageService';
+
+interface UsageDashboardProps {
+  sessions: ChatSession[];
+}
+
+const DAYS_SHOWN = 14;
+const SESSIONS_SHOWN = 10;
+
+const PRICE_FIELDS: { key: keyof ModelPrice; label: string }[] = [
+  { key: 'inputPerMillion', label: 'Entrada / 1M' },
+  { key: 'outputPerMillion', label: 'Saída / 1M' },
+  { key: 'perImage', label: 'Imagem' },
+  { key: 'perVideo', label: 'Vídeo' },
+];
+
+const formatTokens = (totals: UsageTotals) => (totals.inputTokens + totals.outputTokens).toLocaleString('pt-BR');
+const formatCost = (cost: number) => `US$ ${cost.toFixed(cost < 1 ? 4 : 2)}`;
+
+const groupBy = <K,>(entries: UsageEntry[], getKey: (entry: UsageEntry) => K): Map<K, UsageEntry[]> => {
+  const groups = new Map<K, UsageEntry[]>();
+  for (const entry of entries) {
+    const key = getKey(entry);
+    const group = groups.get(key) ?? [];
+    group.push(entry);
+    groups.set(key, group);
+  }
+  return groups;
+};
+
+const TotalsCard: React.FC<{ label: string; totals: UsageTotals }> = ({ label, totals }) => (
+  <div className="p-3 bg-[#2a2a2a] rounded-xl">
+    <p className="text-xs text-gray-400">{label}</p>
+    <p className="text-lg font-semibold">{formatCost(totals.cost)}</p>
+    <p className="text-xs text-gray-400">
+      {formatTokens(totals)} tokens · {totals.images} {totals.images === 1 ? 'imagem' : 'imagens'} · {totals.videos} {totals.videos === 1 ? 'vídeo' : 'vídeos'}
+    </p>
+  </div>
+);
+
+const UsageDashboard: React.FC<UsageDashboardProps> = ({ sessions }) => {
+  const [log, setLog] = useState<UsageEntry[]>(getUsageLog);
+  const [prices, setPrices] = useState<PriceTable>(getPriceTable);
+  const [limits, setLimits] = useState<UsageLimits>(getUsageLimits);
+
+  const today = toDayKey(Date.now());
+  const byDay = useMemo(() => groupBy(log, entry => toDayKey(entry.timestamp)), [log]);
+  const bySession = useMemo(() => groupBy(log, entry => entry.sessionId), [log]);
+  const sessionTitles = new Map(sessions.map(session => [session.id, session.title]));
+  // Models seen in the log can be priced too, e.g. local models with a hosting cost
+  const models = [...new Set([...Object.keys(prices), ...log.map(entry => entry.model)])].sort();
+
+  const updatePrice = (model: string, key: keyof ModelPrice, value: string) => {
+    const current = prices[model] ?? { inputPerMillion: 0, outputPerMillion: 0, perImage: 0, perVideo: 0 };
+    const updated = { ...prices, [model]: { ...current, [key]: Number(value) || 0 } };
+    setPrices(updated);
+    savePriceTable(updated);
+  };
+
+  const resetPrices = () => {
+    setPrices(DEFAULT_PRICE_TABLE);
+    savePriceTable(DEFAULT_PRICE_TABLE);
+  };
+
+  const updateLimit = (key: keyof UsageLimits, value: string) => {
+    const updated = { ...limits, [key]: value ? Number(value) : undefined };
+    setLimits(updated);
+    saveUsageLimits(updated);
+  };
+
+  const handleClearLog = () => {
+    clearUsageLog();
+    setLog([]);
+  };
+
+  const dayRows = [...byDay.entries()]
+    .sort(([a], [b]) => b.localeCompare(a))
+    .slice(0, DAYS_SHOWN)
+    .map(([day, entries]) => ({ day, totals: sumUsage(entries, prices) }));
+  const sessionRows = [...bySession.entries()]
+    .map(([sessionId, entries]) => ({ sessionId, totals: sumUsage(entries, prices) }))
+    .sort((a, b) => b.totals.cost - a.totals.cost || (b.totals.inputTokens + b.totals.outputTokens) - (a.totals.inputTokens + a.totals.outputTokens))
+    .slice(0, SESSIONS_SHOWN);
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <TotalsCard label="Hoje" totals={sumUsage(byDay.get(today) ?? [], prices)} />
+        <TotalsCard label="Últimos 90 dias" totals={sumUsage(log, prices)} />
+      </div>
+
+      {log.length === 0 ? (
+        <p className="text-sm text-gray-400">Nenhum uso registrado ainda. O consumo de cada resposta, imagem e vídeo aparece aqui.</p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+          <div>
+            <h4 className="font-semibold mb-2">Por dia</h4>
+            <table className="w-full">
+              <tbody>
+                {dayRows.map(({ day, totals }) => (
+                  <tr key={day} className="border-b border-gray-700">
+                    <td className="py-1 text-gray-300">{day.split('-').reverse().join('/')}</td>
+                    <td className="py-1 text-right text-gray-400">{formatTokens(totals)} tokens</td>
+                    <td className="py-1 text-right">{formatCost(totals.cost)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <div>
+            <h4 className="font-semibold mb-2">Por chat</h4>
+            <table className="w-full table-fixed">
+              <tbody>
+                {sessionRows.map(({ sessionId, totals }) => (
+                  <tr key={sessionId ?? ''} className="border-b border-gray-700">
+                    <td className="py-1 text-gray-300 truncate w-1/2">
+                      {sessionId === null
+                        ? <span className="italic text-gray-400">Base de conhecimento</span>
+                        : sessionTitles.get(sessionId) ?? <span className="italic text-gray-500">Chat excluído</span>}
+                    </td>
+                    <td className="py-1 text-right text-gray-400">{formatTokens(totals)}</td>
+                    <td className="py-1 text-right">{formatCost(totals.cost)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      <div>
+        <h4 className="font-semibold mb-1">Limites diários</h4>
+        <p className="text-xs text-gray-500 mb-2">Ao passar de um limite, o app pede confirmação antes de enviar. Deixe vazio para não limitar.</p>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          <div>
+            <label htmlFor="limit-tokens" className="block text-gray-300 mb-1 text-sm">Tokens por dia</label>
+            <input id="limit-tokens" type="number" min={0} step={1000} value={limits.dailyTokens ?? ''} onChange={e => updateLimit('dailyTokens', e.target.value)} className="w-full bg-[#2a2a2a] text-gray-200 p-2 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#0878d8]" />
+          </div>
+          <div>
+            <label htmlFor="limit-cost" className="block text-gray-300 mb-1 text-sm">Custo por dia (US$)</label>
+            <input id="limit-cost" type="number" min={0} step={0.1} value={limits.dailyCost ?? ''} onChange={e => updateLimit('dailyCost', e.target.value)} className="w-full bg-[#2a2a2a] text-gray-200 p-2 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#0878d8]" />
+          </div>
+        </div>
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <h4 className="font-semibold">Tabela de preços (US$)</h4>
+          <button onClick={resetPrices} className="text-xs text-[#2196f3] hover:underline">Restaurar preços padrão</button>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-gray-400 text-xs">
+                <th className="text-left font-normal py-1">Modelo</th>
+                {PRICE_FIELDS.map(field => <th key={field.label} className="text-right font-normal py-1">{field.label}</th>)}
+              </tr>
+            </thead>
+            <tbody>
+              {models.map(model => (
+                <tr key={model}>
+                  <td className="py-1 pr-2 text-gray-300 whitespace-nowrap">{model}</td>
+                  {PRICE_FIELDS.map(field => (
+                    <td key={field.label} className="py-1 pl-2">
+                      <input
+                        type="number" min={0} step="any"
+                        value={prices[model]?.[field.key] ?? 0}
+                        onChange={e => updatePrice(model, field.key, e.target.value)}
+                        className="w-20 bg-[#2a2a2a] text-gray-200 p-1 rounded-md text-right focus:outline-none focus:ring-2 focus:ring-[#0878d8]"
+                        aria-label={`${field.label} para ${model}`}
+                      />
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <button onClick={handleClearLog} disabled={log.length === 0} className="px-4 py-2 text-sm rounded-xl bg-gray-600 hover:bg-gray-500 text-white transition-colors disabled:opacity-50">Limpar registro de uso</button>
+    </div>
+  );
+};
+
+export default UsageDashboard;
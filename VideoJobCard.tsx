@@ -0,0 +1,57 @@
+import React, { useState, useEffect } from 'react';
+import { VideoJob } from '../types';
+import { ESTIMATED_VIDEO_DURATION_MS } from '../services/videoJobService';
+
+interface VideoJobCardProps {
+  job: VideoJob;
+  onCancel: () => void;
+}
+
+const formatElapsed = (ms: number): string => {
+  const seconds = Math.floor(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+const STATUS_LABELS: Record<VideoJob['status'], string> = {
+  queued: 'Na fila, aguardando outros vídeos terminarem',
+  starting: 'Enviando o pedido...',
+  running: 'Gerando o vídeo',
+};
+
+// Progress of a video that is still being generated, shown in place of the answer
+const VideoJobCard: React.FC<VideoJobCardProps> = ({ job, onCancel }) => {
+  const [now, setNow] = useState(Date.now);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  // The API reports no progress, so the bar follows the usual duration and waits near the end
+  const elapsed = job.startedAt ? now - job.startedAt : 0;
+  const progress = job.status === 'running' ? Math.min(elapsed / ESTIMATED_VIDEO_DURATION_MS, 0.95) : 0;
+
+  return (
+    <div className="w-72 max-w-full space-y-2 text-sm" role="status">
+      <p className="font-semibold">🎬 {STATUS_LABELS[job.status]}{job.status === 'running' && ` · ${formatElapsed(elapsed)}`}</p>
+      <p className="text-gray-300 line-clamp-2">"{job.prompt}"</p>
+      <div className="h-1.5 rounded-full bg-black bg-opacity-30 overflow-hidden">
+        <div
+          className={`h-full bg-[#2196f3] transition-all duration-1000 ${job.status === 'running' ? '' : 'animate-pulse w-full opacity-30'}`}
+          style={job.status === 'running' ? { width: `${Math.round(progress * 100)}%` } : undefined}
+        />
+      </div>
+      {job.lastError && (
+        <p className="text-xs text-yellow-400">Falha ao verificar o andamento, tentando de novo: {job.lastError}</p>
+      )}
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-xs text-gray-400">Pode levar alguns minutos. Você pode continuar conversando.</span>
+        <button onClick={onCancel} className="flex-shrink-0 px-3 py-1 text-xs rounded-md bg-gray-600 hover:bg-gray-500 transition-colors">
+          Cancelar
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default VideoJobCard;
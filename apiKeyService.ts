@@ -0,0 +1,126 @@
+const ENCRYPTED_API_KEY_KEY = 'gemini_api_key_encrypted';
+const PBKDF2_ITERATIONS = 310000;
+
+// The key encrypted with AES-GCM under a key derived from the user's passphrase (all base64)
+interface EncryptedApiKey {
+  salt: string;
+  iv: string;
+  data: string;
+}
+
+type ApiKeyListener = (apiKey: string | null) => void;
+
+// The decrypted key only ever lives in memory; it has to be unlocked again after a reload
+let unlockedApiKey: string | null = null;
+const apiKeyListeners = new Set<ApiKeyListener>();
+
+const toBase64 = (bytes: Uint8Array): string => btoa(String.fromCharCode(...bytes));
+const fromBase64 = (base64: string) => Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+
+const deriveKey = async (passphrase: string, salt: BufferSource): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt'],
+  );
+};
+
+const getEncryptedApiKey = (): EncryptedApiKey | null => {
+  try {
+    const json = localStorage.getItem(ENCRYPTED_API_KEY_KEY);
+    return json ? JSON.parse(json) : null;
+  } catch (error) {
+    console.error('Error loading API key from localStorage:', error);
+    return null;
+  }
+};
+
+// Key injected by the hosting environment (e.g. AI Studio). Static builds have none, so they never ship a key.
+const getEnvironmentApiKey = (): string | null => {
+  try {
+    return process.env.API_KEY || null;
+  } catch {
+    return null;
+  }
+};
+
+const setUnlockedApiKey = (apiKey: string | null) => {
+  unlockedApiKey = apiKey;
+  apiKeyListeners.forEach(listener => listener(getApiKey()));
+};
+
+/**
+ * The key to call the Gemini API with: the user's unlocked key, or the one provided by the environment.
+ */
+export const getApiKey = (): string | null => {
+  return unlockedApiKey ?? getEnvironmentApiKey();
+};
+
+export const hasStoredApiKey = (): boolean => {
+  return getEncryptedApiKey() !== null;
+};
+
+export const isApiKeyUnlocked = (): boolean => {
+  return unlockedApiKey !== null;
+};
+
+/**
+ * Registers a callback for when the active key changes (saved, unlocked, locked or removed).
+ * @returns A function that removes the listener.
+ */
+export const onApiKeyChange = (listener: ApiKeyListener): (() => void) => {
+  apiKeyListeners.add(listener);
+  return () => {
+    apiKeyListeners.delete(listener);
+  };
+};
+
+/**
+ * Encrypts the key with the passphrase, stores it and makes it the active key.
+ * Replaces any previously stored key.
+ */
+export const saveApiKey = async (apiKey: string, passphrase: string): Promise<void> => {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const key = await deriveKey(passphrase, salt);
+  const data = new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(apiKey)));
+  const encrypted: EncryptedApiKey = { salt: toBase64(salt), iv: toBase64(iv), data: toBase64(data) };
+  localStorage.setItem(ENCRYPTED_API_KEY_KEY, JSON.stringify(encrypted));
+  setUnlockedApiKey(apiKey);
+};
+
+/**
+ * Decrypts the stored key and makes it the active key until the page is closed or the key is locked.
+ * @throws If there is no stored key or the passphrase is wrong.
+ */
+export const unlockApiKey = async (passphrase: string): Promise<void> => {
+  const encrypted = getEncryptedApiKey();
+  if (!encrypted) {
+    throw new Error('Nenhuma chave de API salva.');
+  }
+  try {
+    const key = await deriveKey(passphrase, fromBase64(encrypted.salt));
+    const data = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(encrypted.iv) }, key, fromBase64(encrypted.data));
+    setUnlockedApiKey(new TextDecoder().decode(data));
+  } catch {
+    // AES-GCM fails authentication when the derived key is wrong
+    throw new Error('Senha incorreta.');
+  }
+};
+
+export const lockApiKey = () => {
+  setUnlockedApiKey(null);
+};
+
+export const removeApiKey = () => {
+  localStorage.removeItem(ENCRYPTED_API_KEY_KEY);
+  setUnlockedApiKey(null);
+};
+
+// Shows only the ends of a key, e.g. "AIza…3xQk"
+export const maskApiKey = (apiKey: string): string => {
+  return apiKey.length > 8 ? `${apiKey.slice(0, 4)}…${apiKey.slice(-4)}` : '••••';
+};
@@ -0,0 +1,86 @@
+import { Attachment, PromptPart, Message } from '../types';
+import { withStore } from './database';
+import { parseDataUrl, fileToPromptPart } from '../utils/fileUtils';
+
+const STORE_NAME = 'attachments';
+
+// The metadata lives in the message; the bytes live here so they survive reloads
+interface AttachmentRecord extends Attachment {
+  blob: Blob;
+}
+
+export const saveAttachment = async (blob: Blob, name?: string): Promise<Attachment> => {
+  const attachment: Attachment = {
+    id: crypto.randomUUID(),
+    mimeType: blob.type || 'application/octet-stream',
+    name,
+  };
+  const record: AttachmentRecord = { ...attachment, blob };
+  await withStore(STORE_NAME, 'readwrite', store => store.put(record));
+  return attachment;
+};
+
+// Stores a file under an existing id, e.g. when importing an exported archive
+export const restoreAttachment = async (attachment: Attachment, blob: Blob): Promise<void> => {
+  const record: AttachmentRecord = { ...attachment, blob };
+  await withStore(STORE_NAME, 'readwrite', store => store.put(record));
+};
+
+export const getAttachmentBlob = async (attachmentId: string): Promise<Blob | null> => {
+  try {
+    const record: AttachmentRecord | undefined = await withStore(STORE_NAME, 'readonly', store => store.get(attachmentId));
+    return record?.blob ?? null;
+  } catch (error) {
+    console.error('Error loading attachment from IndexedDB:', error);
+    return null;
+  }
+};
+
+/**
+ * Loads an attachment as a prompt part for the model.
+ * @param attachment - The attachment referenced by a message.
+ * @returns Inline data or extracted text, or null if the attachment is missing.
+ */
+export const getAttachmentPromptPart = async (attachment: Attachment): Promise<PromptPart | null> => {
+  const blob = await getAttachmentBlob(attachment.id);
+  if (!blob) return null;
+  return fileToPromptPart(blob, attachment.mimeType, attachment.name);
+};
+
+/**
+ * Collects every attachment of a past message as prompt parts, so follow-up
+ * questions about an earlier picture or document can be answered.
+ * @param message - A message from the chat history.
+ * @returns Parts for its stored attachments and generated (data URL) image.
+ */
+export const getMessageParts = async (message: Message): Promise<PromptPart[]> => {
+  const parts: PromptPart[] = [];
+  for (const attachment of message.attachments ?? []) {
+    // Generated videos are too large to resend with every request
+    if (attachment.mimeType.startsWith('video/')) continue;
+    const part = await getAttachmentPromptPart(attachment);
+    if (part) parts.push(part);
+  }
+  // Generated images are stored inline as data URLs
+  if (message.imageUrl?.startsWith('data:')) {
+    const { base64, mimeType } = parseDataUrl(message.imageUrl);
+    parts.push({ inlineData: { data: base64, mimeType } });
+  }
+  return parts;
+};
+
+export const deleteAttachments = async (attachmentIds: string[]) => {
+  try {
+    await Promise.all(attachmentIds.map(id => withStore(STORE_NAME, 'readwrite', store => store.delete(id))));
+  } catch (error) {
+    console.error('Error deleting attachments from IndexedDB:', error);
+  }
+};
+
+export const clearAttachments = async () => {
+  try {
+    await withStore(STORE_NAME, 'readwrite', store => store.clear());
+  } catch (error) {
+    console.error('Error clearing attachments from IndexedDB:', error);
+  }
+};
@@ -0,0 +1,284 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import { createHmac, pbkdf2, randomBytes, randomInt, randomUUID, timingSafeEqual } from 'node:crypto';
+import { promisify } from 'node:util';
+import { pathToFileURL } from 'node:url';
+import type { AuthSession } from '../types';
+import type { TokenVerifier } from './syncServer.ts';
+
+// Development auth server behind services/mockAuthProvider.ts. Accounts, refresh tokens and
+// reset codes are kept in memory, so they are gone when it stops.
+//
+//   POST /auth/signup                   { email, password }        -> AuthSession
+//   POST /auth/signin                   { email, password }        -> AuthSession
+//   POST /auth/refresh                  { refreshToken }           -> AuthSession
+//   POST /auth/signout                  { refreshToken }           -> {}
+//   POST /auth/password-reset/request   { email }                  -> {}
+//   POST /auth/password-reset/confirm   { email, code, password }  -> {}
+//
+// Access tokens are signed with a secret shared with the sync server, which checks them
+// with createAccessTokenVerifier. Errors answer { error } with a message for the user.
+
+const MAX_BODY_BYTES = 64 * 1024;
+// The sync server starts its own auth server on another port, so both can run at once
+const DEFAULT_PORT = 8789;
+const ACCESS_TOKEN_LIFETIME_MS = 15 * 60 * 1000;
+const REFRESH_TOKEN_LIFETIME_MS = 30 * 24 * 60 * 60 * 1000;
+const RESET_CODE_LIFETIME_MS = 15 * 60 * 1000;
+const MIN_PASSWORD_LENGTH = 8;
+const PBKDF2_ITERATIONS = 100000;
+// Tells the sync server which verifier a token belongs to
+export const ACCESS_TOKEN_PREFIX = 'mock.';
+
+const pbkdf2Async = promisify(pbkdf2);
+
+interface Account {
+  id: string;
+  email: string;
+  // PBKDF2-SHA256 of the password, base64
+  passwordHash: string;
+  salt: string;
+}
+
+interface AccessTokenPayload {
+  // Account id
+  sub: string;
+  // Epoch milliseconds
+  exp: number;
+}
+
+export interface AuthServerOptions {
+  // Signs the access tokens; give the same secret to createAccessTokenVerifier
+  secret: string;
+}
+
+// Plain fields only: the file runs with Node's type stripping, which has no parameter properties
+class HttpError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+    this.name = "HttpError";
+  }
+}
+
+const sign = (data: string, secret: string) => createHmac('sha256', secret).update(data).digest('base64url');
+
+const createAccessToken = (accountId: string, secret: string): { accessToken: string; expiresAt: number } => {
+  const payload: AccessTokenPayload = { sub: accountId, exp: Date.now() + ACCESS_TOKEN_LIFETIME_MS };
+  const encoded = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  return { accessToken: `${ACCESS_TOKEN_PREFIX}${encoded}.${sign(encoded, secret)}`, expiresAt: payload.exp };
+};
+
+/**
+ * Checks the access tokens issued by an auth server created with the same secret.
+ * @returns A verifier for the sync server. It resolves "mock:<account id>" for valid tokens,
+ *   and null for expired, tampered and foreign ones.
+ */
+export const createAccessTokenVerifier = (secret: string): TokenVerifier => async (accessToken) => {
+  if (!accessToken.startsWith(ACCESS_TOKEN_PREFIX)) return null;
+  const [encoded, signature] = accessToken.slice(ACCESS_TOKEN_PREFIX.length).split('.');
+  if (!encoded || !signature) return null;
+  const expected = Buffer.from(sign(encoded, secret));
+  const actual = Buffer.from(signature);
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) return null;
+  try {
+    const { sub, exp }: AccessTokenPayload = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8'));
+    return typeof sub === 'string' && exp > Date.now() ? `mock:${sub}` : null;
+  } catch {
+    return null;
+  }
+};
+
+const hashPassword = async (password: string, salt: string): Promise<string> => {
+  return (await pbkdf2Async(password, salt, PBKDF2_ITERATIONS, 32, 'sha256')).toString('base64');
+};
+
+const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+const checkPassword = (password: string) => {
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    throw new HttpError(400, `A senha precisa ter pelo menos ${MIN_PASSWORD_LENGTH} caracteres.`);
+  }
+};
+
+const readJsonBody = (request: IncomingMessage): Promise<any> => {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    request.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new HttpError(413, 'Requisição grande demais.'));
+        request.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    request.on('end', () => {
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+      } catch {
+        reject(new HttpError(400, 'Requisição inválida.'));
+      }
+    });
+    request.on('error', reject);
+  });
+};
+
+// Reads the named string fields of the body, rejecting requests that lack any of them
+const readFields = async <K extends string>(request: IncomingMessage, ...names: K[]): Promise<Record<K, string>> => {
+  const body = await readJsonBody(request);
+  if (typeof body !== 'object' || body === null || names.some(name => typeof body[name] !== 'string')) {
+    throw new HttpError(400, 'Requisição inválida.');
+  }
+  return body;
+};
+
+const sendJson = (response: ServerResponse, status: number, body: object) => {
+  response.writeHead(status, { 'Content-Type': 'application/json' });
+  response.end(JSON.stringify(body));
+};
+
+/**
+ * Creates the auth server; call `listen()` on the result.
+ * @param options - The secret access tokens are signed with.
+ */
+export const createAuthServer = ({ secret }: AuthServerOptions): Server => {
+  // Keyed by normalized email
+  const accounts = new Map<string, Account>();
+  // Refresh token -> account email
+  const refreshTokens = new Map<string, { email: string; expiresAt: number }>();
+  const resetCodes = new Map<string, { code: string; expiresAt: number }>();
+
+  // Issues a fresh token pair; the refresh token is single-use and rotated on every refresh
+  const issueSession = (account: Account): AuthSession => {
+    const refreshToken = randomUUID();
+    refreshTokens.set(refreshToken, { email: account.email, expiresAt: Date.now() + REFRESH_TOKEN_LIFETIME_MS });
+    return {
+      providerId: 'mock',
+      user: { id: account.id, email: account.email },
+      refreshToken,
+      ...createAccessToken(account.id, secret),
+    };
+  };
+
+  const signUp = async ({ email, password }: Record<'email' | 'password', string>): Promise<AuthSession> => {
+    checkPassword(password);
+    const normalizedEmail = normalizeEmail(email);
+    if (accounts.has(normalizedEmail)) {
+      throw new HttpError(409, 'Este e-mail já está em uso.');
+    }
+    const salt = randomUUID();
+    const account: Account = { id: randomUUID(), email: normalizedEmail, salt, passwordHash: await hashPassword(password, salt) };
+    accounts.set(normalizedEmail, account);
+    return issueSession(account);
+  };
+
+  const signIn = async ({ email, password }: Record<'email' | 'password', string>): Promise<AuthSession> => {
+    const account = accounts.get(normalizeEmail(email));
+    if (!account || await hashPassword(password, account.salt) !== account.passwordHash) {
+      throw new HttpError(401, 'Credenciais inválidas. Verifique seu e-mail e senha.');
+    }
+    return issueSession(account);
+  };
+
+  const refresh = ({ refreshToken }: Record<'refreshToken', string>): AuthSession => {
+    const stored = refreshTokens.get(refreshToken);
+    const account = stored && accounts.get(stored.email);
+    if (!stored || !account || stored.expiresAt < Date.now()) {
+      throw new HttpError(401, 'Sua sessão expirou. Faça login novamente.');
+    }
+    refreshTokens.delete(refreshToken);
+    return issueSession(account);
+  };
+
+  const requestPasswordReset = ({ email }: Record<'email', string>) => {
+    const normalizedEmail = normalizeEmail(email);
+    // Like a real server, the answer is the same whether or not the account exists
+    if (!accounts.has(normalizedEmail)) return;
+    const code = String(randomInt(1000000)).padStart(6, '0');
+    resetCodes.set(normalizedEmail, { code, expiresAt: Date.now() + RESET_CODE_LIFETIME_MS });
+    // There is no mail server in development, so the "email" goes to the console
+    console.info(`[auth server] Código de redefinição de senha para ${normalizedEmail}: ${code}`);
+  };
+
+  const resetPassword = async ({ email, code, password }: Record<'email' | 'code' | 'password', string>) => {
+    checkPassword(password);
+    const normalizedEmail = normalizeEmail(email);
+    const resetCode = resetCodes.get(normalizedEmail);
+    const account = accounts.get(normalizedEmail);
+    if (!account || !resetCode || resetCode.code !== code.trim() || resetCode.expiresAt < Date.now()) {
+      throw new HttpError(400, 'Código inválido ou expirado.');
+    }
+    resetCodes.delete(normalizedEmail);
+    account.salt = randomUUID();
+    account.passwordHash = await hashPassword(password, account.salt);
+    // A new password signs out every other device
+    for (const [token, { email: tokenEmail }] of refreshTokens) {
+      if (tokenEmail === normalizedEmail) refreshTokens.delete(token);
+    }
+  };
+
+  const handleRequest = async (request: IncomingMessage, response: ServerResponse) => {
+    const { pathname } = new URL(request.url ?? '/', 'http://localhost');
+    if (request.method !== 'POST') {
+      throw new HttpError(404, 'Not found');
+    }
+    switch (pathname) {
+      case '/auth/signup':
+        sendJson(response, 200, await signUp(await readFields(request, 'email', 'password')));
+        return;
+      case '/auth/signin':
+        sendJson(response, 200, await signIn(await readFields(request, 'email', 'password')));
+        return;
+      case '/auth/refresh':
+        sendJson(response, 200, refresh(await readFields(request, 'refreshToken')));
+        return;
+      case '/auth/signout':
+        refreshTokens.delete((await readFields(request, 'refreshToken')).refreshToken);
+        sendJson(response, 200, {});
+        return;
+      case '/auth/password-reset/request':
+        requestPasswordReset(await readFields(request, 'email'));
+        sendJson(response, 200, {});
+        return;
+      case '/auth/password-reset/confirm':
+        await resetPassword(await readFields(request, 'email', 'code', 'password'));
+        sendJson(response, 200, {});
+        return;
+    }
+    throw new HttpError(404, 'Not found');
+  };
+
+  return createServer((request, response) => {
+    // The app is served from another origin (Vite or GitHub Pages)
+    response.setHeader('Access-Control-Allow-Origin', '*');
+    response.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+    response.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+    if (request.method === 'OPTIONS') {
+      response.writeHead(204);
+      response.end();
+      return;
+    }
+    handleRequest(request, response).catch(error => {
+      if (!(error instanceof HttpError)) {
+        console.error('Error handling auth request:', error);
+      }
+      sendJson(response, error instanceof HttpError ? error.status : 500, { error: error.message });
+    });
+  });
+};
+
+// A random secret unless AUTH_SECRET is set: tokens then stop working when the server restarts
+export const getAuthSecret = (): string => process.env.AUTH_SECRET || randomBytes(32).toString('base64url');
+
+export const getAuthPort = (defaultPort = DEFAULT_PORT): number => Number(process.env.AUTH_PORT) || defaultPort;
+
+// Started directly (npm run auth-server) rather than imported by the sync server or a test
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const port = getAuthPort();
+  createAuthServer({ secret: getAuthSecret() }).listen(port, () => {
+    console.log(`Auth server listening on http://localhost:${port}`);
+  });
+}
@@ -0,0 +1,161 @@
+import { AuthProvider, AuthProviderId, AuthSession, User } from '../types';
+import { mockAuthProvider } from './mockAuthProvider';
+import { googleAuthProvider } from './googleAuthProvider';
+
+const AUTH_SESSION_KEY = 'auth_session';
+// Tokens are renewed this long before they expire
+const REFRESH_MARGIN_MS = 60 * 1000;
+
+type AuthListener = (user: User | null) => void;
+
+const AUTH_PROVIDERS: Record<AuthProviderId, AuthProvider> = {
+  mock: mockAuthProvider,
+  google: googleAuthProvider,
+};
+
+// Email and password accounts; swap for a provider backed by a real server in production
+const passwordAuthProvider = mockAuthProvider;
+
+const loadSession = (): AuthSession | null => {
+  try {
+    const json = localStorage.getItem(AUTH_SESSION_KEY);
+    return json ? JSON.parse(json) : null;
+  } catch (error) {
+    console.error('Error loading auth session from localStorage:', error);
+    return null;
+  }
+};
+
+let currentSession: AuthSession | null = loadSession();
+let refreshTimer: ReturnType<typeof setTimeout> | undefined;
+// Shared by concurrent callers so a refresh token is only used once
+let refreshPromise: Promise<AuthSession | null> | null = null;
+const authListeners = new Set<AuthListener>();
+
+const setSession = (session: AuthSession | null) => {
+  currentSession = session;
+  try {
+    if (session) {
+      localStorage.setItem(AUTH_SESSION_KEY, JSON.stringify(session));
+    } else {
+      localStorage.removeItem(AUTH_SESSION_KEY);
+    }
+  } catch (error) {
+    console.error('Error saving auth session to localStorage:', error);
+  }
+
+  clearTimeout(refreshTimer);
+  if (session) {
+    refreshTimer = setTimeout(refreshSession, Math.max(session.expiresAt - Date.now() - REFRESH_MARGIN_MS, 0));
+  }
+  authListeners.forEach(listener => listener(session?.user ?? null));
+};
+
+// Renews the tokens with the provider that issued them; a rejected refresh ends the session
+const refreshSession = (): Promise<AuthSession | null> => {
+  if (!refreshPromise) {
+    refreshPromise = (async () => {
+      const session = currentSession;
+      if (!session) return null;
+      if (!navigator.onLine) {
+        // Keep the user signed in while offline and try again on reconnect
+        window.addEventListener('online', () => refreshSession(), { once: true });
+        return session;
+      }
+      try {
+        setSession(await AUTH_PROVIDERS[session.providerId].refreshSession(session));
+      } catch (error) {
+        console.error('Error refreshing auth session:', error);
+        setSession(null);
+      }
+      return currentSession;
+    })().finally(() => {
+      refreshPromise = null;
+    });
+  }
+  return refreshPromise;
+};
+
+export const getCurrentUser = (): User | null => {
+  return currentSession?.user ?? null;
+};
+
+/**
+ * Registers a callback for sign-ins, sign-outs and sessions that could not be renewed.
+ * @returns A function that removes the listener.
+ */
+export const onAuthChange = (listener: AuthListener): (() => void) => {
+  authListeners.add(listener);
+  return () => {
+    authListeners.delete(listener);
+  };
+};
+
+/**
+ * Resumes the session saved by a previous visit, renewing it first if it has expired.
+ * Call once on startup.
+ * @returns The signed-in user, or null.
+ */
+export const restoreSession = async (): Promise<User | null> => {
+  if (!currentSession) return null;
+  if (currentSession.expiresAt - REFRESH_MARGIN_MS <= Date.now()) {
+    await refreshSession();
+  } else {
+    setSession(currentSession);
+  }
+  return getCurrentUser();
+};
+
+/**
+ * A valid access token for calling backend APIs on the user's behalf, renewed if needed.
+ * @returns The token, or null when signed out.
+ */
+export const getAccessToken = async (): Promise<string | null> => {
+  if (currentSession && currentSession.expiresAt - REFRESH_MARGIN_MS <= Date.now()) {
+    await refreshSession();
+  }
+  return currentSession?.accessToken ?? null;
+};
+
+export const signIn = async (email: string, password: string): Promise<User> => {
+  const session = await passwordAuthProvider.signIn(email, password);
+  setSession(session);
+  return session.user;
+};
+
+export const signUp = async (email: string, password: string): Promise<User> => {
+  const session = await passwordAuthProvider.signUp(email, password);
+  setSession(session);
+  return session.user;
+};
+
+export const isGoogleSignInAvailable = (): boolean => {
+  return googleAuthProvider.isConfigured;
+};
+
+// Opens a popup, so it must be called directly from a click handler
+export const signInWithGoogle = async (): Promise<User> => {
+  const session = await googleAuthProvider.signIn();
+  setSession(session);
+  return session.user;
+};
+
+export const requestPasswordReset = (email: string): Promise<void> => {
+  return passwordAuthProvider.requestPasswordReset(email);
+};
+
+export const resetPassword = (email: string, code: string, newPassword: string): Promise<void> => {
+  return passwordAuthProvider.resetPassword(email, code, newPassword);
+};
+
+// Signs out locally right away; revoking the tokens with the provider is best effort
+export const signOut = async (): Promise<void> => {
+  const session = currentSession;
+  setSession(null);
+  if (!session) return;
+  try {
+    await AUTH_PROVIDERS[session.providerId].signOut(session);
+  } catch (error) {
+    console.error('Error signing out with the auth provider:', error);
+  }
+};
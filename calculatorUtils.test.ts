@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { evaluateExpression } from './calculatorUtils';
+
+describe('evaluateExpression', () => {
+    it('follows the usual precedence', () => {
+        expect(evaluateExpression('2 + 3 * 4')).toBe(14);
+        expect(evaluateExpression('(2 + 3) * 4')).toBe(20);
+        expect(evaluateExpression('10 - 4 - 3')).toBe(3);
+        expect(evaluateExpression('20 / 4 / 5')).toBe(1);
+        expect(evaluateExpression('17 % 5')).toBe(2);
+        expect(evaluateExpression('2 * (3 + 4)^2 / sqrt(16)')).toBe(24.5);
+    });
+
+    it('treats powers as right associative and tighter than signs', () => {
+        expect(evaluateExpression('2^3^2')).toBe(512);
+        expect(evaluateExpression('2**3')).toBe(8);
+        expect(evaluateExpression('-2^2')).toBe(-4);
+        expect(evaluateExpression('2^-1')).toBe(0.5);
+        expect(evaluateExpression('--3 + +2')).toBe(5);
+    });
+
+    it('reads decimals and scientific notation', () => {
+        expect(evaluateExpression('.5 + 1.25')).toBe(1.75);
+        expect(evaluateExpression('1.5e3 + 2E-1')).toBe(1500.2);
+    });
+
+    it('knows its constants and functions', () => {
+        expect(evaluateExpression('PI')).toBe(Math.PI);
+        expect(evaluateExpression('ln(e)')).toBe(1);
+        expect(evaluateExpression('log(1000)')).toBe(3);
+        expect(evaluateExpression('max(1, 7, 3) + pow(2, 10)')).toBe(1031);
+        expect(evaluateExpression('round(cos(0))')).toBe(1);
+    });
+
+    it('explains what is wrong with an invalid expression', () => {
+        expect(() => evaluateExpression('')).toThrow('A expressão está vazia.');
+        expect(() => evaluateExpression('2 +')).toThrow('A expressão terminou antes do esperado.');
+        expect(() => evaluateExpression('(2 + 3')).toThrow('Esperado ")"');
+        expect(() => evaluateExpression('2 3')).toThrow('Símbolo inesperado: "3".');
+        expect(() => evaluateExpression('foo(1)')).toThrow('Símbolo desconhecido: "foo".');
+        expect(() => evaluateExpression('1 / 0')).toThrow('não é um número finito');
+    });
+
+    it('does not run code', () => {
+        expect(() => evaluateExpression('alert(1)')).toThrow('Símbolo desconhecido');
+        expect(() => evaluateExpression('constructor(5) + 1')).toThrow('Símbolo desconhecido: "constructor".');
+        expect(() => evaluateExpression('__proto__')).toThrow('Símbolo desconhecido');
+    });
+});
@@ -0,0 +1,138 @@
+// Arithmetic for the calculator tool. Expressions come from the model, so they are parsed
+// here instead of being passed to eval().
+
+const CONSTANTS: Record<string, number> = {
+    pi: Math.PI,
+    e: Math.E,
+};
+
+const FUNCTIONS: Record<string, (...args: number[]) => number> = {
+    sqrt: Math.sqrt,
+    cbrt: Math.cbrt,
+    abs: Math.abs,
+    round: Math.round,
+    floor: Math.floor,
+    ceil: Math.ceil,
+    sin: Math.sin,
+    cos: Math.cos,
+    tan: Math.tan,
+    asin: Math.asin,
+    acos: Math.acos,
+    atan: Math.atan,
+    log: Math.log10,
+    ln: Math.log,
+    exp: Math.exp,
+    pow: Math.pow,
+    min: Math.min,
+    max: Math.max,
+};
+
+const tokenize = (expression: string): string[] => {
+    const tokens = expression.match(/\d+(?:\.\d+)?(?:e[+-]?\d+)?|\.\d+|[a-z_]+|\*\*|\S/gi) ?? [];
+    return tokens.map(token => token === '**' ? '^' : token.toLowerCase());
+};
+
+/**
+ * Evaluates an arithmetic expression such as `2 * (3 + 4)^2 / sqrt(16)`.
+ * Supports + - * / % ^ (or **), parentheses, the constants pi and e, and the functions
+ * in FUNCTIONS (log is base 10, ln is natural; angles are in radians).
+ * @param expression - The expression; decimals use a dot.
+ * @returns The result.
+ * @throws An error describing the problem when the expression is invalid.
+ */
+export const evaluateExpression = (expression: string): number => {
+    const tokens = tokenize(expression);
+    let position = 0;
+
+    const peek = () => tokens[position];
+    const next = () => tokens[position++];
+    const expect = (token: string) => {
+        if (next() !== token) {
+            throw new Error(`Esperado "${token}" na posição ${position}.`);
+        }
+    };
+
+    // Lowest precedence first: sums, then products, then signs, then powers
+    const parseSum = (): number => {
+        let value = parseProduct();
+        while (peek() === '+' || peek() === '-') {
+            value = next() === '+' ? value + parseProduct() : value - parseProduct();
+        }
+        return value;
+    };
+
+    const parseProduct = (): number => {
+        let value = parseUnary();
+        while (peek() === '*' || peek() === '/' || peek() === '%') {
+            const operator = next();
+            const operand = parseUnary();
+            value = operator === '*' ? value * operand : operator === '/' ? value / operand : value % operand;
+        }
+        return value;
+    };
+
+    // Signs bind looser than powers, so -2^2 is -4
+    const parseUnary = (): number => {
+        if (peek() === '-') {
+            next();
+            return -parseUnary();
+        }
+        if (peek() === '+') {
+            next();
+            return parseUnary();
+        }
+        return parsePower();
+    };
+
+    // Right associative: 2^3^2 is 2^9
+    const parsePower = (): number => {
+        const base = parsePrimary();
+        if (peek() === '^') {
+            next();
+            return Math.pow(base, parseUnary());
+        }
+        return base;
+    };
+
+    const parsePrimary = (): number => {
+        const token = next();
+        if (token === undefined) {
+            throw new Error('A expressão terminou antes do esperado.');
+        }
+        if (token === '(') {
+            const value = parseSum();
+            expect(')');
+            return value;
+        }
+        if (/^[\d.]/.test(token)) {
+            return Number(token);
+        }
+        // Own keys only: `in` would also accept names inherited from Object, like "constructor"
+        if (Object.hasOwn(FUNCTIONS, token)) {
+            expect('(');
+            const args = [parseSum()];
+            while (peek() === ',') {
+                next();
+                args.push(parseSum());
+            }
+            expect(')');
+            return FUNCTIONS[token](...args);
+        }
+        if (Object.hasOwn(CONSTANTS, token)) {
+            return CONSTANTS[token];
+        }
+        throw new Error(`Símbolo desconhecido: "${token}".`);
+    };
+
+    if (tokens.length === 0) {
+        throw new Error('A expressão está vazia.');
+    }
+    const result = parseSum();
+    if (position < tokens.length) {
+        throw new Error(`Símbolo inesperado: "${tokens[position]}".`);
+    }
+    if (!Number.isFinite(result)) {
+        throw new Error('O resultado não é um número finito (por exemplo, divisão por zero).');
+    }
+    return result;
+};
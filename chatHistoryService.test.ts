@@ -0,0 +1,73 @@
+import { IDBFactory, IDBKeyRange } from 'fake-indexeddb';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { ChatSession } from '../types';
+
+const session = (id: string, updatedAt: number, folder?: string): ChatSession => ({
+  id, title: `Chat ${id}`, createdAt: 0, updatedAt, messages: [], folder,
+});
+
+const folderOf = (history: ChatSession[]) => Object.fromEntries(history.map(s => [s.id, s.folder]));
+
+// Loads a fresh copy of the service over an empty database, holding the given chats
+const setUp = async (sessions: ChatSession[]) => {
+  vi.stubGlobal('indexedDB', new IDBFactory());
+  vi.stubGlobal('IDBKeyRange', IDBKeyRange);
+  vi.stubGlobal('localStorage', { getItem: () => null, setItem: () => {}, removeItem: () => {} });
+  vi.resetModules();
+  const chatHistory = await import('./chatHistoryService');
+  await chatHistory.loadChatHistory();
+  chatHistory.applySyncedHistory(sessions);
+  return chatHistory;
+};
+
+describe('compareSessions', () => {
+  it('puts the most recently updated chat first', async () => {
+    const { compareSessions } = await setUp([]);
+    const sorted = [session('a', 1), session('b', 3), session('c', 2)].sort(compareSessions);
+    expect(sorted.map(s => s.id)).toEqual(['b', 'c', 'a']);
+  });
+});
+
+describe('getFolders', () => {
+  it('lists each folder once, in Portuguese alphabetical order', async () => {
+    const { getFolders } = await setUp([]);
+    const sessions = [session('a', 0, 'Viagens'), session('b', 0), session('c', 0, 'Álgebra'), session('d', 0, 'Viagens'), session('e', 0, 'Culinária')];
+    expect(getFolders(sessions)).toEqual(['Álgebra', 'Culinária', 'Viagens']);
+  });
+});
+
+describe('folders', () => {
+  let chatHistory: Awaited<ReturnType<typeof setUp>>;
+
+  beforeEach(async () => {
+    chatHistory = await setUp([session('a', 3, 'Trabalho'), session('b', 2, 'Estudos'), session('c', 1, 'Trabalho'), session('d', 0)]);
+  });
+
+  it('moves a chat without bringing it to the top of the list', () => {
+    const history = chatHistory.moveSessionToFolder('d', '  Estudos ');
+    expect(history.find(s => s.id === 'd')).toMatchObject({ folder: 'Estudos', updatedAt: 0 });
+    expect(folderOf(chatHistory.moveSessionToFolder('d', ' '))).toMatchObject({ d: undefined });
+  });
+
+  it('renames a folder for every chat in it', () => {
+    const history = chatHistory.renameFolder('Trabalho', ' Projetos ');
+    expect(folderOf(history)).toEqual({ a: 'Projetos', b: 'Estudos', c: 'Projetos', d: undefined });
+    expect(chatHistory.getChatHistory()).toEqual(history);
+  });
+
+  it('merges two folders when renaming one to the name of the other', () => {
+    const history = chatHistory.renameFolder('Estudos', 'Trabalho');
+    expect(chatHistory.getFolders(history)).toEqual(['Trabalho']);
+  });
+
+  it('keeps the folder when the new name is blank', () => {
+    const history = chatHistory.renameFolder('Trabalho', '   ');
+    expect(folderOf(history)).toEqual({ a: 'Trabalho', b: 'Estudos', c: 'Trabalho', d: undefined });
+  });
+
+  it('deletes a folder but keeps its chats', () => {
+    const history = chatHistory.deleteFolder('Trabalho');
+    expect(history.map(s => s.id)).toEqual(['a', 'b', 'c', 'd']);
+    expect(folderOf(history)).toEqual({ a: undefined, b: 'Estudos', c: undefined, d: undefined });
+  });
+});
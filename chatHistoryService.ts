@@ -1,51 +1,415 @@
+import { ChatSession, Message, GenerationSettings, Persona, ContextSummary, SessionTag } from '../types';
+import { deleteAttachments } from './attachmentService';
+import { withStore, withTransaction } from './database';
+import { buildTree, getAllMessages } from '../utils/messageTreeUtils';
 
-import { ChatSession } from '../types';
+// A session without its messages, which are stored one per record
+export interface SessionRecord extends Omit<ChatSession, 'messages' | 'branches'> {
+  // The last message of the active branch
+  activeLeafId?: string;
+}
+
+interface MessageRecord extends Message {
+  sessionId: string;
+}
 
-const CHAT_HISTORY_KEY = 'gemini_chat_history_v2';
+const MESSAGE_STORE = 'messageNodes';
+// How long deleted chats stay in the trash before they are removed for good
+export const TRASH_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
 
-export const getChatHistory = (): ChatSession[] => {
+type StorageErrorListener = (error: Error) => void;
+
+// In-memory copy of the history, so reads stay synchronous. Filled by loadChatHistory().
+let cachedHistory: ChatSession[] = [];
+// The last history known to be in IndexedDB; writes only send what changed since then
+let persistedHistory: ChatSession[] = [];
+// Writes run one after the other so they reach the database in order
+let writeQueue: Promise<void> = Promise.resolve();
+const storageErrorListeners = new Set<StorageErrorListener>();
+
+const notifyStorageError = (error: unknown) => {
+  const storageError = error instanceof Error ? error : new Error(String(error));
+  storageErrorListeners.forEach(listener => listener(storageError));
+};
+
+/**
+ * Registers a callback for failed history writes (e.g. when the storage quota is exceeded).
+ * @returns A function that removes the listener.
+ */
+export const onStorageError = (listener: StorageErrorListener): (() => void) => {
+  storageErrorListeners.add(listener);
+  return () => {
+    storageErrorListeners.delete(listener);
+  };
+};
+
+// Video links used to be saved with the API key appended; the key must not stay in the history
+const stripApiKeyFromVideoUrl = (message: Message): Message => {
+  if (!message.videoUrl || !/[?&]key=/.test(message.videoUrl)) return message;
+  const url = new URL(message.videoUrl);
+  url.searchParams.delete('key');
+  return { ...message, videoUrl: url.toString() };
+};
+
+/**
+ * Brings a message saved by an older version up to date. This runs on load rather than as a
+ * schema migration because messages converted from v2 data are only written late in the upgrade.
+ * @returns The same object when nothing had to change.
+ */
+const upgradeMessage = (message: Message): Message => {
+  const upgraded = stripApiKeyFromVideoUrl(message);
+  return upgraded.updatedAt === undefined ? { ...upgraded, updatedAt: upgraded.createdAt } : upgraded;
+};
+
+/**
+ * Adds the timestamps missing from sessions saved by older versions (and from imported archives),
+ * whose ids were their creation time. The last activity is taken from the newest message.
+ * @returns The same object when nothing had to change.
+ */
+const upgradeSession = <T extends SessionRecord>(session: T, messages: Message[]): T => {
+  if (session.createdAt !== undefined && session.updatedAt !== undefined) return session;
+  const createdAt = session.createdAt ?? (Date.parse(session.id) || Math.min(Date.now(), ...messages.map(m => m.createdAt)));
+  const updatedAt = session.updatedAt ?? Math.max(createdAt, ...messages.map(m => m.updatedAt ?? m.createdAt));
+  return { ...session, createdAt, updatedAt };
+};
+
+export const toSessionRecord = ({ messages, branches, ...sessionFields }: ChatSession): SessionRecord => {
+  return { ...sessionFields, activeLeafId: messages[messages.length - 1]?.id };
+};
+
+// Most recently active first
+export const compareSessions = (a: Pick<ChatSession, 'updatedAt'>, b: Pick<ChatSession, 'updatedAt'>) => b.updatedAt - a.updatedAt;
+
+export const loadChatHistory = async (): Promise<ChatSession[]> => {
   try {
-    const historyJson = localStorage.getItem(CHAT_HISTORY_KEY);
-    return historyJson ? JSON.parse(historyJson) : [];
+    const [storedSessions, messageRecords] = await Promise.all([
+      withStore<SessionRecord[]>('sessions', 'readonly', store => store.getAll()),
+      withStore<MessageRecord[]>(MESSAGE_STORE, 'readonly', store => store.getAll()),
+    ]);
+
+    const messagesBySession = new Map<string, Message[]>();
+    const upgradedMessages: MessageRecord[] = [];
+    for (const { sessionId, ...record } of messageRecords) {
+      const message = upgradeMessage(record);
+      if (message !== record) upgradedMessages.push({ ...message, sessionId });
+      const messages = messagesBySession.get(sessionId) ?? [];
+      messages.push(message);
+      messagesBySession.set(sessionId, messages);
+    }
+    const upgradedSessions: SessionRecord[] = [];
+    const sessionRecords = storedSessions.map(record => {
+      const session = upgradeSession(record, messagesBySession.get(record.id) ?? []);
+      if (session !== record) upgradedSessions.push(session);
+      return session;
+    });
+    if (upgradedMessages.length > 0 || upgradedSessions.length > 0) {
+      await withTransaction(['sessions', MESSAGE_STORE], 'readwrite', transaction => {
+        upgradedMessages.forEach(record => transaction.objectStore(MESSAGE_STORE).put(record));
+        upgradedSessions.forEach(record => transaction.objectStore('sessions').put(record));
+      });
+    }
+
+    cachedHistory = sessionRecords
+      .sort(compareSessions)
+      .map(({ activeLeafId, ...session }) => ({ ...session, ...buildTree(messagesBySession.get(session.id) ?? [], activeLeafId) }));
+    persistedHistory = cachedHistory;
+
+    const expiredIds = cachedHistory.filter(s => s.deletedAt !== undefined && s.deletedAt + TRASH_RETENTION_MS < Date.now()).map(s => s.id);
+    if (expiredIds.length > 0) {
+      deleteSessionsPermanently(expiredIds);
+    }
   } catch (error) {
-    console.error('Error loading chat history from localStorage:', error);
-    return [];
+    console.error('Error loading chat history from IndexedDB:', error);
+    notifyStorageError(error);
   }
+  return getChatHistory();
 };
 
-export const saveChatHistory = (history: ChatSession[]) => {
-  try {
-    localStorage.setItem(CHAT_HISTORY_KEY, JSON.stringify(history));
-  } catch (error) {
-    console.error('Error saving chat history to localStorage:', error);
+export const getChatHistory = (): ChatSession[] => {
+  return [...cachedHistory];
+};
+
+/**
+ * What changed between two snapshots of the history. Sessions and messages are compared
+ * by reference, so unchanged objects are skipped.
+ */
+export interface HistoryChanges {
+  sessions: ChatSession[];
+  removedSessionIds: string[];
+  messages: { sessionId: string; message: Message }[];
+  removedMessages: { sessionId: string; messageId: string }[];
+}
+
+type HistoryChangeListener = (changes: HistoryChanges) => void;
+
+const historyChangeListeners = new Set<HistoryChangeListener>();
+
+const diffHistory = (previous: ChatSession[], next: ChatSession[]): HistoryChanges => {
+  const changes: HistoryChanges = { sessions: [], removedSessionIds: [], messages: [], removedMessages: [] };
+  const removedSessions = new Map(previous.map(session => [session.id, session]));
+
+  for (const session of next) {
+    const previousSession = removedSessions.get(session.id);
+    removedSessions.delete(session.id);
+    if (previousSession === session) continue;
+    changes.sessions.push(session);
+
+    const removedMessages = new Map<string, Message>(previousSession ? getAllMessages(previousSession).map(m => [m.id, m]) : []);
+    for (const message of getAllMessages(session)) {
+      if (removedMessages.get(message.id) !== message) {
+        changes.messages.push({ sessionId: session.id, message });
+      }
+      removedMessages.delete(message.id);
+    }
+    for (const messageId of removedMessages.keys()) {
+      changes.removedMessages.push({ sessionId: session.id, messageId });
+    }
   }
+  changes.removedSessionIds = [...removedSessions.keys()];
+  return changes;
+};
+
+/**
+ * Registers a callback for local edits to the history, e.g. to queue them for sync.
+ * History replaced by applySyncedHistory() is not reported.
+ * @returns A function that removes the listener.
+ */
+export const onHistoryChange = (listener: HistoryChangeListener): (() => void) => {
+  historyChangeListeners.add(listener);
+  return () => {
+    historyChangeListeners.delete(listener);
+  };
+};
+
+// Writes only the sessions and messages whose objects changed between two snapshots
+const persistChanges = (previous: ChatSession[], next: ChatSession[]) => {
+  const changes = diffHistory(previous, next);
+  return withTransaction(['sessions', MESSAGE_STORE], 'readwrite', transaction => {
+    const sessionStore = transaction.objectStore('sessions');
+    const messageStore = transaction.objectStore(MESSAGE_STORE);
+
+    for (const session of changes.sessions) {
+      sessionStore.put(toSessionRecord(session));
+    }
+    for (const { sessionId, message } of changes.messages) {
+      const record: MessageRecord = { ...message, sessionId };
+      messageStore.put(record);
+    }
+    for (const { sessionId, messageId } of changes.removedMessages) {
+      messageStore.delete([sessionId, messageId]);
+    }
+    for (const sessionId of changes.removedSessionIds) {
+      sessionStore.delete(sessionId);
+      // Arrays sort after strings, so this covers every message id of the session
+      messageStore.delete(IDBKeyRange.bound([sessionId], [sessionId, []]));
+    }
+  });
+};
+
+const writeHistory = (history: ChatSession[]) => {
+  cachedHistory = history;
+  writeQueue = writeQueue
+    .then(async () => {
+      await persistChanges(persistedHistory, history);
+      persistedHistory = history;
+    })
+    .catch(error => {
+      // persistedHistory is left as is, so the next save retries these changes
+      console.error('Error saving chat history to IndexedDB:', error);
+      notifyStorageError(error);
+    });
+};
+
+/**
+ * Replaces the history and saves the changes in the background.
+ * Sessions and messages must be replaced, not mutated, for changes to be detected.
+ */
+export const saveChatHistory = (history: ChatSession[]) => {
+  const changes = diffHistory(cachedHistory, history);
+  writeHistory(history);
+  historyChangeListeners.forEach(listener => listener(changes));
 };
 
-export const createNewSession = (): ChatSession => {
+/**
+ * Saves history merged from the sync server, without reporting it back as local edits.
+ * @returns The history in display order.
+ */
+export const applySyncedHistory = (history: ChatSession[]): ChatSession[] => {
+  const sortedHistory = [...history].sort(compareSessions);
+  writeHistory(sortedHistory);
+  return getChatHistory();
+};
+
+/**
+ * @param isActivity - False for changes that only organize the chat list (renaming, pinning,
+ *   folders, tags), which must not move the chat to the top of it.
+ */
+const updateSession = (sessionId: string, update: (session: ChatSession) => ChatSession, isActivity = true): ChatSession[] => {
+    const history = getChatHistory().map(session => {
+        if (session.id !== sessionId) return session;
+        const updated = update(session);
+        return isActivity ? { ...updated, updatedAt: Date.now() } : updated;
+    });
+    saveChatHistory(history);
+    return history;
+};
+
+export const createNewSession = (persona?: Persona): ChatSession => {
+    const now = Date.now();
     const newSession: ChatSession = {
-        id: new Date().toISOString(),
+        id: crypto.randomUUID(),
         title: 'Novo Chat',
+        createdAt: now,
+        updatedAt: now,
         messages: [],
+        personaId: persona?.id,
+        settings: persona?.model ? { model: persona.model } : undefined,
     };
-    const history = getChatHistory();
-    history.unshift(newSession);
-    saveChatHistory(history);
+    saveChatHistory([newSession, ...getChatHistory()]);
     return newSession;
 }
 
 export const updateSessionTitle = (sessionId: string, title: string): ChatSession[] => {
-    const history = getChatHistory();
-    const session = history.find(s => s.id === sessionId);
-    if (session) {
-        session.title = title;
-        saveChatHistory(history);
-    }
+    return updateSession(sessionId, session => ({ ...session, title }));
+}
+
+/**
+ * Changes a message in place, keeping its id, whether or not it is on the active path.
+ * Used for answers that arrive after the chat moved on, like generated videos.
+ */
+export const updateMessage = (sessionId: string, messageId: string, update: (message: Message) => Message): ChatSession[] => {
+    const updateNode = (message: Message) => message.id === messageId ? { ...update(message), updatedAt: Date.now() } : message;
+    return updateSession(sessionId, session => ({
+        ...session,
+        messages: session.messages.map(updateNode),
+        branches: session.branches?.map(updateNode),
+    }));
+}
+
+// A title given by the user, which replaces the generated one for good
+export const renameSession = (sessionId: string, title: string): ChatSession[] => {
+    return updateSession(sessionId, session => ({ ...session, title: title.trim() || session.title, isTitleEdited: true }), false);
+}
+
+export const setSessionPinned = (sessionId: string, isPinned: boolean): ChatSession[] => {
+    return updateSession(sessionId, session => ({ ...session, isPinned: isPinned || undefined }), false);
+}
+
+// Files the chat in a folder (created on first use), or takes it out of its folder
+export const moveSessionToFolder = (sessionId: string, folder?: string): ChatSession[] => {
+    return updateSession(sessionId, session => ({ ...session, folder: folder?.trim() || undefined }), false);
+}
+
+export const setSessionTags = (sessionId: string, tags: SessionTag[]): ChatSession[] => {
+    return updateSession(sessionId, session => ({ ...session, tags: tags.length > 0 ? tags : undefined }), false);
+}
+
+// The folders in use, alphabetically
+export const getFolders = (sessions: ChatSession[]): string[] => {
+    return [...new Set(sessions.map(s => s.folder).filter((folder): folder is string => !!folder))]
+        .sort((a, b) => a.localeCompare(b, 'pt-BR'));
+}
+
+// Renaming to an existing folder's name merges the two
+export const renameFolder = (folder: string, newName: string): ChatSession[] => {
+    const name = newName.trim();
+    if (!name) return getChatHistory();
+    const history = getChatHistory().map(session => session.folder === folder ? { ...session, folder: name } : session);
+    saveChatHistory(history);
     return history;
 }
 
-export const deleteSession = (sessionId: string): ChatSession[] => {
-    let history = getChatHistory();
-    history = history.filter(s => s.id !== sessionId);
+// Removes the folder only; its chats go back to the main list
+export const deleteFolder = (folder: string): ChatSession[] => {
+    const history = getChatHistory().map(session => session.folder === folder ? { ...session, folder: undefined } : session);
     saveChatHistory(history);
     return history;
 }
+
+export const updateSessionSettings = (sessionId: string, settings: GenerationSettings): ChatSession[] => {
+    return updateSession(sessionId, session => ({ ...session, settings }));
+}
+
+export const updateSessionPersona = (sessionId: string, persona?: Persona): ChatSession[] => {
+    return updateSession(sessionId, session => ({
+        ...session,
+        personaId: persona?.id,
+        // Switching persona applies its default model, keeping the other parameters
+        settings: persona?.model ? { ...session.settings, model: persona.model } : session.settings,
+    }));
+}
+
+export const updateSessionInstructions = (sessionId: string, instructions: string): ChatSession[] => {
+    return updateSession(sessionId, session => ({ ...session, customInstructions: instructions || undefined }));
+}
+
+export const updateSessionSummary = (sessionId: string, contextSummary: ContextSummary): ChatSession[] => {
+    return updateSession(sessionId, session => ({ ...session, contextSummary }));
+}
+
+const getAttachmentIds = (sessions: ChatSession[]): string[] => {
+    return sessions.flatMap(session => getAllMessages(session)).flatMap(m => m.attachments ?? []).map(a => a.id);
+};
+
+export const isInTrash = (session: ChatSession): boolean => session.deletedAt !== undefined;
+
+// Moves chats to the trash, where they can be restored until TRASH_RETENTION_MS has passed
+export const moveSessionsToTrash = (sessionIds: string[]): ChatSession[] => {
+    const ids = new Set(sessionIds);
+    const deletedAt = Date.now();
+    const history = getChatHistory().map(session => ids.has(session.id) && !isInTrash(session) ? { ...session, deletedAt } : session);
+    saveChatHistory(history);
+    return history;
+}
+
+export const restoreSessions = (sessionIds: string[]): ChatSession[] => {
+    const ids = new Set(sessionIds);
+    const history = getChatHistory().map(session => ids.has(session.id) && isInTrash(session) ? { ...session, deletedAt: undefined } : session);
+    saveChatHistory(history);
+    return history;
+}
+
+// Removes chats and their stored files for good
+export const deleteSessionsPermanently = (sessionIds: string[]): ChatSession[] => {
+    const ids = new Set(sessionIds);
+    const history = getChatHistory().filter(s => !ids.has(s.id));
+    const deleted = getChatHistory().filter(s => ids.has(s.id));
+    if (deleted.length > 0) {
+        // Imported copies of a chat share its stored files, so keep the ones still referenced
+        const remainingIds = new Set(getAttachmentIds(history));
+        deleteAttachments(getAttachmentIds(deleted).filter(id => !remainingIds.has(id)));
+    }
+    saveChatHistory(history);
+    return history;
+}
+
+/**
+ * Merges imported sessions into the history.
+ * A session that is already there (same id, no new messages) is skipped; a different
+ * session whose id is taken is added under a new id. Archives from older versions are upgraded.
+ * @returns The new history and the number of sessions added.
+ */
+export const importSessions = (sessions: ChatSession[]): { history: ChatSession[]; importedCount: number } => {
+    const history = getChatHistory();
+    const sessionsById = new Map(history.map(session => [session.id, session]));
+    const added: ChatSession[] = [];
+    for (const session of sessions) {
+        const existing = sessionsById.get(session.id);
+        if (existing) {
+            const knownMessageIds = new Set(getAllMessages(existing).map(m => m.id));
+            if (getAllMessages(session).every(m => knownMessageIds.has(m.id))) continue;
+        }
+        const id = sessionsById.has(session.id) ? crypto.randomUUID() : session.id;
+        const importedSession: ChatSession = {
+            ...upgradeSession(session, getAllMessages(session)),
+            id,
+            messages: session.messages.map(upgradeMessage),
+            branches: session.branches?.map(upgradeMessage),
+        };
+        sessionsById.set(id, importedSession);
+        added.push(importedSession);
+    }
+    const mergedHistory = [...history, ...added].sort(compareSessions);
+    saveChatHistory(mergedHistory);
+    return { history: mergedHistory, importedCount: added.length };
+}
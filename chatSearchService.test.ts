@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { ChatSession, Message } from '../types';
+import { searchChats } from './chatSearchService';
+
+const message = (id: string, text: string, sender: Message['sender'] = 'user'): Message => ({
+  id, text, sender, createdAt: 0, updatedAt: 0,
+});
+
+const session = (id: string, title: string, messages: Message[], branches?: Message[]): ChatSession => ({
+  id, title, createdAt: 0, updatedAt: 0, messages, branches,
+});
+
+const recipes = session('recipes', 'Receitas de bolo', [
+  message('r1', 'Como faço um bolo de cenoura?'),
+  message('r2', 'Bata no liquidificador a cenoura, os ovos e o óleo.', 'model'),
+]);
+const code = session('code', 'Dúvidas de programação', [
+  message('c1', 'Qual a função do useEffect no React?'),
+  message('c2', 'Ele executa efeitos colaterais depois da renderização.', 'model'),
+]);
+
+const keys = (sessions: ChatSession[], query: string) => {
+  return searchChats(sessions, query).map(result => `${result.sessionId}:${result.messageId ?? 'title'}`);
+};
+
+describe('searchChats', () => {
+  it('ignores accents and case', () => {
+    expect(keys([recipes, code], 'PROGRAMACAO')).toEqual(['code:title']);
+    expect(keys([recipes, code], 'funcao')).toEqual(['code:c1']);
+  });
+
+  it('matches words as prefixes, so results show up while typing', () => {
+    expect(keys([recipes, code], 'renderiz')).toEqual(['code:c2']);
+  });
+
+  it('requires every word of the query', () => {
+    expect(keys([recipes, code], 'bolo cenoura')).toEqual(['recipes:r1']);
+    expect(keys([recipes, code], 'bolo react')).toEqual([]);
+  });
+
+  it('ranks title matches above matches in messages', () => {
+    expect(keys([recipes, code], 'bolo')).toEqual(['recipes:title', 'recipes:r1']);
+  });
+
+  it('breaks ties in favour of the more recent chat', () => {
+    const older = session('older', 'Outro chat', [message('o1', 'Receita de bolo de cenoura')]);
+    expect(keys([recipes, older], 'cenoura')).toEqual(['recipes:r1', 'recipes:r2', 'older:o1']);
+  });
+
+  it('only searches the active branch', () => {
+    const edited = session('edited', 'Editado', [message('e2', 'Versão nova')], [message('e1', 'Versão antiga')]);
+    expect(keys([edited], 'antiga')).toEqual([]);
+    expect(keys([edited], 'nova')).toEqual(['edited:e2']);
+  });
+
+  it('follows changes to the history', () => {
+    expect(keys([recipes, code], 'liquidificador')).toEqual(['recipes:r2']);
+    const withoutAnswer = { ...recipes, messages: [recipes.messages[0]] };
+    expect(keys([withoutAnswer, code], 'liquidificador')).toEqual([]);
+    expect(keys([code], 'cenoura')).toEqual([]);
+  });
+
+  it('highlights the matches in the original text', () => {
+    const [result] = searchChats([code], 'funcao react');
+    expect(result.snippet).toEqual([
+      { text: 'Qual a ', isMatch: false },
+      { text: 'função', isMatch: true },
+      { text: ' do useEffect no ', isMatch: false },
+      { text: 'React', isMatch: true },
+      { text: '?', isMatch: false },
+    ]);
+  });
+
+  it('cuts long messages around the first match', () => {
+    const long = session('long', 'Longo', [message('l1', `${'a '.repeat(100)}alvo${' b'.repeat(100)}`)]);
+    const [{ snippet }] = searchChats([long], 'alvo');
+    expect(snippet[0]).toEqual({ text: '…', isMatch: false });
+    expect(snippet[snippet.length - 1]).toEqual({ text: '…', isMatch: false });
+    expect(snippet.filter(segment => segment.isMatch)).toEqual([{ text: 'alvo', isMatch: true }]);
+  });
+});
@@ -0,0 +1,179 @@
+import { ChatSession } from '../types';
+
+const MAX_RESULTS = 50;
+const SNIPPET_CONTEXT_BEFORE = 40;
+const SNIPPET_LENGTH = 140;
+// A title match says more about a chat than a word somewhere in a long answer
+const TITLE_WEIGHT = 3;
+
+// A searchable piece of text: a chat title or a message body
+interface SearchDocument {
+  sessionId: string;
+  // Undefined for the session title
+  messageId?: string;
+  sender?: 'user' | 'model';
+  text: string;
+}
+
+export interface SnippetSegment {
+  text: string;
+  isMatch: boolean;
+}
+
+export interface ChatSearchResult {
+  sessionId: string;
+  sessionTitle: string;
+  messageId?: string;
+  sender?: 'user' | 'model';
+  snippet: SnippetSegment[];
+}
+
+// Inverted index: token -> document key -> number of occurrences
+const index = new Map<string, Map<string, number>>();
+const documents = new Map<string, SearchDocument>();
+// The session objects the index was built from; sessions are replaced, never mutated, when they change
+const indexedSessions = new Map<string, { session: ChatSession; documentKeys: string[] }>();
+
+/**
+ * Lowercases text and strips accents one character at a time, so positions in the
+ * result match positions in the original (needed to highlight the original text).
+ */
+const foldText = (text: string): string => {
+  let folded = '';
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    folded += char.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase()[0] ?? char;
+  }
+  return folded;
+};
+
+const tokenize = (text: string): string[] => {
+  return foldText(text).match(/[\p{L}\p{N}]+/gu) ?? [];
+};
+
+const addDocument = (key: string, document: SearchDocument) => {
+  documents.set(key, document);
+  for (const token of tokenize(document.text)) {
+    const postings = index.get(token) ?? new Map<string, number>();
+    postings.set(key, (postings.get(key) ?? 0) + 1);
+    index.set(token, postings);
+  }
+};
+
+const removeDocument = (key: string) => {
+  const document = documents.get(key);
+  if (!document) return;
+  for (const token of new Set(tokenize(document.text))) {
+    const postings = index.get(token);
+    postings?.delete(key);
+    if (postings?.size === 0) index.delete(token);
+  }
+  documents.delete(key);
+};
+
+const removeSession = (sessionId: string) => {
+  indexedSessions.get(sessionId)?.documentKeys.forEach(removeDocument);
+  indexedSessions.delete(sessionId);
+};
+
+// Re-indexes only the sessions whose objects changed since the last search
+const updateIndex = (sessions: ChatSession[]) => {
+  const staleSessionIds = new Set(indexedSessions.keys());
+  for (const session of sessions) {
+    staleSessionIds.delete(session.id);
+    if (indexedSessions.get(session.id)?.session === session) continue;
+
+    removeSession(session.id);
+    const titleKey = `${session.id}:title`;
+    addDocument(titleKey, { sessionId: session.id, text: session.title });
+    const documentKeys = [titleKey];
+    // Only the active branch is searched, so every result can be shown
+    for (const message of session.messages) {
+      const key = `${session.id}:${message.id}`;
+      addDocument(key, { sessionId: session.id, messageId: message.id, sender: message.sender, text: message.text });
+      documentKeys.push(key);
+    }
+    indexedSessions.set(session.id, { session, documentKeys });
+  }
+  staleSessionIds.forEach(removeSession);
+};
+
+// Cuts a window of text around the first match and marks every match inside it
+const buildSnippet = (text: string, terms: string[]): SnippetSegment[] => {
+  const folded = foldText(text);
+  const firstMatch = Math.min(...terms.map(term => folded.indexOf(term)).filter(i => i >= 0));
+  const start = Number.isFinite(firstMatch) ? Math.max(0, firstMatch - SNIPPET_CONTEXT_BEFORE) : 0;
+  const end = Math.min(text.length, start + SNIPPET_LENGTH);
+
+  const matches: [number, number][] = [];
+  for (const term of terms) {
+    for (let i = folded.indexOf(term, start); i >= 0 && i < end; i = folded.indexOf(term, i + term.length)) {
+      matches.push([i, Math.min(i + term.length, end)]);
+    }
+  }
+  matches.sort((a, b) => a[0] - b[0]);
+
+  const segments: SnippetSegment[] = [];
+  let position = start;
+  for (const [matchStart, matchEnd] of matches) {
+    if (matchStart < position) continue; // overlaps a previous match
+    if (matchStart > position) segments.push({ text: text.slice(position, matchStart), isMatch: false });
+    segments.push({ text: text.slice(matchStart, matchEnd), isMatch: true });
+    position = matchEnd;
+  }
+  if (position < end) segments.push({ text: text.slice(position, end), isMatch: false });
+
+  if (start > 0) segments.unshift({ text: '…', isMatch: false });
+  if (end < text.length) segments.push({ text: '…', isMatch: false });
+  return segments;
+};
+
+/**
+ * Searches the titles and messages of every chat.
+ * Every word of the query must appear; words match as prefixes, so results show up while typing.
+ * Accents and case are ignored.
+ * @param sessions - The chat history, as passed to the sidebar.
+ * @param query - The text typed in the search box.
+ * @returns The best matches, one per message (or title), with a highlighted snippet.
+ */
+export const searchChats = (sessions: ChatSession[], query: string): ChatSearchResult[] => {
+  const terms = [...new Set(tokenize(query))];
+  if (terms.length === 0) return [];
+  updateIndex(sessions);
+
+  let scores: Map<string, number> | null = null;
+  for (const term of terms) {
+    const termScores = new Map<string, number>();
+    for (const [token, postings] of index) {
+      if (!token.startsWith(term)) continue;
+      for (const [key, count] of postings) {
+        termScores.set(key, (termScores.get(key) ?? 0) + count);
+      }
+    }
+    // Keep only the documents that contain every term
+    if (scores) {
+      const previousScores: Map<string, number> = scores;
+      scores = new Map([...termScores].filter(([key]) => previousScores.has(key)).map(([key, score]) => [key, score + previousScores.get(key)!]));
+    } else {
+      scores = termScores;
+    }
+    if (scores.size === 0) return [];
+  }
+
+  const sessionOrder = new Map(sessions.map((session, i) => [session.id, i]));
+  return [...scores!]
+    .map(([key, score]) => {
+      const document = documents.get(key)!;
+      return { document, score: document.messageId ? score : score * TITLE_WEIGHT };
+    })
+    // Best matches first; ties go to the more recent chat
+    .sort((a, b) => b.score - a.score || sessionOrder.get(a.document.sessionId)! - sessionOrder.get(b.document.sessionId)!)
+    .slice(0, MAX_RESULTS)
+    .map(({ document }) => ({
+      sessionId: document.sessionId,
+      sessionTitle: indexedSessions.get(document.sessionId)!.session.title,
+      messageId: document.messageId,
+      sender: document.sender,
+      snippet: buildSnippet(document.text, terms),
+    }));
+};
@@ -0,0 +1,152 @@
+// Runs code blocks from answers. The code comes from a model, so every run gets a fresh
+// sandboxed iframe with an opaque origin (no access to the app's storage, API keys or DOM)
+// and executes in a Web Worker inside it. Removing the iframe stops everything at once.
+
+export type RunnableLanguage = 'javascript' | 'typescript' | 'python';
+
+export interface CodeOutputLine {
+  stream: 'stdout' | 'stderr';
+  text: string;
+}
+
+export interface CodeRunResult {
+  output: CodeOutputLine[];
+  // The uncaught error or exception that ended the run
+  error?: string;
+  timedOut: boolean;
+  // Output past MAX_OUTPUT_CHARS is dropped
+  isTruncated: boolean;
+  // Time spent running the code, without loading the runtime
+  durationMs: number;
+}
+
+export const RUN_TIME_LIMIT_MS = 10 * 1000;
+// Pyodide downloads about 10 MB on first use
+const LOAD_TIME_LIMIT_MS = 60 * 1000;
+const MAX_OUTPUT_CHARS = 100 * 1000;
+
+const PYODIDE_URL = 'https://cdn.jsdelivr.net/pyodide/v0.27.5/full/pyodide.js';
+const TYPESCRIPT_URL = 'https://cdn.jsdelivr.net/npm/typescript@5.8.2/lib/typescript.js';
+
+const LANGUAGE_ALIASES: Record<string, RunnableLanguage> = {
+  js: 'javascript',
+  javascript: 'javascript',
+  mjs: 'javascript',
+  ts: 'typescript',
+  typescript: 'typescript',
+  py: 'python',
+  python: 'python',
+  python3: 'python',
+};
+
+/**
+ * @param language - The language of a markdown code block, e.g. "py".
+ * @returns The runtime for it, or undefined if the language cannot be run.
+ */
+export const getRunnableLanguage = (language: string): RunnableLanguage | undefined => {
+  return LANGUAGE_ALIASES[language.toLowerCase()];
+};
+
+// Worker messages: output while running, "started" once the runtime has loaded, "done" at the end
+const WORKER_SOURCE = `
+const send = (message) => postMessage(message);
+const format = (value) => {
+  if (typeof value === 'string') return value;
+  try {
+    return JSON.stringify(value) ?? String(value);
+  } catch {
+    return String(value);
+  }
+};
+const print = (stream) => (...values) => send({ type: 'output', stream, text: values.map(format).join(' ') });
+
+onmessage = async ({ data: { language, code } }) => {
+  try {
+    if (language === 'python') {
+      importScripts(${JSON.stringify(PYODIDE_URL)});
+      const pyodide = await loadPyodide({ stdout: print('stdout'), stderr: print('stderr') });
+      await pyodide.loadPackagesFromImports(code);
+      send({ type: 'started' });
+      await pyodide.runPythonAsync(code);
+    } else {
+      let source = code;
+      if (language === 'typescript') {
+        importScripts(${JSON.stringify(TYPESCRIPT_URL)});
+        source = ts.transpile(code, { target: ts.ScriptTarget.ES2020 });
+      }
+      console.log = console.info = console.debug = print('stdout');
+      console.warn = console.error = print('stderr');
+      const AsyncFunction = (async () => {}).constructor;
+      send({ type: 'started' });
+      await new AsyncFunction(source)();
+    }
+    send({ type: 'done' });
+  } catch (error) {
+    // Python errors carry the traceback in their message
+    send({ type: 'done', error: language === 'python' && error instanceof Error ? error.message : String(error) });
+  }
+};
+`;
+
+// Embeds a value in an inline script without letting it close the <script> tag
+const toScriptLiteral = (value: unknown): string => JSON.stringify(value).replace(/</g, '\\u003c');
+
+const buildSandboxDocument = (language: RunnableLanguage, code: string): string => `<!DOCTYPE html>
+<script>
+  const worker = new Worker(URL.createObjectURL(new Blob([${toScriptLiteral(WORKER_SOURCE)}], { type: 'text/javascript' })));
+  worker.onmessage = (event) => parent.postMessage(event.data, '*');
+  worker.onerror = (event) => parent.postMessage({ type: 'done', error: event.message }, '*');
+  worker.postMessage(${toScriptLiteral({ language, code })});
+</script>`;
+
+/**
+ * Runs a snippet in a sandbox and collects what it prints.
+ * The run is stopped after RUN_TIME_LIMIT_MS, not counting the time to load the runtime.
+ * @param language - Which runtime to use.
+ * @param code - The snippet; JavaScript and TypeScript may use top-level await.
+ * @returns The output, never rejecting: failures end up in `error` or `timedOut`.
+ */
+export const runCode = (language: RunnableLanguage, code: string): Promise<CodeRunResult> => {
+  return new Promise(resolve => {
+    const iframe = document.createElement('iframe');
+    iframe.sandbox.add('allow-scripts');
+    iframe.style.display = 'none';
+
+    const output: CodeOutputLine[] = [];
+    let outputLength = 0;
+    let isTruncated = false;
+    let startedAt: number | undefined;
+
+    const finish = (error?: string, timedOut = false) => {
+      clearTimeout(timer);
+      window.removeEventListener('message', handleMessage);
+      iframe.remove();
+      resolve({ output, error, timedOut, isTruncated, durationMs: startedAt ? Date.now() - startedAt : 0 });
+    };
+
+    let timer = setTimeout(() => finish('O ambiente de execução demorou demais para carregar. Verifique sua conexão e tente novamente.'), LOAD_TIME_LIMIT_MS);
+
+    const handleMessage = (event: MessageEvent) => {
+      if (event.source !== iframe.contentWindow) return;
+      const message = event.data;
+      if (message?.type === 'started') {
+        startedAt = Date.now();
+        clearTimeout(timer);
+        timer = setTimeout(() => finish(undefined, true), RUN_TIME_LIMIT_MS);
+      } else if (message?.type === 'output') {
+        if (outputLength + message.text.length > MAX_OUTPUT_CHARS) {
+          isTruncated = true;
+          return;
+        }
+        outputLength += message.text.length;
+        output.push({ stream: message.stream, text: message.text });
+      } else if (message?.type === 'done') {
+        finish(message.error);
+      }
+    };
+
+    window.addEventListener('message', handleMessage);
+    iframe.srcdoc = buildSandboxDocument(language, code);
+    document.body.appendChild(iframe);
+  });
+};
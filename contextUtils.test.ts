@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { ContextSummary, Message } from '../types';
+import { countMessageTokens, estimateTokens, getContextWindow, getMessagesToSummarize } from './contextUtils';
+
+// 4 characters make a token, so each of these messages is 100 tokens
+const message = (id: string, extra: Partial<Message> = {}): Message => ({
+    id, createdAt: 0, updatedAt: 0, sender: 'user', text: 'x'.repeat(400), ...extra,
+});
+
+const messages = ['m0', 'm1', 'm2', 'm3', 'm4'].map(id => message(id));
+const ids = (list: Message[]) => list.map(m => m.id);
+
+// 10 tokens
+const summaryUpTo = (upToMessageId: string): ContextSummary => ({ text: 's'.repeat(40), upToMessageId });
+
+describe('estimateTokens', () => {
+    it('counts a token per 4 characters, rounding up', () => {
+        expect(estimateTokens('')).toBe(0);
+        expect(estimateTokens('abcd')).toBe(1);
+        expect(estimateTokens('abcde')).toBe(2);
+    });
+});
+
+describe('countMessageTokens', () => {
+    it('adds the attachments sent with the message', () => {
+        const withAttachments = message('m', {
+            text: 'abcd',
+            attachments: [
+                { id: 'image', mimeType: 'image/png' },
+                { id: 'document', mimeType: 'application/pdf' },
+                // Videos are not sent back to the model
+                { id: 'video', mimeType: 'video/mp4' },
+            ],
+        });
+        expect(countMessageTokens(withAttachments)).toBe(1 + 258 + 1000);
+    });
+
+    it('counts images saved inline by older versions', () => {
+        expect(countMessageTokens(message('m', { text: '', imageUrl: 'data:image/png;base64,AAAA' }))).toBe(258);
+        expect(countMessageTokens(message('m', { text: '', imageUrl: 'blob:expired' }))).toBe(0);
+    });
+});
+
+describe('getContextWindow', () => {
+    it('sends every message that fits the budget', () => {
+        expect(getContextWindow(messages, undefined, 1000)).toEqual({ start: 0, summary: undefined, tokenCount: 500, hasUnsummarizedMessages: false });
+    });
+
+    it('drops the oldest messages that do not fit', () => {
+        expect(getContextWindow(messages, undefined, 250)).toEqual({ start: 3, summary: undefined, tokenCount: 200, hasUnsummarizedMessages: true });
+    });
+
+    it('always sends the last message', () => {
+        expect(getContextWindow(messages, undefined, 10)).toMatchObject({ start: 4, tokenCount: 100 });
+    });
+
+    it('replaces the summarized messages with the summary', () => {
+        const summary = summaryUpTo('m2');
+        expect(getContextWindow(messages, summary, 1000)).toEqual({ start: 3, summary, tokenCount: 210, hasUnsummarizedMessages: false });
+    });
+
+    it('ignores a summary of another branch', () => {
+        expect(getContextWindow(messages, summaryUpTo('elsewhere'), 1000)).toMatchObject({ start: 0, summary: undefined, tokenCount: 500 });
+    });
+});
+
+describe('getMessagesToSummarize', () => {
+    it('returns nothing while the history fits', () => {
+        expect(getMessagesToSummarize(messages, undefined, 1000)).toEqual([]);
+    });
+
+    it('folds enough older messages to bring the rest down to half the budget', () => {
+        expect(ids(getMessagesToSummarize(messages, undefined, 250))).toEqual(['m0', 'm1', 'm2', 'm3']);
+    });
+
+    it('only folds messages the summary does not cover yet', () => {
+        expect(ids(getMessagesToSummarize(messages, summaryUpTo('m1'), 250))).toEqual(['m2', 'm3']);
+    });
+});
@@ -0,0 +1,71 @@
+import { Message, ContextSummary } from '../types';
+
+// Context budgets apply to the history sent with each turn, not to the model's answer
+export const DEFAULT_CONTEXT_TOKEN_BUDGET = 32000;
+// When older turns have to be summarized, fold enough of them to bring the rest down to this
+// share of the budget, so a summary is not requested again on every following turn
+const SUMMARY_TARGET_RATIO = 0.5;
+
+// Rough figures: there is no tokenizer in the browser, and counting through the API would cost a request per message
+const CHARS_PER_TOKEN = 4;
+const IMAGE_TOKENS = 258;
+const DOCUMENT_TOKENS = 1000;
+
+export const estimateTokens = (text: string): number => {
+    return Math.ceil(text.length / CHARS_PER_TOKEN);
+};
+
+// Estimated size of a message when sent as history, attachments included
+export const countMessageTokens = (message: Message): number => {
+    // Videos are not sent back to the model (see getMessageParts)
+    const attachmentTokens = (message.attachments ?? [])
+        .filter(attachment => !attachment.mimeType.startsWith('video/'))
+        .reduce((total, attachment) => total + (attachment.mimeType.startsWith('image/') ? IMAGE_TOKENS : DOCUMENT_TOKENS), 0);
+    const imageTokens = message.imageUrl?.startsWith('data:') ? IMAGE_TOKENS : 0;
+    return estimateTokens(message.text) + attachmentTokens + imageTokens;
+};
+
+export interface ContextWindow {
+    // Index of the first message sent in full; earlier ones are summarized or left out
+    start: number;
+    // The session's summary, if it still applies to this branch
+    summary?: ContextSummary;
+    // Estimated tokens of the summary plus the messages from `start`
+    tokenCount: number;
+    // True when some messages before `start` are not covered by the summary
+    hasUnsummarizedMessages: boolean;
+}
+
+/**
+ * Works out which messages fit in the context budget, newest first.
+ * Messages up to the summarized one are never sent; the last message is always sent.
+ * @param messages - The active branch, ending with the current prompt.
+ * @param summary - The session's rolling summary.
+ * @param budget - Maximum estimated tokens for the summary and the messages.
+ */
+export const getContextWindow = (messages: Message[], summary: ContextSummary | undefined, budget: number): ContextWindow => {
+    const summarizedIndex = summary ? messages.findIndex(m => m.id === summary.upToMessageId) : -1;
+    const activeSummary = summarizedIndex >= 0 ? summary : undefined;
+    let tokenCount = activeSummary ? estimateTokens(activeSummary.text) : 0;
+
+    let start = messages.length;
+    while (start > summarizedIndex + 1) {
+        const messageTokens = countMessageTokens(messages[start - 1]);
+        if (start < messages.length && tokenCount + messageTokens > budget) break;
+        tokenCount += messageTokens;
+        start--;
+    }
+    return { start, summary: activeSummary, tokenCount, hasUnsummarizedMessages: start > summarizedIndex + 1 };
+};
+
+/**
+ * Picks the older messages to fold into the summary when the history no longer fits.
+ * @returns The messages to summarize (oldest first), or an empty array if everything fits.
+ */
+export const getMessagesToSummarize = (messages: Message[], summary: ContextSummary | undefined, budget: number): Message[] => {
+    const { summary: activeSummary, hasUnsummarizedMessages } = getContextWindow(messages, summary, budget);
+    if (!hasUnsummarizedMessages) return [];
+    const summarizedIndex = activeSummary ? messages.findIndex(m => m.id === activeSummary.upToMessageId) : -1;
+    const { start } = getContextWindow(messages, activeSummary, budget * SUMMARY_TARGET_RATIO);
+    return messages.slice(summarizedIndex + 1, start);
+};
@@ -0,0 +1,107 @@
+import { IDBFactory } from 'fake-indexeddb';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const DB_NAME = 'chat_do_robertin';
+const LEGACY_CHAT_HISTORY_KEY = 'gemini_chat_history_v2';
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-7000-8000-000000000000$/;
+
+const legacySessions = [
+    { id: '2024-03-01T10:00:00.000Z', title: 'Receitas de bolo', updatedAt: 2, messages: [
+        { sender: 'user', text: 'Como faço um bolo de cenoura?' },
+        { sender: 'model', text: 'Bata a cenoura, os ovos e o óleo.' },
+    ] },
+    { id: '2024-03-02T15:30:00.000Z', title: 'Dúvidas de programação', updatedAt: 1, messages: [
+        { sender: 'user', text: 'Qual a função do useEffect?' },
+    ] },
+];
+
+const openDatabase = async () => {
+    vi.resetModules();
+    const database = await import('./database');
+    return database.openDatabase();
+};
+
+const getAll = (db: IDBDatabase, storeName: string): Promise<any[]> => {
+    return new Promise((resolve, reject) => {
+        const request = db.transaction(storeName).objectStore(storeName).getAll();
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+};
+
+// Creates the database as v2 left it, with sessions still keyed by their creation time
+const createVersion2Database = (): Promise<void> => {
+    return new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, 2);
+        request.onupgradeneeded = () => {
+            const db = request.result;
+            db.createObjectStore('attachments', { keyPath: 'id' });
+            const sessionStore = db.createObjectStore('sessions', { keyPath: 'id' });
+            const messageStore = db.createObjectStore('messages', { keyPath: ['sessionId', 'index'] });
+            for (const { messages, ...session } of legacySessions) {
+                sessionStore.put(session);
+                messages.forEach((message, index) => messageStore.put({ ...message, sessionId: session.id, index }));
+            }
+        };
+        request.onsuccess = () => {
+            request.result.close();
+            resolve();
+        };
+        request.onerror = () => reject(request.error);
+    });
+};
+
+const expectMigratedHistory = async (db: IDBDatabase) => {
+    expect([...db.objectStoreNames]).not.toContain('messages');
+    const sessions = await getAll(db, 'sessions');
+    const nodes = await getAll(db, 'messageNodes');
+
+    expect(sessions.map(session => session.title).sort()).toEqual(['Dúvidas de programação', 'Receitas de bolo']);
+    for (const session of sessions) {
+        expect(session.id).toMatch(UUID);
+        const legacySession = legacySessions.find(legacy => legacy.title === session.title)!;
+        expect(session.createdAt).toBe(Date.parse(legacySession.id));
+
+        // Walking up from the active leaf gives back the messages in their original order
+        const sessionNodes = nodes.filter(node => node.sessionId === session.id);
+        const path: string[] = [];
+        for (let node = sessionNodes.find(n => n.id === session.activeLeafId); node; node = sessionNodes.find(n => n.id === node.parentId)) {
+            path.unshift(node.text);
+        }
+        expect(path).toEqual(legacySession.messages.map(message => message.text));
+    }
+    expect(nodes).toHaveLength(3);
+};
+
+describe('openDatabase', () => {
+    beforeEach(() => {
+        const storage = new Map<string, string>();
+        vi.stubGlobal('indexedDB', new IDBFactory());
+        vi.stubGlobal('localStorage', {
+            getItem: (key: string) => storage.get(key) ?? null,
+            setItem: (key: string, value: string) => storage.set(key, value),
+            removeItem: (key: string) => storage.delete(key),
+        });
+    });
+
+    it('moves the legacy localStorage history into sessions with UUIDs', async () => {
+        localStorage.setItem(LEGACY_CHAT_HISTORY_KEY, JSON.stringify(legacySessions));
+        const db = await openDatabase();
+        await expectMigratedHistory(db);
+        expect(localStorage.getItem(LEGACY_CHAT_HISTORY_KEY)).toBeNull();
+        db.close();
+    });
+
+    it('gives the sessions of a v2 database UUIDs without losing their messages', async () => {
+        await createVersion2Database();
+        const db = await openDatabase();
+        await expectMigratedHistory(db);
+        db.close();
+    });
+
+    it('starts empty without a legacy history', async () => {
+        const db = await openDatabase();
+        expect(await getAll(db, 'sessions')).toEqual([]);
+        db.close();
+    });
+});
@@ -0,0 +1,208 @@
+const DB_NAME = 'chat_do_robertin';
+// Where chats were kept before moving to IndexedDB
+const LEGACY_CHAT_HISTORY_KEY = 'gemini_chat_history_v2';
+
+// Copies the old single-blob localStorage history into per-session and per-message records
+const importLegacyChatHistory = (transaction: IDBTransaction) => {
+    let legacySessions: any[];
+    try {
+        legacySessions = JSON.parse(localStorage.getItem(LEGACY_CHAT_HISTORY_KEY) || '[]');
+    } catch (error) {
+        console.error('Error reading legacy chat history from localStorage:', error);
+        return;
+    }
+
+    const sessionStore = transaction.objectStore('sessions');
+    const messageStore = transaction.objectStore('messages');
+    // Legacy ids are creation timestamps, so two chats can share one; the later chat gets a new id
+    // instead of overwriting the earlier one
+    const usedIds = new Set<string>();
+    for (const { messages = [], ...legacySession } of legacySessions) {
+        const id = usedIds.has(legacySession.id) ? crypto.randomUUID() : legacySession.id;
+        usedIds.add(id);
+        sessionStore.put({ ...legacySession, id });
+        messages.forEach((message: object, index: number) => {
+            messageStore.put({ ...message, sessionId: id, index });
+        });
+    }
+
+    // Only free the localStorage quota once the import has been committed
+    transaction.addEventListener('complete', () => localStorage.removeItem(LEGACY_CHAT_HISTORY_KEY));
+};
+
+// Ids of chats created before sessions got UUIDs: their creation time as an ISO string
+const LEGACY_SESSION_ID = /^\d{4}-\d{2}-\d{2}T/;
+
+// A UUIDv7 holding the chat's creation time, with the random bits left at zero. It depends only on
+// the legacy id, so every device that migrates the same synced chat gives it the same new id.
+const toSessionUuid = (createdAt: number): string => {
+    const time = createdAt.toString(16).padStart(12, '0');
+    return `${time.slice(0, 8)}-${time.slice(8)}-7000-8000-000000000000`;
+};
+
+// The creation time held by a legacy session id, or NaN for any other id
+const getLegacyCreatedAt = (sessionId: string): number => {
+    return LEGACY_SESSION_ID.test(sessionId) ? Date.parse(sessionId) : NaN;
+};
+
+const toCurrentSessionId = (sessionId: string): string => {
+    const createdAt = getLegacyCreatedAt(sessionId);
+    return Number.isNaN(createdAt) ? sessionId : toSessionUuid(createdAt);
+};
+
+// Gives every message an id and a link to the one before it, and records each session's last message.
+// Sessions get their UUIDs here too: v5 cannot move them itself, as its reads would run before these writes.
+const convertMessagesToTree = (db: IDBDatabase, transaction: IDBTransaction) => {
+    const messagesRequest = transaction.objectStore('messages').getAll();
+    messagesRequest.onsuccess = () => {
+        const nodeStore = transaction.objectStore('messageNodes');
+        const lastMessageIds = new Map<string, string>();
+        const createdAt = Date.now();
+        // Records come back ordered by session and then by position
+        for (const { index, ...message } of messagesRequest.result) {
+            const id = crypto.randomUUID();
+            const sessionId = toCurrentSessionId(message.sessionId);
+            nodeStore.put({ ...message, sessionId, id, parentId: lastMessageIds.get(sessionId), createdAt: createdAt + index });
+            lastMessageIds.set(sessionId, id);
+        }
+        db.deleteObjectStore('messages');
+
+        const sessionStore = transaction.objectStore('sessions');
+        const sessionsRequest = sessionStore.getAll();
+        sessionsRequest.onsuccess = () => {
+            for (const session of sessionsRequest.result) {
+                const id = toCurrentSessionId(session.id);
+                if (id !== session.id) sessionStore.delete(session.id);
+                sessionStore.put({
+                    ...session,
+                    id,
+                    createdAt: session.createdAt ?? getLegacyCreatedAt(session.id),
+                    activeLeafId: lastMessageIds.get(id),
+                });
+            }
+        };
+    };
+};
+
+// Moves the chats with legacy ids, and their messages, to UUIDs
+const migrateLegacySessionIds = (transaction: IDBTransaction) => {
+    const sessionStore = transaction.objectStore('sessions');
+    const sessionsRequest = sessionStore.getAll();
+    sessionsRequest.onsuccess = () => {
+        const newIds = new Map<string, string>();
+        for (const session of sessionsRequest.result) {
+            const createdAt = getLegacyCreatedAt(session.id);
+            if (Number.isNaN(createdAt)) continue;
+            const id = toSessionUuid(createdAt);
+            newIds.set(session.id, id);
+            sessionStore.delete(session.id);
+            sessionStore.put({ ...session, id, createdAt: session.createdAt ?? createdAt });
+        }
+        if (newIds.size === 0) return;
+
+        const nodeStore = transaction.objectStore('messageNodes');
+        const nodesRequest = nodeStore.getAll();
+        nodesRequest.onsuccess = () => {
+            for (const node of nodesRequest.result) {
+                const sessionId = newIds.get(node.sessionId);
+                if (!sessionId) continue;
+                nodeStore.delete([node.sessionId, node.id]);
+                nodeStore.put({ ...node, sessionId });
+            }
+        };
+    };
+};
+
+/**
+ * Schema migrations, applied in order when the database is opened.
+ * Migration `i` upgrades the schema from version `i` to `i + 1`, so the database
+ * version is always `MIGRATIONS.length`. Never edit an existing entry; append a new one.
+ */
+const MIGRATIONS: ((db: IDBDatabase, transaction: IDBTransaction) => void)[] = [
+    // v1: binary attachments (uploaded files) referenced by messages
+    (db) => {
+        db.createObjectStore('attachments', { keyPath: 'id' });
+    },
+    // v2: chat sessions (without messages) and their messages, keyed by position in the session
+    (db, transaction) => {
+        db.createObjectStore('sessions', { keyPath: 'id' });
+        db.createObjectStore('messages', { keyPath: ['sessionId', 'index'] });
+        importLegacyChatHistory(transaction);
+    },
+    // v3: messages form a tree (edits and regenerations branch off), so they are keyed by id
+    (db, transaction) => {
+        db.createObjectStore('messageNodes', { keyPath: ['sessionId', 'id'] });
+        convertMessagesToTree(db, transaction);
+    },
+    // v4: the knowledge base taught through "Aprender", and its passages with their embeddings
+    (db) => {
+        db.createObjectStore('knowledgeEntries', { keyPath: 'id' });
+        const chunkStore = db.createObjectStore('knowledgeChunks', { keyPath: 'id' });
+        chunkStore.createIndex('entryId', 'entryId');
+    },
+    // v5: sessions still identified by their creation time get UUIDs
+    (db, transaction) => {
+        // Upgrading from before v3, the tree conversion has not run yet and gives the sessions UUIDs itself
+        if (db.objectStoreNames.contains('messages')) return;
+        migrateLegacySessionIds(transaction);
+    },
+];
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+    if (!databasePromise) {
+        databasePromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, MIGRATIONS.length);
+            request.onupgradeneeded = (event) => {
+                const transaction = request.transaction!;
+                for (let version = event.oldVersion; version < MIGRATIONS.length; version++) {
+                    MIGRATIONS[version](request.result, transaction);
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                // Allow a later call to try again
+                databasePromise = null;
+                reject(request.error);
+            };
+        });
+    }
+    return databasePromise;
+};
+
+/**
+ * Runs several operations in one transaction and waits for it to commit.
+ * If any of them fails, none of them are applied.
+ * @param storeNames - The object stores the transaction needs.
+ * @param mode - 'readonly' or 'readwrite'.
+ * @param operations - Receives the transaction and queues the requests.
+ */
+export const withTransaction = async (storeNames: string[], mode: IDBTransactionMode, operations: (transaction: IDBTransaction) => void): Promise<void> => {
+    const db = await openDatabase();
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction(storeNames, mode);
+        operations(transaction);
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+    });
+};
+
+/**
+ * Runs a single request against an object store and waits for the transaction to commit.
+ * @param storeName - The object store to use.
+ * @param mode - 'readonly' or 'readwrite'.
+ * @param operation - Receives the store and returns the request whose result is wanted.
+ * @returns The result of the request.
+ */
+export const withStore = async <T>(storeName: string, mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+    const db = await openDatabase();
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction(storeName, mode);
+        const request = operation(transaction.objectStore(storeName));
+        transaction.oncomplete = () => resolve(request.result);
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+    });
+};
@@ -0,0 +1,215 @@
+import { Attachment, ChatSession, Message } from '../types';
+import { getAttachmentBlob, restoreAttachment } from './attachmentService';
+import { importSessions } from './chatHistoryService';
+import { fileToBase64, base64ToBlob } from '../utils/fileUtils';
+import { getAllMessages } from '../utils/messageTreeUtils';
+
+export type ExportFormat = 'json' | 'markdown' | 'html';
+
+const ARCHIVE_FORMAT = 'chat-do-robertin-archive';
+const ARCHIVE_VERSION = 1;
+
+// The file contents are stored in base64
+type ArchivedAttachment = Attachment & { data: string };
+
+// Lossless backup: every session with all its branches, plus the stored files they reference
+interface ChatArchive {
+  format: typeof ARCHIVE_FORMAT;
+  version: number;
+  exportedAt: string;
+  sessions: ChatSession[];
+  attachments: ArchivedAttachment[];
+}
+
+export interface ExportedFile {
+  blob: Blob;
+  fileName: string;
+}
+
+const SENDER_LABELS: Record<Message['sender'], string> = { user: 'Você', model: 'IA' };
+
+// Loads every stored file referenced by the sessions; missing files are left out
+const loadAttachments = async (sessions: ChatSession[]): Promise<Map<string, ArchivedAttachment>> => {
+  const attachments = new Map<string, ArchivedAttachment>();
+  for (const attachment of sessions.flatMap(session => getAllMessages(session)).flatMap(m => m.attachments ?? [])) {
+    if (attachments.has(attachment.id)) continue;
+    const blob = await getAttachmentBlob(attachment.id);
+    if (blob) {
+      const { base64 } = await fileToBase64(blob);
+      attachments.set(attachment.id, { ...attachment, data: base64 });
+    }
+  }
+  return attachments;
+};
+
+const toJson = async (sessions: ChatSession[]): Promise<string> => {
+  const attachments = await loadAttachments(sessions);
+  const archive: ChatArchive = {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    exportedAt: new Date().toISOString(),
+    sessions,
+    attachments: [...attachments.values()],
+  };
+  return JSON.stringify(archive);
+};
+
+// Readable transcript of the active branch of each session
+const toMarkdown = (sessions: ChatSession[]): string => {
+  return sessions.map(session => {
+    const messages = session.messages.map(message => {
+      const lines = [`**${SENDER_LABELS[message.sender]}:**`, '', message.text];
+      message.attachments?.forEach(attachment => lines.push('', `📎 _${attachment.name || attachment.mimeType}_`));
+      if (message.imageUrl) lines.push('', '🖼️ _[imagem]_');
+      if (message.videoUrl) lines.push('', '🎬 _[vídeo]_');
+      return lines.join('\n');
+    });
+    return [`# ${session.title}`, ...messages].join('\n\n---\n\n');
+  }).join('\n\n\n');
+};
+
+const escapeHtml = (text: string): string => {
+  return text.replace(/[&<>"']/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[char]!);
+};
+
+// A single file that opens anywhere: styles inline, images and documents embedded as data URLs
+const toHtml = async (sessions: ChatSession[]): Promise<string> => {
+  const attachments = await loadAttachments(sessions);
+  const renderAttachment = (attachment: Attachment): string => {
+    const stored = attachments.get(attachment.id);
+    const name = escapeHtml(attachment.name || 'arquivo');
+    if (!stored) return `<p class="missing">📎 ${name} (não disponível)</p>`;
+    const dataUrl = `data:${stored.mimeType};base64,${stored.data}`;
+    if (stored.mimeType.startsWith('video/')) return `<video src="${dataUrl}" controls></video>`;
+    return stored.mimeType.startsWith('image/')
+      ? `<img src="${dataUrl}" alt="${name}">`
+      : `<p><a href="${dataUrl}" download="${name}">📎 ${name}</a></p>`;
+  };
+  const renderMessage = (message: Message): string => {
+    const parts = (message.attachments ?? []).map(renderAttachment);
+    // Blob URLs only work in the tab that created them
+    if (message.imageUrl?.startsWith('data:')) parts.push(`<img src="${message.imageUrl}" alt="Imagem gerada">`);
+    if (message.videoUrl) parts.push('<p class="missing">🎬 [vídeo]</p>');
+    parts.push(`<div class="text">${escapeHtml(message.text)}</div>`);
+    return `<div class="message ${message.sender}"><div class="sender">${SENDER_LABELS[message.sender]}</div>${parts.join('')}</div>`;
+  };
+  const body = sessions
+    .map(session => `<section><h1>${escapeHtml(session.title)}</h1>${session.messages.map(renderMessage).join('')}</section>`)
+    .join('');
+  return `<!DOCTYPE html>
+<html lang="pt-BR">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(sessions.length === 1 ? sessions[0].title : 'Chats exportados')}</title>
+<style>
+body { background: #2a2a2a; color: #fff; font-family: system-ui, sans-serif; max-width: 48rem; margin: 0 auto; padding: 1rem; }
+h1 { color: #2196f3; font-size: 1.5rem; border-bottom: 1px solid #444; padding-bottom: .5rem; }
+section { margin-bottom: 3rem; }
+.message { padding: .75rem 1rem; border-radius: .75rem; margin: 1rem 0; max-width: 85%; }
+.message.user { background: #0878d8; margin-left: auto; }
+.message.model { background: #1c1c1c; }
+.sender { font-size: .75rem; font-weight: bold; opacity: .7; margin-bottom: .25rem; }
+.text { white-space: pre-wrap; overflow-wrap: break-word; }
+.missing { opacity: .7; font-style: italic; }
+img, video { max-width: 100%; border-radius: .5rem; }
+a { color: inherit; }
+</style>
+</head>
+<body>${body}</body>
+</html>
+`;
+};
+
+const toFileName = (sessions: ChatSession[], extension: string): string => {
+  const date = new Date().toISOString().slice(0, 10);
+  if (sessions.length !== 1) return `chats-${date}.${extension}`;
+  const slug = sessions[0].title
+    .normalize('NFD').replace(/\p{M}/gu, '')
+    .toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  return `chat-${slug || 'sem-titulo'}-${date}.${extension}`;
+};
+
+/**
+ * Exports chats to a file.
+ * JSON is a lossless backup that can be imported again; Markdown and HTML are
+ * transcripts of the current branch of each chat, meant for sharing.
+ * @param sessions - The chats to export.
+ * @param format - 'json', 'markdown' or 'html'.
+ */
+export const exportSessions = async (sessions: ChatSession[], format: ExportFormat): Promise<ExportedFile> => {
+  switch (format) {
+    case 'json':
+      return { blob: new Blob([await toJson(sessions)], { type: 'application/json' }), fileName: toFileName(sessions, 'json') };
+    case 'markdown':
+      return { blob: new Blob([toMarkdown(sessions)], { type: 'text/markdown' }), fileName: toFileName(sessions, 'md') };
+    case 'html':
+      return { blob: new Blob([await toHtml(sessions)], { type: 'text/html' }), fileName: toFileName(sessions, 'html') };
+  }
+};
+
+const isObject = (value: unknown): value is Record<string, any> => typeof value === 'object' && value !== null;
+
+const isValidAttachment = (attachment: unknown): boolean => {
+  return isObject(attachment) && typeof attachment.id === 'string' && typeof attachment.mimeType === 'string';
+};
+
+const isValidMessage = (message: unknown): boolean => {
+  return isObject(message)
+    && typeof message.id === 'string'
+    && (message.sender === 'user' || message.sender === 'model')
+    && typeof message.text === 'string'
+    && (message.attachments === undefined || (Array.isArray(message.attachments) && message.attachments.every(isValidAttachment)));
+};
+
+// Only the fields the import relies on are checked; the rest is upgraded like stored sessions
+const isValidSession = (session: unknown): boolean => {
+  return isObject(session)
+    && typeof session.id === 'string'
+    && typeof session.title === 'string'
+    && Array.isArray(session.messages) && session.messages.every(isValidMessage)
+    && (session.branches === undefined || (Array.isArray(session.branches) && session.branches.every(isValidMessage)));
+};
+
+const parseArchive = async (file: Blob): Promise<ChatArchive> => {
+  let archive: Partial<ChatArchive>;
+  try {
+    archive = JSON.parse(await file.text());
+  } catch {
+    throw new Error('O arquivo não é um JSON válido.');
+  }
+  if (archive?.format !== ARCHIVE_FORMAT || !Array.isArray(archive.sessions)) {
+    throw new Error('O arquivo não é um backup exportado por este app.');
+  }
+  if (typeof archive.version !== 'number' || archive.version > ARCHIVE_VERSION) {
+    throw new Error('Este backup foi criado por uma versão mais nova do app.');
+  }
+  // Everything is checked before anything is stored, so a damaged backup leaves no partial import behind
+  const attachments = archive.attachments ?? [];
+  if (!archive.sessions.every(isValidSession)
+    || !Array.isArray(attachments)
+    || !attachments.every(attachment => isValidAttachment(attachment) && typeof attachment.data === 'string')) {
+    throw new Error('O backup está danificado ou incompleto.');
+  }
+  return { ...archive, attachments } as ChatArchive;
+};
+
+/**
+ * Imports a JSON archive created by exportSessions, merging its chats into the history.
+ * @param file - The archive file.
+ * @returns The updated history and the number of chats added.
+ */
+export const importArchive = async (file: Blob): Promise<{ history: ChatSession[]; importedCount: number }> => {
+  const archive = await parseArchive(file);
+  // Decoded up front, so invalid base64 fails the import before any file is stored
+  let files: { attachment: Attachment; blob: Blob }[];
+  try {
+    files = archive.attachments.map(({ data, ...attachment }) => ({ attachment, blob: base64ToBlob(data, attachment.mimeType) }));
+  } catch {
+    throw new Error('O backup está danificado ou incompleto.');
+  }
+  // Attachment ids are random UUIDs, so an existing record with the same id holds the same file
+  for (const { attachment, blob } of files) {
+    await restoreAttachment(attachment, blob);
+  }
+  return importSessions(archive.sessions);
+};
@@ -1,15 +1,83 @@
+import { PromptPart } from '../types';
 
-export const fileToBase64 = (file: File): Promise<{ base64: string, mimeType: string }> => {
+// Splits "data:mime/type;base64,the-base64-string" into its parts
+export const parseDataUrl = (dataUrl: string): { base64: string, mimeType: string } => {
+    const base64 = dataUrl.split(',')[1];
+    const mimeType = dataUrl.split(';')[0].split(':')[1];
+    return { base64, mimeType };
+};
+
+export const fileToBase64 = (file: Blob): Promise<{ base64: string, mimeType: string }> => {
     return new Promise((resolve, reject) => {
         const reader = new FileReader();
         reader.readAsDataURL(file);
         reader.onload = () => {
-            const result = reader.result as string;
-            // result is "data:mime/type;base64,the-base64-string"
-            const base64 = result.split(',')[1];
-            const mimeType = result.split(';')[0].split(':')[1];
-            resolve({ base64, mimeType });
+            resolve(parseDataUrl(reader.result as string));
         };
         reader.onerror = error => reject(error);
     });
 };
+
+export const base64ToBlob = (base64: string, mimeType: string): Blob => {
+    const bytes = Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+    return new Blob([bytes], { type: mimeType });
+};
+
+// Saves a blob through a temporary download link
+export const downloadBlob = (blob: Blob, fileName: string) => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    // Give the browser a moment to start the download before freeing the data
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// Binary formats the model can read directly as inline data
+const INLINE_MIME_PREFIXES = ['image/', 'application/pdf'];
+
+// Extensions read as plain text and sent to the model as extracted text
+const TEXT_FILE_EXTENSIONS = [
+    'txt', 'md', 'markdown', 'csv', 'tsv', 'json', 'xml', 'yml', 'yaml', 'html', 'css', 'sql', 'log',
+    'js', 'jsx', 'ts', 'tsx', 'py', 'java', 'kt', 'c', 'h', 'cpp', 'hpp', 'cs', 'go', 'rs', 'rb', 'php', 'swift', 'sh',
+];
+
+// Value for the `accept` attribute of file inputs that only take text files
+export const TEXT_FILE_ACCEPT = ['text/*', ...TEXT_FILE_EXTENSIONS.map(ext => `.${ext}`)].join(',');
+
+// Value for the `accept` attribute of the document file input
+export const DOCUMENT_ACCEPT = `application/pdf,${TEXT_FILE_ACCEPT}`;
+
+// Inline data above this size is rejected by the API
+export const MAX_ATTACHMENT_SIZE = 20 * 1024 * 1024;
+
+const getExtension = (fileName: string): string => {
+    return fileName.includes('.') ? fileName.split('.').pop()!.toLowerCase() : '';
+};
+
+export const isTextFile = (mimeType: string, fileName = ''): boolean => {
+    return mimeType.startsWith('text/') || mimeType === 'application/json' || TEXT_FILE_EXTENSIONS.includes(getExtension(fileName));
+};
+
+export const isSupportedFile = (file: File): boolean => {
+    return INLINE_MIME_PREFIXES.some(prefix => file.type.startsWith(prefix)) || isTextFile(file.type, file.name);
+};
+
+/**
+ * Converts a file into a part of the prompt: text files become extracted text,
+ * images and PDFs become inline data.
+ * @param file - The file contents.
+ * @param mimeType - The file's type; browsers leave it empty for many source files.
+ * @param fileName - Used to detect text files and to label the extracted text.
+ */
+export const fileToPromptPart = async (file: Blob, mimeType: string, fileName = 'arquivo'): Promise<PromptPart> => {
+    if (isTextFile(mimeType, fileName)) {
+        const content = await file.text();
+        return { text: `Conteúdo do arquivo "${fileName}":\n\`\`\`${getExtension(fileName)}\n${content}\n\`\`\`` };
+    }
+    const { base64 } = await fileToBase64(file);
+    return { inlineData: { data: base64, mimeType } };
+};
@@ -1,9 +1,40 @@
 
-import { GoogleGenAI, Content, Part } from "@google/genai";
-import { Message } from '../types';
+import { GoogleGenAI, GenerateVideosOperation, Content, Part, HarmCategory, HarmBlockThreshold, SafetySetting, GenerateContentResponseUsageMetadata, FunctionCall, FunctionCallingConfigMode } from "@google/genai";
+import { Message, PromptPart, ModelProvider, GenerationSettings, Usage, WithUsage, ImageGenerationOptions, Tool, ToolCall, ChatStreamEvent } from '../types';
+import { runToolCall, MAX_TOOL_ROUNDS } from './toolService';
+import { searchKnowledge } from './knowledgeService';
+import { addUsage } from './usageService';
+import { getMessageParts } from './attachmentService';
+import { getTitleSystemInstruction, getTitleUserPrompt, cleanChatTitle, getFallbackTitle, getSummarySystemInstruction, getSummaryUserPrompt, getImageEditPrompt, addKnowledgeToInstruction } from '../utils/promptUtils';
+import { fileToBase64, base64ToBlob } from '../utils/fileUtils';
+import { estimateTokens } from '../utils/contextUtils';
+import { getApiKey } from './apiKeyService';
 
-// Initialize Gemini API client
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY! });
+const CHAT_MODEL = 'gemini-2.5-flash';
+const CHAT_MODELS = [CHAT_MODEL, 'gemini-2.5-pro', 'gemini-2.5-flash-lite'];
+const IMAGE_MODEL = 'imagen-4.0-generate-001';
+// Imagen's mask-based editing is only available on Vertex AI, not with a Gemini API key
+const IMAGE_EDIT_MODEL = 'gemini-2.5-flash-image';
+const VIDEO_MODEL = 'veo-2.0-generate-001';
+const EMBEDDING_MODEL = 'gemini-embedding-001';
+// The model's full 3072 dimensions would make every stored passage four times larger
+const EMBEDDING_DIMENSIONS = 768;
+
+// The client is created lazily and rebuilt whenever the user saves or unlocks a different key
+let client: GoogleGenAI | null = null;
+let clientApiKey: string | null = null;
+
+const getClient = (): GoogleGenAI => {
+    const apiKey = getApiKey();
+    if (!apiKey) {
+        throw new Error("Nenhuma chave de API ativa. Adicione ou desbloqueie sua chave do Gemini em Configurações > Provedor de IA.");
+    }
+    if (!client || clientApiKey !== apiKey) {
+        client = new GoogleGenAI({ apiKey });
+        clientApiKey = apiKey;
+    }
+    return client;
+};
 
 // Custom error for billing-related API issues
 export class BillingError extends Error {
@@ -57,64 +88,159 @@ const handleApiError = (error: any, context: string): Error => {
 };
 
 
-// Helper to convert app's message format to Gemini's format for chat history
-const messageToGemini = (message: Message): Content => {
-    // Note: This simplified history conversion does not handle images in past messages,
-    // as the app stores them as blob URLs which are not accessible here.
+// Helper to convert app's message format to Gemini's format for chat history.
+// Stored attachments are sent back too, before the text like in the current prompt.
+const messageToGemini = async (message: Message): Promise<Content> => {
+    const attachmentParts = await getMessageParts(message);
     return {
         role: message.sender,
-        parts: [{ text: message.text }],
+        parts: [...attachmentParts, { text: message.text }],
+    };
+};
+
+// Converts the app's per-category thresholds to Gemini's safety settings format
+const toGeminiSafetySettings = (settings: GenerationSettings): SafetySetting[] | undefined => {
+    const entries = Object.entries(settings.safetySettings ?? {});
+    if (entries.length === 0) return undefined;
+    return entries.map(([category, threshold]) => ({
+        category: category as HarmCategory,
+        threshold: threshold as HarmBlockThreshold,
+    }));
+};
+
+// Thinking tokens are billed as output
+const toUsage = (model: string, metadata?: GenerateContentResponseUsageMetadata): Usage | undefined => {
+    if (!metadata) return undefined;
+    return {
+        model,
+        inputTokens: metadata.promptTokenCount ?? 0,
+        outputTokens: (metadata.candidatesTokenCount ?? 0) + (metadata.thoughtsTokenCount ?? 0),
     };
 };
 
+const toToolCall = (functionCall: FunctionCall): ToolCall => ({
+    id: functionCall.id || crypto.randomUUID(),
+    name: functionCall.name ?? '',
+    args: functionCall.args ?? {},
+});
+
+/**
+ * Computes embeddings for the knowledge base.
+ * @param texts - Up to 100 texts.
+ * @param purpose - Passages to store, or a prompt to search them with.
+ * @returns One vector per text, in order.
+ */
+export const embedTexts = async (texts: string[], purpose: 'document' | 'query'): Promise<WithUsage<number[][]>> => {
+    const ai = getClient();
+    try {
+        const response = await ai.models.embedContent({
+            model: EMBEDDING_MODEL,
+            contents: texts,
+            config: {
+                taskType: purpose === 'document' ? 'RETRIEVAL_DOCUMENT' : 'RETRIEVAL_QUERY',
+                outputDimensionality: EMBEDDING_DIMENSIONS,
+            },
+        });
+        const embeddings = (response.embeddings ?? []).map(embedding => embedding.values ?? []);
+        if (embeddings.length !== texts.length) {
+            throw new Error("A API não retornou os embeddings esperados.");
+        }
+        // The API does not report token counts for embeddings, so they are estimated
+        const inputTokens = texts.reduce((total, text) => total + estimateTokens(text), 0);
+        return { value: embeddings, usage: { model: EMBEDDING_MODEL, inputTokens, outputTokens: 0 } };
+    } catch (error) {
+        throw handleApiError(error, 'indexação da base de conhecimento');
+    }
+};
+
 /**
  * Generates content from the Gemini model in a streaming fashion.
  * @param prompt - The user's text prompt.
  * @param history - The chat history.
- * @param imagePart - Optional image data to include in the prompt.
- * @param language - The desired response language ('pt-BR' or 'en-US').
- * @returns An async generator that yields text chunks of the response.
+ * @param attachmentParts - Attached files (inline data or extracted text) to include in the prompt.
+ * @param systemInstruction - The system instruction (persona, learned information and response language);
+ *   passages of the knowledge base related to the prompt are added to it.
+ * @param settings - Optional per-session model and generation parameters.
+ * @param signal - Optional signal to stop the generation (e.g. the Stop button).
+ * @param tools - Optional tools the model may call; they run between requests until the model answers.
+ * @returns An async generator that yields the knowledge base passages used, text chunks and tool calls,
+ *   and returns the token usage.
  */
-export async function* generateContentStream(prompt: string, history: Message[], imagePart: Part | null, language: string): AsyncGenerator<string> {
-    const model = 'gemini-2.5-flash';
+export async function* generateContentStream(prompt: string, history: Message[], attachmentParts: PromptPart[], systemInstruction: string, settings: GenerationSettings = {}, signal?: AbortSignal, tools: Tool[] = []): AsyncGenerator<ChatStreamEvent, Usage | undefined> {
+    const model = settings.model || CHAT_MODEL;
 
     // Convert all but the last message (which is the current prompt) to Gemini's history format
-    const geminiHistory = history.slice(0, -1).map(messageToGemini);
+    const geminiHistory = await Promise.all(history.slice(0, -1).map(messageToGemini));
     
     // Prepare the parts for the current user message
-    const currentUserMessageParts: Part[] = [];
-
-    if (imagePart) {
-        // As per Gemini API docs, for multimodal input, image parts should ideally come before text parts.
-        currentUserMessageParts.push(imagePart);
-    }
-    currentUserMessageParts.push({ text: prompt });
+    // As per Gemini API docs, for multimodal input, image parts should ideally come before text parts.
+    const currentUserMessageParts: Part[] = [...attachmentParts, { text: prompt }];
 
     // Combine history with the current message
     const contents: Content[] = [
         ...geminiHistory,
         { role: 'user', parts: currentUserMessageParts }
     ];
-    
-    const systemInstruction = language === 'pt-BR' 
-        ? 'Responda em português do Brasil.' 
-        : 'Respond in English.';
+    const ai = getClient();
+
+    const functionDeclarations = tools.map(({ name, description, parameters }) => ({ name, description, parametersJsonSchema: parameters }));
+
+    const { value: citations, usage: searchUsage } = await searchKnowledge(prompt, { embeddingModel: EMBEDDING_MODEL, embedTexts });
+    if (citations.length > 0 || searchUsage) {
+        yield { type: 'knowledge', citations, usage: searchUsage };
+    }
 
     try {
-        const streamResult = await ai.models.generateContentStream({
-            model: model,
-            contents: contents,
-            config: {
-                systemInstruction: systemInstruction,
+        let usage: Usage | undefined;
+        for (let round = 0; ; round++) {
+            const streamResult = await ai.models.generateContentStream({
+                model: model,
+                contents: contents,
+                config: {
+                    systemInstruction: addKnowledgeToInstruction(systemInstruction, citations),
+                    temperature: settings.temperature,
+                    topP: settings.topP,
+                    maxOutputTokens: settings.maxOutputTokens,
+                    safetySettings: toGeminiSafetySettings(settings),
+                    tools: functionDeclarations.length > 0 ? [{ functionDeclarations }] : undefined,
+                    // After the last round of calls the model has to answer with what it has
+                    toolConfig: functionDeclarations.length > 0 && round >= MAX_TOOL_ROUNDS ? { functionCallingConfig: { mode: FunctionCallingConfigMode.NONE } } : undefined,
+                    abortSignal: signal,
+                }
+            });
+
+            let requestUsage: Usage | undefined;
+            // The model's turn is sent back as it came (thought signatures included) along with the tool results
+            const modelParts: Part[] = [];
+            const functionCalls: FunctionCall[] = [];
+            for await (const chunk of streamResult) {
+                // Yield the text part of each chunk as it arrives.
+                // The .text property conveniently aggregates text from all parts.
+                if (chunk.text) {
+                    yield { type: 'text', text: chunk.text };
+                }
+                modelParts.push(...(chunk.candidates?.[0]?.content?.parts ?? []));
+                functionCalls.push(...(chunk.functionCalls ?? []));
+                // The last chunk carries the totals for the whole request
+                requestUsage = toUsage(model, chunk.usageMetadata) ?? requestUsage;
+            }
+            usage = addUsage(usage, requestUsage);
+            if (functionCalls.length === 0 || signal?.aborted) {
+                return usage;
             }
-        });
 
-        for await (const chunk of streamResult) {
-            // Yield the text part of each chunk as it arrives.
-            // The .text property conveniently aggregates text from all parts.
-            if (chunk.text) {
-                yield chunk.text;
+            const responseParts: Part[] = [];
+            for (const functionCall of functionCalls) {
+                const call = toToolCall(functionCall);
+                yield { type: 'toolCall', toolCall: call };
+                const { result, error } = await runToolCall(tools, call);
+                yield { type: 'toolCall', toolCall: { ...call, result, error } };
+                // Gemini expects "output" or "error" keys in the response object
+                responseParts.push({
+                    functionResponse: { id: functionCall.id, name: call.name, response: error === undefined ? { output: result } : { error } },
+                });
             }
+            contents.push({ role: 'model', parts: modelParts }, { role: 'user', parts: responseParts });
         }
     } catch (error) {
         // Throw a processed, user-friendly error for the UI layer to catch and display
@@ -128,20 +254,31 @@ export async function* generateContentStream(prompt: string, history: Message[],
  * @param prompt - The description of the image to generate.
  * @returns A promise that resolves to the base64 encoded image string.
  */
-export const generateImage = async (prompt: string): Promise<string> => {
+export const generateImage = async (prompt: string, options: ImageGenerationOptions = {}): Promise<WithUsage<string[]>> => {
+    const ai = getClient();
     try {
         const response = await ai.models.generateImages({
-            model: 'imagen-4.0-generate-001',
+            model: IMAGE_MODEL,
             prompt: prompt,
             config: {
-                numberOfImages: 1,
+                numberOfImages: options.numberOfImages ?? 1,
                 outputMimeType: 'image/png',
+                aspectRatio: options.aspectRatio,
+                negativePrompt: options.negativePrompt || undefined,
+                seed: options.seed,
+                // The API only accepts a seed for images without the SynthID watermark
+                addWatermark: options.seed === undefined ? undefined : false,
             },
         });
 
-        const image = response.generatedImages?.[0];
-        if (image?.image?.imageBytes) {
-            return image.image.imageBytes; // This is the base64 string
+        // imageBytes is the base64 string; images blocked by the safety filters have none
+        const images = (response.generatedImages ?? []).map(image => image.image?.imageBytes).filter((bytes): bytes is string => !!bytes);
+        if (images.length > 0) {
+            // Imagen is billed per image, not per token
+            return {
+                value: images,
+                usage: { model: IMAGE_MODEL, inputTokens: 0, outputTokens: 0, images: images.length },
+            };
         }
         
         // This case handles an API success response that didn't contain the expected image data.
@@ -152,33 +289,93 @@ export const generateImage = async (prompt: string): Promise<string> => {
     }
 };
 
+/**
+ * Edits an image with Gemini's native image output.
+ * @param image - The image to change.
+ * @param instruction - What to change, in the user's words.
+ * @param mask - Optional mask limiting the change to its white areas.
+ * @returns A promise that resolves to the edited image.
+ */
+export const editImage = async (image: Blob, instruction: string, mask?: Blob): Promise<WithUsage<Blob>> => {
+    const ai = getClient();
+    try {
+        const parts: Part[] = [];
+        for (const blob of mask ? [image, mask] : [image]) {
+            const { base64, mimeType } = await fileToBase64(blob);
+            parts.push({ inlineData: { data: base64, mimeType } });
+        }
+        parts.push({ text: getImageEditPrompt(instruction, !!mask) });
+
+        const response = await ai.models.generateContent({
+            model: IMAGE_EDIT_MODEL,
+            contents: [{ role: 'user', parts }],
+        });
+
+        const imagePart = response.candidates?.[0]?.content?.parts?.find(part => part.inlineData?.data);
+        if (imagePart?.inlineData?.data) {
+            const usage = toUsage(IMAGE_EDIT_MODEL, response.usageMetadata);
+            return {
+                value: base64ToBlob(imagePart.inlineData.data, imagePart.inlineData.mimeType ?? 'image/png'),
+                // Priced by tokens; the count is only for the usage totals
+                usage: usage && { ...usage, images: 1 },
+            };
+        }
+        // The model answers in text when it declines the edit
+        throw new Error(response.text?.trim() || "A API não retornou uma imagem editada.");
+    } catch (error) {
+        throw handleApiError(error, 'edição de imagem');
+    }
+};
+
 /**
  * Generates a video based on a text prompt using the Veo model.
  * @param prompt - The description of the video to generate.
- * @returns A promise that resolves to the full video URL including the API key.
+ * @returns A promise that resolves to the downloaded video file.
  */
-export const generateVideo = async (prompt: string): Promise<string> => {
+export const startVideoGeneration = async (prompt: string): Promise<string> => {
+    const ai = getClient();
     try {
-        let operation = await ai.models.generateVideos({
-            model: 'veo-2.0-generate-001',
+        const operation = await ai.models.generateVideos({
+            model: VIDEO_MODEL,
             prompt: prompt,
             config: {
                 numberOfVideos: 1
             }
         });
+        if (!operation.name) {
+            throw new Error("A API não retornou a operação de geração de vídeo.");
+        }
+        return operation.name;
+    } catch (error: any) {
+        throw handleApiError(error, 'geração de vídeo');
+    }
+};
 
-        // Poll for completion, as video generation is a long-running operation
-        while (!operation.done) {
-            // Wait for 10 seconds before checking the operation status again
-            await new Promise(resolve => setTimeout(resolve, 10000));
-            operation = await ai.operations.getVideosOperation({ operation: operation });
+export const checkVideoGeneration = async (operationName: string): Promise<WithUsage<Blob> | null> => {
+    const ai = getClient();
+    try {
+        // Only the name is needed to look the operation up, so it works after a reload too
+        const pendingOperation = new GenerateVideosOperation();
+        pendingOperation.name = operationName;
+        const operation = await ai.operations.getVideosOperation({ operation: pendingOperation });
+        if (!operation.done) return null;
+        if (operation.error) {
+            throw new Error(String(operation.error.message ?? 'A geração do vídeo falhou.'));
         }
 
         const downloadLink = operation.response?.generatedVideos?.[0]?.video?.uri;
 
         if (downloadLink) {
-            // The API key must be appended to the download link for it to be accessible
-            return `${downloadLink}&key=${process.env.API_KEY}`;
+            // The link only works with the API key, so the video is downloaded now instead of
+            // storing a keyed URL in the chat history
+            const response = await fetch(`${downloadLink}&key=${clientApiKey}`);
+            if (!response.ok) {
+                throw new Error(`HTTP ${response.status} ao baixar o vídeo.`);
+            }
+            return {
+                value: await response.blob(),
+                usage: { model: VIDEO_MODEL, inputTokens: 0, outputTokens: 0, videos: 1 },
+            };
         }
         
         throw new Error("A API não retornou um link de vídeo válido.");
@@ -188,6 +385,20 @@ export const generateVideo = async (prompt: string): Promise<string> => {
     }
 };
 
+/**
+ * Checks that an API key is accepted by the Gemini API before it is saved.
+ * Only reads the chat model's metadata, so it costs no tokens.
+ * @param apiKey - The key to check.
+ * @throws A user-friendly error if the key is rejected.
+ */
+export const testApiKey = async (apiKey: string): Promise<void> => {
+    try {
+        await new GoogleGenAI({ apiKey }).models.get({ model: CHAT_MODEL });
+    } catch (error) {
+        throw handleApiError(error, 'verificação da chave de API');
+    }
+};
+
 
 /**
  * Generates a short title for a new chat session based on the first message.
@@ -195,40 +406,72 @@ export const generateVideo = async (prompt: string): Promise<string> => {
  * @param language - The desired language for the title.
  * @returns A promise that resolves to a concise chat title.
  */
-export const generateChatTitle = async (firstMessage: string, language: string): Promise<string> => {
+export const generateChatTitle = async (firstMessage: string, language: string): Promise<WithUsage<string>> => {
     try {
-        const systemInstruction = language === 'pt-BR'
-            ? `Você é um gerador de títulos para chats. Sua tarefa é criar um título curto e conciso (máximo 4 palavras) para a conversa, baseado na primeira mensagem do usuário. Responda *apenas* com o título, sem formatação extra, aspas, ou palavras como "Título:".`
-            : `You are a chat title generator. Your task is to create a short and concise title (maximum 4 words) for the conversation, based on the user's first message. Respond with *only* the title, without extra formatting, quotes, or words like "Title:".`;
-
-        const userPrompt = `Generate a title for a chat starting with: "${firstMessage}"`;
-        
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: userPrompt,
+        const response = await getClient().models.generateContent({
+            model: CHAT_MODEL,
+            contents: getTitleUserPrompt(firstMessage),
             config: {
-                systemInstruction: systemInstruction,
+                systemInstruction: getTitleSystemInstruction(language),
             },
         });
         
-        // Use the .text property to get the clean text output and trim whitespace
-        let title = response.text.trim();
-        
-        // More robust cleaning:
-        // 1. Remove common model prefixes like "Título: " or "Title: " (case-insensitive)
-        title = title.replace(/^(título|title):?\s*/i, '');
-        // 2. Remove any surrounding quotes, asterisks, or markdown characters from the start and end.
-        title = title.replace(/^["'*#\s]+|["'*#\s]+$/g, '');
-
-        const fallbackTitle = language === 'pt-BR' ? 'Novo Chat' : 'New Chat';
-
-        // Ensure the title is not empty after cleaning, otherwise use the fallback.
-        return title || fallbackTitle;
+        // Use the .text property to get the clean text output
+        return { value: cleanChatTitle(response.text ?? '', language), usage: toUsage(CHAT_MODEL, response.usageMetadata) };
     } catch (error) {
         // A failed title generation shouldn't break the user experience.
         // Log the error for debugging and return a fallback title.
         console.error("Error generating chat title:", error);
-        const fallbackTitle = language === 'pt-BR' ? 'Novo Chat' : 'New Chat';
-        return fallbackTitle;
+        return { value: getFallbackTitle(language) };
+    }
+};
+
+/**
+ * Summarizes older chat messages so they can be dropped from the history sent to the model.
+ * @param messages - The messages to summarize, oldest first.
+ * @param previousSummary - The current summary of the turns before them, extended by the new one.
+ * @param language - The language of the summary.
+ * @returns A promise that resolves to the updated summary.
+ */
+export const summarizeConversation = async (messages: Message[], previousSummary: string | undefined, language: string): Promise<WithUsage<string>> => {
+    const ai = getClient();
+    try {
+        const response = await ai.models.generateContent({
+            model: CHAT_MODEL,
+            contents: getSummaryUserPrompt(messages, previousSummary),
+            config: {
+                systemInstruction: getSummarySystemInstruction(language),
+            },
+        });
+
+        const summary = response.text?.trim();
+        if (summary) {
+            return { value: summary, usage: toUsage(CHAT_MODEL, response.usageMetadata) };
+        }
+        throw new Error("A API não retornou um resumo.");
+    } catch (error) {
+        throw handleApiError(error, 'criação do resumo da conversa');
     }
 };
+
+// Adapter exposing the Gemini functions through the common provider interface
+export const geminiProvider: ModelProvider = {
+    id: 'gemini',
+    label: 'Google Gemini',
+    supportsImageGeneration: true,
+    supportsVideoGeneration: true,
+    supportsImageEditing: true,
+    supportsSafetySettings: true,
+    chatModels: CHAT_MODELS,
+    imageGenerationOptions: ['aspectRatio', 'numberOfImages', 'negativePrompt', 'seed'],
+    generateContentStream,
+    generateChatTitle,
+    summarizeConversation,
+    embeddingModel: EMBEDDING_MODEL,
+    embedTexts,
+    generateImage,
+    editImage,
+    startVideoGeneration,
+    checkVideoGeneration,
+};
+
@@ -0,0 +1,175 @@
+import { AuthSession, RedirectAuthProvider } from '../types';
+
+// OpenID Connect implicit flow: the app has no server to keep a client secret, so Google
+// returns the tokens in the URL fragment of a redirect back to the app.
+const GOOGLE_AUTH_URL = 'https://accounts.google.com/o/oauth2/v2/auth';
+const GOOGLE_CERTS_URL = 'https://www.googleapis.com/oauth2/v3/certs';
+const GOOGLE_REVOKE_URL = 'https://oauth2.googleapis.com/revoke';
+const GOOGLE_ISSUERS = ['https://accounts.google.com', 'accounts.google.com'];
+const POPUP_TIMEOUT_MS = 5 * 60 * 1000;
+const SILENT_TIMEOUT_MS = 10 * 1000;
+const POLL_INTERVAL_MS = 250;
+
+interface IdTokenClaims {
+  iss: string;
+  aud: string;
+  sub: string;
+  exp: number;
+  nonce?: string;
+  email: string;
+  name?: string;
+  picture?: string;
+}
+
+// Public OAuth client id, set with GOOGLE_CLIENT_ID at build time
+const getClientId = (): string | null => {
+  try {
+    return process.env.GOOGLE_CLIENT_ID || null;
+  } catch {
+    return null;
+  }
+};
+
+// Must be registered as an authorized redirect URI of the OAuth client
+const getRedirectUri = () => `${window.location.origin}${window.location.pathname}`;
+
+const decodeBase64Url = (value: string) => Uint8Array.from(atob(value.replace(/-/g, '+').replace(/_/g, '/')), char => char.charCodeAt(0));
+const decodeJsonPart = <T>(value: string): T => JSON.parse(new TextDecoder().decode(decodeBase64Url(value)));
+
+const buildAuthUrl = (clientId: string, nonce: string, state: string, options: { prompt?: string; loginHint?: string } = {}): string => {
+  const params = new URLSearchParams({
+    client_id: clientId,
+    redirect_uri: getRedirectUri(),
+    response_type: 'id_token token',
+    scope: 'openid email profile',
+    nonce,
+    state,
+  });
+  if (options.prompt) params.set('prompt', options.prompt);
+  if (options.loginHint) params.set('login_hint', options.loginHint);
+  return `${GOOGLE_AUTH_URL}?${params}`;
+};
+
+/**
+ * Waits until a popup or iframe has been sent back to the app and reads the response from its URL fragment.
+ * While it shows Google's pages its location cannot be read, so it is polled.
+ */
+const waitForRedirect = (getWindow: () => Window | null, timeoutMs: number): Promise<URLSearchParams> => {
+  return new Promise((resolve, reject) => {
+    const startedAt = Date.now();
+    const timer = setInterval(() => {
+      const target = getWindow();
+      if (!target || target.closed) {
+        clearInterval(timer);
+        reject(new Error('Login com Google cancelado.'));
+        return;
+      }
+      if (Date.now() - startedAt > timeoutMs) {
+        clearInterval(timer);
+        reject(new Error('O login com Google demorou demais. Tente novamente.'));
+        return;
+      }
+      let hash: string;
+      try {
+        if (target.location.origin !== window.location.origin) return;
+        hash = target.location.hash;
+      } catch {
+        // Still on a Google page (cross-origin)
+        return;
+      }
+      if (!hash) return;
+      clearInterval(timer);
+      resolve(new URLSearchParams(hash.slice(1)));
+    }, POLL_INTERVAL_MS);
+  });
+};
+
+// Checks the signature against Google's published keys, then the claims meant for this app
+const verifyIdToken = async (idToken: string, clientId: string, nonce: string): Promise<IdTokenClaims> => {
+  const [header, payload, signature] = idToken.split('.');
+  const { kid } = decodeJsonPart<{ kid: string }>(header);
+  const { keys } = await (await fetch(GOOGLE_CERTS_URL)).json();
+  const jwk = keys.find((key: JsonWebKey & { kid: string }) => key.kid === kid);
+  if (!jwk) {
+    throw new Error('O token do Google não é válido.');
+  }
+  const key = await crypto.subtle.importKey('jwk', jwk, { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' }, false, ['verify']);
+  const isSignatureValid = await crypto.subtle.verify('RSASSA-PKCS1-v1_5', key, decodeBase64Url(signature), new TextEncoder().encode(`${header}.${payload}`));
+  const claims = decodeJsonPart<IdTokenClaims>(payload);
+  if (!isSignatureValid || !GOOGLE_ISSUERS.includes(claims.iss) || claims.aud !== clientId || claims.nonce !== nonce || claims.exp * 1000 < Date.now()) {
+    throw new Error('O token do Google não é válido.');
+  }
+  return claims;
+};
+
+const toSession = async (params: URLSearchParams, clientId: string, nonce: string, state: string): Promise<AuthSession> => {
+  const error = params.get('error');
+  if (error) {
+    throw new Error(error === 'access_denied' ? 'Login com Google cancelado.' : `Falha no login com Google (${error}).`);
+  }
+  const idToken = params.get('id_token');
+  const accessToken = params.get('access_token');
+  if (params.get('state') !== state || !idToken || !accessToken) {
+    throw new Error('Resposta inválida do login com Google.');
+  }
+  const claims = await verifyIdToken(idToken, clientId, nonce);
+  return {
+    providerId: 'google',
+    user: { id: claims.sub, email: claims.email, name: claims.name, pictureUrl: claims.picture },
+    accessToken,
+    expiresAt: Date.now() + Number(params.get('expires_in') ?? 3600) * 1000,
+  };
+};
+
+const requireClientId = (): string => {
+  const clientId = getClientId();
+  if (!clientId) {
+    throw new Error('O login com Google não está configurado neste site.');
+  }
+  return clientId;
+};
+
+// Opens Google's sign-in page in a popup. Must be called directly from a click so the popup is not blocked.
+const signIn = async (): Promise<AuthSession> => {
+  const clientId = requireClientId();
+  const nonce = crypto.randomUUID();
+  const state = crypto.randomUUID();
+  const popup = window.open(buildAuthUrl(clientId, nonce, state, { prompt: 'select_account' }), 'google-sign-in', 'width=500,height=600');
+  if (!popup) {
+    throw new Error('Permita pop-ups para este site para entrar com Google.');
+  }
+  try {
+    return await toSession(await waitForRedirect(() => popup, POPUP_TIMEOUT_MS), clientId, nonce, state);
+  } finally {
+    popup.close();
+  }
+};
+
+// Google issues no refresh token to browser apps; a hidden iframe signs in again without
+// showing anything while the user's Google session is still active
+const refreshSession = async (session: AuthSession): Promise<AuthSession> => {
+  const clientId = requireClientId();
+  const nonce = crypto.randomUUID();
+  const state = crypto.randomUUID();
+  const iframe = document.createElement('iframe');
+  iframe.style.display = 'none';
+  iframe.src = buildAuthUrl(clientId, nonce, state, { prompt: 'none', loginHint: session.user.email });
+  document.body.appendChild(iframe);
+  try {
+    return await toSession(await waitForRedirect(() => iframe.contentWindow, SILENT_TIMEOUT_MS), clientId, nonce, state);
+  } finally {
+    iframe.remove();
+  }
+};
+
+const signOut = async (session: AuthSession): Promise<void> => {
+  await fetch(`${GOOGLE_REVOKE_URL}?token=${encodeURIComponent(session.accessToken)}`, { method: 'POST' });
+};
+
+export const googleAuthProvider: RedirectAuthProvider = {
+  id: 'google',
+  isConfigured: getClientId() !== null,
+  signIn,
+  refreshSession,
+  signOut,
+};
@@ -0,0 +1,158 @@
+import { KnowledgeEntry, KnowledgeCitation, ModelProvider, Usage, WithUsage } from '../types';
+import { withStore, withTransaction } from './database';
+import { addUsage } from './usageService';
+import { chunkText, cosineSimilarity } from '../utils/knowledgeUtils';
+
+const ENTRY_STORE = 'knowledgeEntries';
+const CHUNK_STORE = 'knowledgeChunks';
+
+// Passages given to the model with each prompt, at most
+const MAX_CITATIONS = 4;
+// Below this similarity a passage is taken to be unrelated to the prompt. A rough cut that works
+// for common embedding models; the model is still told to ignore passages that do not help.
+const MIN_SIMILARITY = 0.5;
+// Texts sent per embedding request (the Gemini API accepts up to 100)
+const EMBED_BATCH_SIZE = 50;
+
+// What the knowledge base needs from the active provider
+export type KnowledgeEmbedder = Pick<ModelProvider, 'embeddingModel' | 'embedTexts'>;
+
+interface KnowledgeChunkRecord {
+    id: string;
+    entryId: string;
+    // Position of the passage in the entry's text
+    position: number;
+    text: string;
+    embedding: number[];
+    // Vectors of different models cannot be compared, so passages are embedded again when this changes
+    embeddingModel: string;
+}
+
+const embedInBatches = async (texts: string[], embedder: KnowledgeEmbedder): Promise<WithUsage<number[][]>> => {
+    const embeddings: number[][] = [];
+    let usage: Usage | undefined;
+    for (let start = 0; start < texts.length; start += EMBED_BATCH_SIZE) {
+        const batch = await embedder.embedTexts(texts.slice(start, start + EMBED_BATCH_SIZE), 'document');
+        embeddings.push(...batch.value);
+        usage = addUsage(usage, batch.usage);
+    }
+    return { value: embeddings, usage };
+};
+
+// Newest first
+export const getKnowledgeEntries = async (): Promise<KnowledgeEntry[]> => {
+    const entries: KnowledgeEntry[] = await withStore(ENTRY_STORE, 'readonly', store => store.getAll());
+    return entries.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+/**
+ * Splits a text into passages, embeds them and stores them in the knowledge base.
+ * @param title - Shown in the management view and in citations.
+ * @param text - What is being taught.
+ * @param embedder - The active provider, which computes the embeddings.
+ * @param fileName - The document the text was read from, if any.
+ * @returns The new entry, with the usage of the embedding requests. Rejects, storing nothing,
+ *   if the embeddings cannot be computed.
+ */
+export const addKnowledgeEntry = async (title: string, text: string, embedder: KnowledgeEmbedder, fileName?: string): Promise<WithUsage<KnowledgeEntry>> => {
+    if (!embedder.embeddingModel) {
+        throw new Error("O provedor atual não tem um modelo de embeddings configurado, necessário para a base de conhecimento.");
+    }
+    const chunks = chunkText(text);
+    if (chunks.length === 0) {
+        throw new Error("Não há texto para aprender.");
+    }
+    const { value: embeddings, usage } = await embedInBatches(chunks, embedder);
+
+    const entry: KnowledgeEntry = {
+        id: crypto.randomUUID(),
+        title: title.trim(),
+        fileName,
+        createdAt: Date.now(),
+        size: text.length,
+        chunkCount: chunks.length,
+    };
+    await withTransaction([ENTRY_STORE, CHUNK_STORE], 'readwrite', transaction => {
+        transaction.objectStore(ENTRY_STORE).put(entry);
+        const chunkStore = transaction.objectStore(CHUNK_STORE);
+        chunks.forEach((chunk, position) => {
+            const record: KnowledgeChunkRecord = {
+                id: crypto.randomUUID(),
+                entryId: entry.id,
+                position,
+                text: chunk,
+                embedding: embeddings[position],
+                embeddingModel: embedder.embeddingModel,
+            };
+            chunkStore.put(record);
+        });
+    });
+    return { value: entry, usage };
+};
+
+export const deleteKnowledgeEntry = async (entryId: string): Promise<void> => {
+    await withTransaction([ENTRY_STORE, CHUNK_STORE], 'readwrite', transaction => {
+        transaction.objectStore(ENTRY_STORE).delete(entryId);
+        const chunkStore = transaction.objectStore(CHUNK_STORE);
+        const keysRequest = chunkStore.index('entryId').getAllKeys(entryId);
+        keysRequest.onsuccess = () => keysRequest.result.forEach(key => chunkStore.delete(key));
+    });
+};
+
+// Embeds again the passages indexed with another model, e.g. after switching providers
+const reindexChunks = async (chunks: KnowledgeChunkRecord[], embedder: KnowledgeEmbedder): Promise<WithUsage<KnowledgeChunkRecord[]>> => {
+    const { value: embeddings, usage } = await embedInBatches(chunks.map(chunk => chunk.text), embedder);
+    const updated = chunks.map((chunk, i) => ({ ...chunk, embedding: embeddings[i], embeddingModel: embedder.embeddingModel }));
+    await withTransaction([CHUNK_STORE], 'readwrite', transaction => {
+        const chunkStore = transaction.objectStore(CHUNK_STORE);
+        updated.forEach(chunk => chunkStore.put(chunk));
+    });
+    return { value: updated, usage };
+};
+
+/**
+ * Finds the passages of the knowledge base most related to a prompt.
+ * @param query - The user's prompt.
+ * @param embedder - The active provider, which embeds the query.
+ * @returns Up to MAX_CITATIONS passages, most similar first and numbered from 1, with the usage
+ *   of the embedding requests. Never rejects: when the search fails the answer is simply written
+ *   without the knowledge base.
+ */
+export const searchKnowledge = async (query: string, embedder: KnowledgeEmbedder): Promise<WithUsage<KnowledgeCitation[]>> => {
+    if (!query.trim() || !embedder.embeddingModel) return { value: [] };
+    let usage: Usage | undefined;
+    try {
+        let chunks: KnowledgeChunkRecord[] = await withStore(CHUNK_STORE, 'readonly', store => store.getAll());
+        if (chunks.length === 0) return { value: [] };
+
+        const stale = chunks.filter(chunk => chunk.embeddingModel !== embedder.embeddingModel);
+        if (stale.length > 0) {
+            const reindexed = await reindexChunks(stale, embedder);
+            usage = reindexed.usage;
+            chunks = [...chunks.filter(chunk => chunk.embeddingModel === embedder.embeddingModel), ...reindexed.value];
+        }
+
+        const queryResult = await embedder.embedTexts([query], 'query');
+        usage = addUsage(usage, queryResult.usage);
+        const [queryEmbedding] = queryResult.value;
+        const matches = chunks
+            .map(chunk => ({ chunk, similarity: cosineSimilarity(queryEmbedding, chunk.embedding) }))
+            .filter(match => match.similarity >= MIN_SIMILARITY)
+            .sort((a, b) => b.similarity - a.similarity)
+            .slice(0, MAX_CITATIONS);
+        if (matches.length === 0) return { value: [], usage };
+
+        const titles = new Map((await getKnowledgeEntries()).map(entry => [entry.id, entry.title]));
+        const citations = matches.map(({ chunk }, i) => ({
+            index: i + 1,
+            entryId: chunk.entryId,
+            title: titles.get(chunk.entryId) ?? '',
+            text: chunk.text,
+        }));
+        return { value: citations, usage };
+    } catch (error) {
+        console.error('Error searching the knowledge base:', error);
+        // Requests that succeeded before the failure were still billed
+        return { value: [], usage };
+    }
+};
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { chunkText, cosineSimilarity } from './knowledgeUtils';
+
+const CHUNK_SIZE = 1200;
+
+describe('chunkText', () => {
+    it('returns no passages for a blank text', () => {
+        expect(chunkText('')).toEqual([]);
+        expect(chunkText(' \n\n \n')).toEqual([]);
+    });
+
+    it('keeps short paragraphs together in one passage', () => {
+        expect(chunkText('  Primeiro parágrafo.\n\n\nSegundo parágrafo.  ')).toEqual(['Primeiro parágrafo.\n\nSegundo parágrafo.']);
+    });
+
+    it('starts a new passage when the next paragraph does not fit', () => {
+        const paragraph = 'a'.repeat(700);
+        expect(chunkText(`${paragraph}\n\n${paragraph}\n\n${paragraph}`)).toEqual([paragraph, paragraph, paragraph]);
+    });
+
+    it('breaks long paragraphs at sentence ends', () => {
+        const sentence = `${'palavra '.repeat(49)}fim. `;
+        const chunks = chunkText(sentence.repeat(6));
+        expect(chunks.length).toBeGreaterThan(1);
+        for (const chunk of chunks) {
+            expect(chunk.length).toBeLessThanOrEqual(CHUNK_SIZE);
+            expect(chunk.endsWith('fim.')).toBe(true);
+        }
+        expect(chunks.join(' ')).toBe(sentence.repeat(6).trim());
+    });
+
+    it('cuts text without sentence ends anywhere', () => {
+        const text = 'x'.repeat(CHUNK_SIZE * 2 + 100);
+        expect(chunkText(text).map(chunk => chunk.length)).toEqual([CHUNK_SIZE, CHUNK_SIZE, 100]);
+    });
+});
+
+describe('cosineSimilarity', () => {
+    it('is 1 for vectors pointing the same way', () => {
+        expect(cosineSimilarity([1, 2, 3], [2, 4, 6])).toBeCloseTo(1);
+    });
+
+    it('is 0 for perpendicular vectors and -1 for opposite ones', () => {
+        expect(cosineSimilarity([1, 0], [0, 1])).toBe(0);
+        expect(cosineSimilarity([1, 0], [-1, 0])).toBe(-1);
+    });
+
+    it('is 0 for vectors that cannot be compared', () => {
+        expect(cosineSimilarity([1, 2], [1, 2, 3])).toBe(0);
+        expect(cosineSimilarity([], [])).toBe(0);
+        expect(cosineSimilarity([0, 0], [1, 1])).toBe(0);
+    });
+});
@@ -0,0 +1,59 @@
+// Text helpers for the knowledge base: splitting what is taught into passages and comparing
+// their embeddings.
+
+// Passages of about a paragraph or two retrieve better than whole documents, and several fit in a prompt
+const CHUNK_SIZE = 1200;
+
+// Breaks a piece of text that is longer than CHUNK_SIZE at sentence ends, or anywhere if it has none
+const splitLongText = (text: string): string[] => {
+    const pieces: string[] = [];
+    let current = '';
+    for (const sentence of text.match(/[^.!?\n]*(?:[.!?]+|\n|$)\s*/g) ?? [text]) {
+        if (current && current.length + sentence.length > CHUNK_SIZE) {
+            pieces.push(current);
+            current = '';
+        }
+        current += sentence;
+        while (current.length > CHUNK_SIZE) {
+            pieces.push(current.slice(0, CHUNK_SIZE));
+            current = current.slice(CHUNK_SIZE);
+        }
+    }
+    if (current) pieces.push(current);
+    return pieces;
+};
+
+/**
+ * Splits a text into passages of at most CHUNK_SIZE characters, keeping paragraphs together
+ * where they fit.
+ * @param text - The text to split.
+ * @returns The passages, trimmed and in order; none for a blank text.
+ */
+export const chunkText = (text: string): string[] => {
+    const paragraphs = text.split(/\n\s*\n/).map(p => p.trim()).filter(Boolean);
+    const chunks: string[] = [];
+    let current = '';
+    for (const paragraph of paragraphs.flatMap(p => p.length > CHUNK_SIZE ? splitLongText(p) : [p])) {
+        if (current && current.length + paragraph.length + 2 > CHUNK_SIZE) {
+            chunks.push(current);
+            current = '';
+        }
+        current = current ? `${current}\n\n${paragraph}` : paragraph;
+    }
+    if (current) chunks.push(current);
+    return chunks.map(chunk => chunk.trim()).filter(Boolean);
+};
+
+// 1 for vectors pointing the same way, 0 for unrelated ones; vectors of different models cannot be compared
+export const cosineSimilarity = (a: number[], b: number[]): number => {
+    if (a.length !== b.length || a.length === 0) return 0;
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+    for (let i = 0; i < a.length; i++) {
+        dot += a[i] * b[i];
+        normA += a[i] * a[i];
+        normB += b[i] * b[i];
+    }
+    return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+};
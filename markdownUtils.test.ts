@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { prepareMarkdown } from './markdownUtils';
+
+describe('prepareMarkdown', () => {
+    it('turns \\[...\\] into a display formula', () => {
+        expect(prepareMarkdown('Veja: \\[ x^2 + 1 \\] pronto')).toBe('Veja: \n$$\nx^2 + 1\n$$\n pronto');
+    });
+
+    it('turns \\(...\\) into inline math with double dollars', () => {
+        expect(prepareMarkdown('A área é \\(\\pi r^2\\).')).toBe('A área é $$\\pi r^2$$.');
+    });
+
+    it('leaves prices alone', () => {
+        expect(prepareMarkdown('Custa R$ 10,00 ou R$ 20,00.')).toBe('Custa R$ 10,00 ou R$ 20,00.');
+    });
+
+    it('leaves code untouched', () => {
+        const markdown = 'Use `\\(x\\)` ou:\n```latex\n\\[ y \\]\n```\ne \\(z\\)';
+        expect(prepareMarkdown(markdown)).toBe('Use `\\(x\\)` ou:\n```latex\n\\[ y \\]\n```\ne $$z$$');
+    });
+
+    it('holds back a formula that is still streaming', () => {
+        expect(prepareMarkdown('Resultado: $$\\frac{1}{', true)).toBe('Resultado: ');
+        expect(prepareMarkdown('Resultado: $$x$$ e $$y', true)).toBe('Resultado: $$x$$ e ');
+        expect(prepareMarkdown('Resultado: $$x$$', true)).toBe('Resultado: $$x$$');
+    });
+
+    it('keeps incomplete formulas once the answer is complete', () => {
+        expect(prepareMarkdown('Resultado: $$x')).toBe('Resultado: $$x');
+    });
+
+    it('does not hold back dollars inside code while streaming', () => {
+        expect(prepareMarkdown('```sh\necho $$\n```\nfim', true)).toBe('```sh\necho $$\n```\nfim');
+    });
+});
@@ -0,0 +1,36 @@
+// Clean-up applied to model answers before they are rendered as markdown.
+
+// Fenced blocks (also unclosed ones, while streaming) and inline code spans
+const CODE_PATTERN = /(```[\s\S]*?(?:```|$)|`[^`\n]*`)/;
+
+// Applies a change to the prose of a markdown text, leaving code untouched
+const mapProse = (markdown: string, transform: (prose: string) => string): string => {
+    // With a capture group, split() puts the code segments at the odd indices
+    return markdown.split(CODE_PATTERN).map((part, i) => i % 2 === 0 ? transform(part) : part).join('');
+};
+
+// Models often write LaTeX with \[...\] and \(...\), which remark-math does not know. Inline
+// formulas get $$ too, since single dollars are left to prices (see MarkdownContent).
+const normalizeMathDelimiters = (prose: string): string => {
+    return prose
+        .replace(/\\\[([\s\S]*?)\\\]/g, (_, math: string) => `\n$$\n${math.trim()}\n$$\n`)
+        .replace(/\\\(([\s\S]*?)\\\)/g, (_, math: string) => `$$${math.trim()}$$`);
+};
+
+// Drops a formula whose closing $$ has not arrived yet
+const holdBackOpenMath = (prose: string): string => {
+    const parts = prose.split('$$');
+    return parts.length % 2 === 0 ? parts.slice(0, -1).join('$$') : prose;
+};
+
+/**
+ * Prepares an answer for ReactMarkdown with the math plugins.
+ * @param markdown - The answer as written by the model.
+ * @param isPartial - True while the answer is still streaming: formulas that are not complete
+ *   yet are left out, rather than flashing KaTeX errors until the rest arrives.
+ * @returns The markdown to render.
+ */
+export const prepareMarkdown = (markdown: string, isPartial = false): string => {
+    const normalized = mapProse(markdown, normalizeMathDelimiters);
+    return isPartial ? mapProse(normalized, holdBackOpenMath) : normalized;
+};
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { ChatSession, Message } from '../types';
+import { buildTree, createMessage, getSiblings, setActivePath, switchBranch } from './messageTreeUtils';
+
+const message = (id: string, parentId: string | undefined, createdAt: number, sender: Message['sender'] = 'user'): Message => ({
+    id, parentId, createdAt, updatedAt: createdAt, sender, text: id,
+});
+
+const session = (messages: Message[], branches?: Message[]): ChatSession => ({
+    id: 'session', title: 'Chat', createdAt: 0, updatedAt: 0, messages, branches,
+});
+
+const ids = (messages: Message[] | undefined) => messages?.map(m => m.id);
+
+// question -> answer, then the question edited (question2) and answered again (answer2)
+const question = message('question', undefined, 1);
+const answer = message('answer', 'question', 2, 'model');
+const question2 = message('question2', undefined, 3);
+const answer2 = message('answer2', 'question2', 4, 'model');
+
+describe('createMessage', () => {
+    it('gives each message its own id and timestamps', () => {
+        const first = createMessage({ sender: 'user', text: 'Oi' });
+        const second = createMessage({ sender: 'user', text: 'Oi' });
+        expect(first.id).not.toBe(second.id);
+        expect(first.parentId).toBeUndefined();
+        expect(first.updatedAt).toBe(first.createdAt);
+    });
+});
+
+describe('setActivePath', () => {
+    it('links every message to the one before it', () => {
+        const updated = setActivePath(session([]), [message('a', undefined, 1), message('b', undefined, 2)]);
+        expect(updated.messages.map(m => m.parentId)).toEqual([undefined, 'a']);
+        expect(updated.branches).toBeUndefined();
+    });
+
+    it('keeps the replaced messages as a branch when asked to', () => {
+        const edited = setActivePath(session([question, answer]), [question2], true);
+        expect(ids(edited.messages)).toEqual(['question2']);
+        expect(ids(edited.branches)).toEqual(['question', 'answer']);
+    });
+
+    it('discards the replaced messages otherwise', () => {
+        const updated = setActivePath(session([question, answer]), [question]);
+        expect(ids(updated.messages)).toEqual(['question']);
+        expect(updated.branches).toBeUndefined();
+    });
+});
+
+describe('getSiblings', () => {
+    it('returns the versions of a message, oldest first', () => {
+        const edited = session([question2, answer2], [answer, question]);
+        expect(ids(getSiblings(edited, question2))).toEqual(['question', 'question2']);
+        expect(ids(getSiblings(edited, answer2))).toEqual(['answer2']);
+    });
+});
+
+describe('switchBranch', () => {
+    it('shows the other version with the conversation that followed it', () => {
+        const switched = switchBranch(session([question2, answer2], [question, answer]), 'question');
+        expect(ids(switched.messages)).toEqual(['question', 'answer']);
+        expect(ids(switched.branches)).toEqual(['question2', 'answer2']);
+    });
+
+    it('follows the newest reply below the message', () => {
+        const regenerated = message('regenerated', 'question', 5, 'model');
+        const switched = switchBranch(session([question2], [question, answer, regenerated]), 'question');
+        expect(ids(switched.messages)).toEqual(['question', 'regenerated']);
+    });
+
+    it('leaves the session alone for an unknown message', () => {
+        const original = session([question, answer]);
+        expect(switchBranch(original, 'missing')).toBe(original);
+    });
+});
+
+describe('buildTree', () => {
+    it('rebuilds the active path and branches from the stored nodes', () => {
+        const { messages, branches } = buildTree([answer2, question, question2, answer], 'answer2');
+        expect(ids(messages)).toEqual(['question2', 'answer2']);
+        expect(ids(branches)?.sort()).toEqual(['answer', 'question']);
+    });
+
+    it('keeps every node as a branch when the active leaf is missing', () => {
+        const { messages, branches } = buildTree([question, answer], 'missing');
+        expect(messages).toEqual([]);
+        expect(ids(branches)).toEqual(['question', 'answer']);
+    });
+});
@@ -0,0 +1,90 @@
+import { ChatSession, Message } from '../types';
+
+// A session is a tree of messages linked by `parentId`. `session.messages` is the active
+// path through it (what is shown and sent to the model); every other node is in `session.branches`.
+
+/**
+ * Creates a message with a fresh id. Its `parentId` is filled in when it is placed in a path.
+ */
+export const createMessage = (message: Omit<Message, 'id' | 'parentId' | 'createdAt' | 'updatedAt'>): Message => {
+    const now = Date.now();
+    return { ...message, id: crypto.randomUUID(), createdAt: now, updatedAt: now };
+};
+
+export const getAllMessages = (session: ChatSession): Message[] => {
+    return [...session.messages, ...(session.branches ?? [])];
+};
+
+// Alternative versions of a message (same parent), oldest first
+export const getSiblings = (session: ChatSession, message: Message): Message[] => {
+    return getAllMessages(session)
+        .filter(m => m.parentId === message.parentId)
+        .sort((a, b) => a.createdAt - b.createdAt);
+};
+
+// Points every message of a path at the one before it
+const linkPath = (path: Message[]): Message[] => {
+    return path.map((message, index) => {
+        const parentId = index > 0 ? path[index - 1].id : undefined;
+        return message.parentId === parentId ? message : { ...message, parentId };
+    });
+};
+
+/**
+ * Replaces the active path of a session.
+ * @param session - The session to update.
+ * @param path - The new active path, from the first message.
+ * @param keepReplaced - Keep the messages that left the path as a branch (edit and regenerate)
+ *   instead of discarding them (e.g. a temporary "waiting" message).
+ * @returns The updated session, marked as updated now.
+ */
+export const setActivePath = (session: ChatSession, path: Message[], keepReplaced = false): ChatSession => {
+    const linkedPath = linkPath(path);
+    const pathIds = new Set(linkedPath.map(m => m.id));
+    const replaced = keepReplaced ? session.messages.filter(m => !pathIds.has(m.id)) : [];
+    const branches = [...(session.branches ?? []), ...replaced];
+    return { ...session, messages: linkedPath, branches: branches.length > 0 ? branches : undefined, updatedAt: Date.now() };
+};
+
+/**
+ * Makes a message part of the active path, following its newest replies below it.
+ * @param session - The session to update.
+ * @param messageId - The message to switch to, usually a sibling of one on the active path.
+ * @returns The updated session.
+ */
+export const switchBranch = (session: ChatSession, messageId: string): ChatSession => {
+    const allMessages = getAllMessages(session);
+    const byId = new Map(allMessages.map(m => [m.id, m]));
+    const target = byId.get(messageId);
+    if (!target) return session;
+
+    const path: Message[] = [];
+    for (let message: Message | undefined = target; message; message = message.parentId ? byId.get(message.parentId) : undefined) {
+        path.unshift(message);
+    }
+    let current = target;
+    while (true) {
+        const children = allMessages.filter(m => m.parentId === current.id).sort((a, b) => a.createdAt - b.createdAt);
+        if (children.length === 0) break;
+        current = children[children.length - 1];
+        path.push(current);
+    }
+
+    const pathIds = new Set(path.map(m => m.id));
+    const branches = allMessages.filter(m => !pathIds.has(m.id));
+    return { ...session, messages: path, branches: branches.length > 0 ? branches : undefined };
+};
+
+/**
+ * Rebuilds a session's active path and branches from its stored nodes.
+ * @param nodes - Every message of the session.
+ * @param activeLeafId - The last message of the active path.
+ */
+export const buildTree = (nodes: Message[], activeLeafId?: string): Pick<ChatSession, 'messages' | 'branches'> => {
+    const leaf = nodes.find(m => m.id === activeLeafId);
+    if (!leaf) {
+        return { messages: [], branches: nodes.length > 0 ? nodes : undefined };
+    }
+    const { messages, branches } = switchBranch({ id: '', title: '', createdAt: 0, updatedAt: 0, messages: nodes }, leaf.id);
+    return { messages, branches };
+};
@@ -0,0 +1,75 @@
+import { AuthSession, PasswordAuthProvider } from '../types';
+
+// Email and password accounts of the development auth server (server/authServer.ts, started
+// by `npm run sync-server` or `npm run auth-server`). It signs the access tokens, and the sync
+// server checks them.
+
+// Base URL of the auth server, set with AUTH_SERVER_URL at build time
+const getAuthServerUrl = (): string | null => {
+  try {
+    return process.env.AUTH_SERVER_URL?.replace(/\/+$/, '') || null;
+  } catch {
+    return null;
+  }
+};
+
+// Posts to the auth server, rejecting with the message it gives for the user
+const request = async <T>(path: string, body: object): Promise<T> => {
+  const baseUrl = getAuthServerUrl();
+  if (!baseUrl) {
+    throw new Error('O servidor de contas não está configurado. Defina AUTH_SERVER_URL em .env.local.');
+  }
+  let response: Response;
+  try {
+    response = await fetch(`${baseUrl}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+  } catch (error) {
+    console.error('Error reaching the auth server:', error);
+    throw new Error('Não foi possível conectar ao servidor de contas. Verifique sua conexão.');
+  }
+  const result = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(result.error || `O servidor de contas respondeu com o erro ${response.status}.`);
+  }
+  return result;
+};
+
+const signIn = (email: string, password: string): Promise<AuthSession> => {
+  return request('/auth/signin', { email, password });
+};
+
+const signUp = (email: string, password: string): Promise<AuthSession> => {
+  return request('/auth/signup', { email, password });
+};
+
+const refreshSession = (session: AuthSession): Promise<AuthSession> => {
+  return request('/auth/refresh', { refreshToken: session.refreshToken ?? '' });
+};
+
+const signOut = async (session: AuthSession): Promise<void> => {
+  if (session.refreshToken) {
+    await request('/auth/signout', { refreshToken: session.refreshToken });
+  }
+};
+
+// The server prints the code to its console, since there is no mail server in development
+const requestPasswordReset = async (email: string): Promise<void> => {
+  await request('/auth/password-reset/request', { email });
+};
+
+const resetPassword = async (email: string, code: string, newPassword: string): Promise<void> => {
+  await request('/auth/password-reset/confirm', { email, code, password: newPassword });
+};
+
+export const mockAuthProvider: PasswordAuthProvider = {
+  id: 'mock',
+  signIn,
+  signUp,
+  refreshSession,
+  signOut,
+  requestPasswordReset,
+  resetPassword,
+};
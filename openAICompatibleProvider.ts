@@ -0,0 +1,310 @@
+import { Message, PromptPart, ModelProvider, ProviderSettings, GenerationSettings, Usage, WithUsage, ImageGenerationOptions, Tool, ToolCall, ChatStreamEvent } from '../types';
+import { getMessageParts } from './attachmentService';
+import { runToolCall, MAX_TOOL_ROUNDS } from './toolService';
+import { addUsage } from './usageService';
+import { searchKnowledge } from './knowledgeService';
+import { getTitleSystemInstruction, getTitleUserPrompt, cleanChatTitle, getFallbackTitle, getSummarySystemInstruction, getSummaryUserPrompt, addKnowledgeToInstruction } from '../utils/promptUtils';
+
+// Message format of the OpenAI chat completions API
+type OpenAIContentPart = { type: 'text'; text: string } | { type: 'image_url'; image_url: { url: string } };
+
+interface OpenAIToolCall {
+    id: string;
+    type: 'function';
+    function: { name: string; arguments: string };
+}
+
+type OpenAIMessage =
+    | { role: 'system' | 'user' | 'assistant'; content: string | OpenAIContentPart[] }
+    | { role: 'assistant'; content: string | null; tool_calls: OpenAIToolCall[] }
+    | { role: 'tool'; tool_call_id: string; content: string };
+
+// Token counts as reported in the `usage` field of chat completion and embedding responses
+const toUsage = (model: string, usage?: { prompt_tokens?: number; completion_tokens?: number }): Usage | undefined => {
+    if (!usage) return undefined;
+    return { model, inputTokens: usage.prompt_tokens ?? 0, outputTokens: usage.completion_tokens ?? 0 };
+};
+
+// Function arguments arrive as a JSON string, which models do not always get right
+const parseToolArguments = (json: string): Record<string, unknown> => {
+    try {
+        const args = JSON.parse(json || '{}');
+        return typeof args === 'object' && args !== null ? args : {};
+    } catch {
+        return {};
+    }
+};
+
+// Yields the JSON payloads of a server-sent event stream: "data: {...}\n\n" ... "data: [DONE]"
+async function* readEventStream(body: ReadableStream<Uint8Array>): AsyncGenerator<any> {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    while (true) {
+        const { done, value } = await reader.read();
+        if (done) return;
+        buffer += decoder.decode(value, { stream: true });
+
+        const lines = buffer.split('\n');
+        buffer = lines.pop() ?? '';
+        for (const line of lines) {
+            const trimmed = line.trim();
+            if (!trimmed.startsWith('data:')) continue;
+            const payload = trimmed.slice('data:'.length).trim();
+            if (payload === '[DONE]') return;
+            yield JSON.parse(payload);
+        }
+    }
+}
+
+/**
+ * Turns a failed HTTP response or network error into a user-friendly error.
+ * Local servers are often simply not running, so that case gets its own message.
+ */
+const handleProviderError = (error: any, context: string): Error => {
+    console.error(`Error during ${context}:`, error);
+
+    if (error instanceof TypeError) {
+        return new Error("Não foi possível conectar ao servidor do modelo. Verifique se ele está em execução e se a URL nas configurações está correta.");
+    }
+
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return new Error(`Desculpe, ocorreu um erro inesperado durante a ${context}: ${errorMessage}`);
+};
+
+// Builds a user message; only images can be sent inline, other binary files (e.g. PDFs) are skipped
+const toOpenAIUserMessage = (attachmentParts: PromptPart[], text: string): OpenAIMessage => {
+    if (attachmentParts.length === 0) {
+        return { role: 'user', content: text };
+    }
+    const content = attachmentParts.map((part): OpenAIContentPart => {
+        if ('text' in part) {
+            return { type: 'text', text: part.text };
+        }
+        const { data, mimeType } = part.inlineData;
+        return mimeType.startsWith('image/')
+            ? { type: 'image_url', image_url: { url: `data:${mimeType};base64,${data}` } }
+            : { type: 'text', text: `[Anexo ${mimeType} não suportado por este provedor]` };
+    });
+    return { role: 'user', content: [...content, { type: 'text', text }] };
+};
+
+const messageToOpenAI = async (message: Message): Promise<OpenAIMessage> => {
+    if (message.sender === 'model') {
+        // The OpenAI format only accepts attachments in user messages
+        return { role: 'assistant', content: message.text };
+    }
+    return toOpenAIUserMessage(await getMessageParts(message), message.text);
+};
+
+/**
+ * Creates a provider that talks to any server implementing the OpenAI REST API,
+ * such as Ollama (`http://localhost:11434/v1`) or llama.cpp's `llama-server`.
+ * @param settings - Base URL, optional API key and model ids to use.
+ * @returns A `ModelProvider` backed by that server.
+ */
+export const createOpenAICompatibleProvider = (settings: ProviderSettings): ModelProvider => {
+    const baseUrl = settings.baseUrl.replace(/\/+$/, '');
+
+    const request = async (path: string, body: object, signal?: AbortSignal): Promise<Response> => {
+        const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+        if (settings.apiKey) {
+            headers['Authorization'] = `Bearer ${settings.apiKey}`;
+        }
+        const response = await fetch(`${baseUrl}${path}`, {
+            method: 'POST',
+            headers,
+            body: JSON.stringify(body),
+            signal,
+        });
+        if (!response.ok) {
+            const details = await response.text();
+            throw new Error(`HTTP ${response.status}: ${details || response.statusText}`);
+        }
+        return response;
+    };
+
+    // The API has no notion of documents and queries, so both are embedded the same way
+    const embedTexts = async (texts: string[]): Promise<WithUsage<number[][]>> => {
+        try {
+            const response = await request('/embeddings', { model: settings.embeddingModel, input: texts });
+            const data = await response.json();
+            const embeddings: number[][] = [...(data.data ?? [])]
+                .sort((a: { index: number }, b: { index: number }) => a.index - b.index)
+                .map((item: { embedding: number[] }) => item.embedding);
+            if (embeddings.length !== texts.length) {
+                throw new Error("O servidor não retornou os embeddings esperados.");
+            }
+            return { value: embeddings, usage: toUsage(settings.embeddingModel, data.usage) };
+        } catch (error) {
+            throw handleProviderError(error, 'indexação da base de conhecimento');
+        }
+    };
+
+    async function* generateContentStream(prompt: string, history: Message[], attachmentParts: PromptPart[], systemInstruction: string, generationSettings: GenerationSettings = {}, signal?: AbortSignal, tools: Tool[] = []): AsyncGenerator<ChatStreamEvent, Usage | undefined> {
+        const model = generationSettings.model || settings.chatModel;
+        const { value: citations, usage: searchUsage } = await searchKnowledge(prompt, { embeddingModel: settings.embeddingModel, embedTexts });
+        if (citations.length > 0 || searchUsage) {
+            yield { type: 'knowledge', citations, usage: searchUsage };
+        }
+        // Convert all but the last message (which is the current prompt) to the OpenAI format
+        const messages: OpenAIMessage[] = [
+            { role: 'system', content: addKnowledgeToInstruction(systemInstruction, citations) },
+            ...await Promise.all(history.slice(0, -1).map(messageToOpenAI)),
+            toOpenAIUserMessage(attachmentParts, prompt),
+        ];
+
+        const toolDeclarations = tools.map(({ name, description, parameters }) => ({ type: 'function', function: { name, description, parameters } }));
+
+        try {
+            let usage: Usage | undefined;
+            for (let round = 0; ; round++) {
+                const response = await request('/chat/completions', {
+                    model,
+                    messages,
+                    stream: true,
+                    // Asks for a last chunk with the token counts (ignored by servers that do not support it)
+                    stream_options: { include_usage: true },
+                    temperature: generationSettings.temperature,
+                    top_p: generationSettings.topP,
+                    max_tokens: generationSettings.maxOutputTokens,
+                    tools: toolDeclarations.length > 0 ? toolDeclarations : undefined,
+                    // After the last round of calls the model has to answer with what it has
+                    tool_choice: toolDeclarations.length > 0 && round >= MAX_TOOL_ROUNDS ? 'none' : undefined,
+                }, signal);
+                if (!response.body) {
+                    throw new Error("O servidor não retornou uma resposta em streaming.");
+                }
+
+                let text = '';
+                let requestUsage: Usage | undefined;
+                // Tool calls are streamed in pieces, keyed by their index
+                const toolCalls: OpenAIToolCall[] = [];
+                for await (const data of readEventStream(response.body)) {
+                    const delta = data.choices?.[0]?.delta;
+                    if (delta?.content) {
+                        text += delta.content;
+                        yield { type: 'text', text: delta.content };
+                    }
+                    for (const { index, id, function: fn } of delta?.tool_calls ?? []) {
+                        const toolCall = toolCalls[index] ?? (toolCalls[index] = { id: '', type: 'function', function: { name: '', arguments: '' } });
+                        if (id) toolCall.id = id;
+                        if (fn?.name) toolCall.function.name += fn.name;
+                        if (fn?.arguments) toolCall.function.arguments += fn.arguments;
+                    }
+                    requestUsage = toUsage(model, data.usage) ?? requestUsage;
+                }
+                usage = addUsage(usage, requestUsage);
+                const calls = toolCalls.filter(Boolean).map(toolCall => ({ ...toolCall, id: toolCall.id || crypto.randomUUID() }));
+                if (calls.length === 0 || signal?.aborted) {
+                    return usage;
+                }
+
+                messages.push({ role: 'assistant', content: text || null, tool_calls: calls });
+                for (const { id, function: fn } of calls) {
+                    const call: ToolCall = { id, name: fn.name, args: parseToolArguments(fn.arguments) };
+                    yield { type: 'toolCall', toolCall: call };
+                    const { result, error } = await runToolCall(tools, call);
+                    yield { type: 'toolCall', toolCall: { ...call, result, error } };
+                    messages.push({ role: 'tool', tool_call_id: id, content: JSON.stringify(error === undefined ? result : { error }) });
+                }
+            }
+        } catch (error) {
+            throw handleProviderError(error, 'resposta do chat');
+        }
+    }
+
+    const generateChatTitle = async (firstMessage: string, language: string): Promise<WithUsage<string>> => {
+        try {
+            const response = await request('/chat/completions', {
+                model: settings.chatModel,
+                messages: [
+                    { role: 'system', content: getTitleSystemInstruction(language) },
+                    { role: 'user', content: getTitleUserPrompt(firstMessage) },
+                ],
+            });
+            const data = await response.json();
+            return { value: cleanChatTitle(data.choices?.[0]?.message?.content ?? '', language), usage: toUsage(settings.chatModel, data.usage) };
+        } catch (error) {
+            // A failed title generation shouldn't break the user experience.
+            console.error("Error generating chat title:", error);
+            return { value: getFallbackTitle(language) };
+        }
+    };
+
+    const summarizeConversation = async (messages: Message[], previousSummary: string | undefined, language: string): Promise<WithUsage<string>> => {
+        try {
+            const response = await request('/chat/completions', {
+                model: settings.chatModel,
+                messages: [
+                    { role: 'system', content: getSummarySystemInstruction(language) },
+                    { role: 'user', content: getSummaryUserPrompt(messages, previousSummary) },
+                ],
+            });
+            const data = await response.json();
+            const summary = data.choices?.[0]?.message?.content?.trim();
+            if (summary) {
+                return { value: summary, usage: toUsage(settings.chatModel, data.usage) };
+            }
+            throw new Error("O servidor não retornou um resumo.");
+        } catch (error) {
+            throw handleProviderError(error, 'criação do resumo da conversa');
+        }
+    };
+
+    const generateImage = async (prompt: string, options: ImageGenerationOptions = {}): Promise<WithUsage<string[]>> => {
+        try {
+            const response = await request('/images/generations', {
+                model: settings.imageModel,
+                prompt,
+                n: options.numberOfImages ?? 1,
+                response_format: 'b64_json',
+            });
+            const data = await response.json();
+            const images: string[] = (data.data ?? []).map((image: { b64_json?: string }) => image.b64_json).filter(Boolean);
+            if (images.length > 0) {
+                return { value: images, usage: { model: settings.imageModel, inputTokens: 0, outputTokens: 0, images: images.length } };
+            }
+            throw new Error("A API não retornou uma imagem válida.");
+        } catch (error) {
+            throw handleProviderError(error, 'geração de imagem');
+        }
+    };
+
+    const editImage = async (): Promise<WithUsage<Blob>> => {
+        throw new Error("A edição de imagens não é suportada por este provedor.");
+    };
+
+    const startVideoGeneration = async (): Promise<string> => {
+        throw new Error("A geração de vídeo não é suportada por este provedor.");
+    };
+
+    const checkVideoGeneration = async (): Promise<WithUsage<Blob> | null> => {
+        throw new Error("A geração de vídeo não é suportada por este provedor.");
+    };
+
+    return {
+        id: 'openai-compatible',
+        label: 'Servidor compatível com OpenAI',
+        // Image generation is only offered when an image model has been configured
+        supportsImageGeneration: Boolean(settings.imageModel),
+        supportsVideoGeneration: false,
+        // The edits endpoint exists on few OpenAI-compatible servers and its mask format varies
+        supportsImageEditing: false,
+        // Safety filters are a Gemini feature; local servers have no equivalent
+        supportsSafetySettings: false,
+        chatModels: [settings.chatModel],
+        // Sizes, negative prompts and seeds differ between servers; only the count is standard
+        imageGenerationOptions: ['numberOfImages'],
+        generateContentStream,
+        generateChatTitle,
+        summarizeConversation,
+        // An empty model turns the knowledge base off for this provider
+        embeddingModel: settings.embeddingModel,
+        embedTexts,
+        generateImage,
+        editImage,
+        startVideoGeneration,
+        checkVideoGeneration,
+    };
+};
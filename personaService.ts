@@ -0,0 +1,57 @@
+import { Persona } from '../types';
+
+const PERSONAS_KEY = 'chat_personas';
+const DEFAULT_PERSONA_KEY = 'chat_default_persona';
+
+export const getPersonas = (): Persona[] => {
+  try {
+    const personasJson = localStorage.getItem(PERSONAS_KEY);
+    return personasJson ? JSON.parse(personasJson) : [];
+  } catch (error) {
+    console.error('Error loading personas from localStorage:', error);
+    return [];
+  }
+};
+
+export const savePersonas = (personas: Persona[]) => {
+  try {
+    localStorage.setItem(PERSONAS_KEY, JSON.stringify(personas));
+  } catch (error) {
+    console.error('Error saving personas to localStorage:', error);
+  }
+};
+
+// Creates the persona if its id is new, otherwise replaces the existing one
+export const upsertPersona = (persona: Persona): Persona[] => {
+    const personas = getPersonas();
+    const index = personas.findIndex(p => p.id === persona.id);
+    if (index >= 0) {
+        personas[index] = persona;
+    } else {
+        personas.push(persona);
+    }
+    savePersonas(personas);
+    return personas;
+};
+
+export const deletePersona = (personaId: string): Persona[] => {
+    const personas = getPersonas().filter(p => p.id !== personaId);
+    savePersonas(personas);
+    if (getDefaultPersonaId() === personaId) {
+        saveDefaultPersonaId(null);
+    }
+    return personas;
+};
+
+// The persona attached to newly created chats, if any
+export const getDefaultPersonaId = (): string | null => {
+    return localStorage.getItem(DEFAULT_PERSONA_KEY);
+};
+
+export const saveDefaultPersonaId = (personaId: string | null) => {
+    if (personaId) {
+        localStorage.setItem(DEFAULT_PERSONA_KEY, personaId);
+    } else {
+        localStorage.removeItem(DEFAULT_PERSONA_KEY);
+    }
+};
@@ -0,0 +1,113 @@
+import { Persona, Message, KnowledgeCitation } from '../types';
+
+// Prompt helpers shared by every model provider, so all backends answer the same way.
+
+export const getLanguageInstruction = (language: string): string => {
+    return language === 'pt-BR'
+        ? 'Responda em português do Brasil.'
+        : 'Respond in English.';
+};
+
+/**
+ * Builds the full system instruction for a chat turn.
+ * @param language - The desired response language ('pt-BR' or 'en-US').
+ * @param persona - Optional persona whose system prompt comes first.
+ * @param customInstructions - Optional information the user taught in this chat.
+ * @param conversationSummary - Optional summary of the earlier turns that are no longer sent.
+ * @returns The combined system instruction.
+ */
+export const buildSystemInstruction = (language: string, persona?: Persona, customInstructions?: string, conversationSummary?: string): string => {
+    const sections: string[] = [];
+    if (persona?.systemPrompt.trim()) {
+        sections.push(persona.systemPrompt.trim());
+    }
+    if (customInstructions?.trim()) {
+        sections.push(`Informações que o usuário pediu para você lembrar nesta conversa:\n${customInstructions.trim()}`);
+    }
+    if (conversationSummary?.trim()) {
+        sections.push(`Resumo do início desta conversa (as mensagens originais não estão mais no histórico):\n${conversationSummary.trim()}`);
+    }
+    sections.push(getLanguageInstruction(language));
+    return sections.join('\n\n');
+};
+
+export const getSummarySystemInstruction = (language: string): string => {
+    return language === 'pt-BR'
+        ? 'Você resume conversas para que possam continuar sem as mensagens originais. Mantenha fatos, decisões, números, nomes, pedidos do usuário e perguntas em aberto. Seja conciso e escreva em tópicos. Responda apenas com o resumo.'
+        : 'You summarize conversations so they can continue without the original messages. Keep facts, decisions, numbers, names, user requests and open questions. Be concise and use bullet points. Respond with only the summary.';
+};
+
+/**
+ * Builds the prompt asking a model to fold messages into the running summary.
+ * @param messages - The messages to summarize, oldest first.
+ * @param previousSummary - The summary of the turns before them, if any.
+ */
+export const getSummaryUserPrompt = (messages: Message[], previousSummary?: string): string => {
+    const transcript = messages
+        .map(message => `${message.sender === 'user' ? 'Usuário' : 'Assistente'}: ${message.text}`)
+        .join('\n\n');
+    return previousSummary
+        ? `Resumo anterior:\n${previousSummary}\n\nAtualize o resumo incluindo a continuação da conversa:\n\n${transcript}`
+        : `Resuma a conversa:\n\n${transcript}`;
+};
+
+export const getTitleSystemInstruction = (language: string): string => {
+    return language === 'pt-BR'
+        ? `Você é um gerador de títulos para chats. Sua tarefa é criar um título curto e conciso (máximo 4 palavras) para a conversa, baseado na primeira mensagem do usuário. Responda *apenas* com o título, sem formatação extra, aspas, ou palavras como "Título:".`
+        : `You are a chat title generator. Your task is to create a short and concise title (maximum 4 words) for the conversation, based on the user's first message. Respond with *only* the title, without extra formatting, quotes, or words like "Title:".`;
+};
+
+export const getTitleUserPrompt = (firstMessage: string): string => {
+    return `Generate a title for a chat starting with: "${firstMessage}"`;
+};
+
+export const getFallbackTitle = (language: string): string => {
+    return language === 'pt-BR' ? 'Novo Chat' : 'New Chat';
+};
+
+/**
+ * Cleans up a raw title returned by a model.
+ * @param rawTitle - The model output.
+ * @param language - Used to pick the fallback title when nothing is left after cleaning.
+ * @returns A title without prefixes, quotes or markdown characters.
+ */
+export const cleanChatTitle = (rawTitle: string, language: string): string => {
+    let title = rawTitle.trim();
+
+    // 1. Remove common model prefixes like "Título: " or "Title: " (case-insensitive)
+    title = title.replace(/^(título|title):?\s*/i, '');
+    // 2. Remove any surrounding quotes, asterisks, or markdown characters from the start and end.
+    title = title.replace(/^["'*#\s]+|["'*#\s]+$/g, '');
+
+    // Ensure the title is not empty after cleaning, otherwise use the fallback.
+    return title || getFallbackTitle(language);
+};
+
+/**
+ * Builds the instruction for an image edit. Gemini's image model takes no mask parameter,
+ * so the mask is sent as a second image and described here.
+ * @param instruction - What the user wants changed.
+ * @param hasMask - Whether a mask image follows the image to edit.
+ */
+export const getImageEditPrompt = (instruction: string, hasMask: boolean): string => {
+    if (!hasMask) {
+        return `Edit the image as follows: ${instruction}`;
+    }
+    return `The first image is the image to edit. The second image is a mask of the same size: change only the areas that are white in the mask and keep everything in the black areas exactly as it is. Blend the changes naturally with their surroundings. Do not draw the mask itself. Edit: ${instruction}`;
+};
+
+/**
+ * Adds the knowledge base passages found for a prompt to the system instruction,
+ * numbered so the answer can cite them.
+ * @param systemInstruction - The chat's system instruction.
+ * @param citations - The passages, as returned by searchKnowledge.
+ */
+export const addKnowledgeToInstruction = (systemInstruction: string, citations: KnowledgeCitation[]): string => {
+    if (citations.length === 0) {
+        return systemInstruction;
+    }
+    const passages = citations
+        .map(citation => `[${citation.index}] ${citation.title}\n${citation.text}`)
+        .join('\n\n');
+    return `${systemInstruction}\n\nTrechos da base de conhecimento que o usuário ensinou a você (via "Aprender"), escolhidos por semelhança com a mensagem atual. Use os que forem relevantes e cite-os pelo número entre colchetes, como [1], logo após a informação que vem deles. Ignore os que não ajudarem a responder e não os mencione.\n\n${passages}`;
+};
@@ -0,0 +1,43 @@
+import { ModelProvider, ProviderSettings } from '../types';
+import { geminiProvider } from './geminiService';
+import { createOpenAICompatibleProvider } from './openAICompatibleProvider';
+
+const PROVIDER_SETTINGS_KEY = 'model_provider_settings';
+
+export const DEFAULT_PROVIDER_SETTINGS: ProviderSettings = {
+  providerId: 'gemini',
+  baseUrl: 'http://localhost:11434/v1',
+  apiKey: '',
+  chatModel: 'llama3.2',
+  imageModel: '',
+  embeddingModel: 'nomic-embed-text',
+};
+
+export const getProviderSettings = (): ProviderSettings => {
+  try {
+    const settingsJson = localStorage.getItem(PROVIDER_SETTINGS_KEY);
+    // Merge with the defaults so settings saved by older versions get new fields
+    return settingsJson ? { ...DEFAULT_PROVIDER_SETTINGS, ...JSON.parse(settingsJson) } : DEFAULT_PROVIDER_SETTINGS;
+  } catch (error) {
+    console.error('Error loading provider settings from localStorage:', error);
+    return DEFAULT_PROVIDER_SETTINGS;
+  }
+};
+
+export const saveProviderSettings = (settings: ProviderSettings) => {
+  try {
+    localStorage.setItem(PROVIDER_SETTINGS_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error('Error saving provider settings to localStorage:', error);
+  }
+};
+
+export const getModelProvider = (settings: ProviderSettings): ModelProvider => {
+  switch (settings.providerId) {
+    case 'openai-compatible':
+      return createOpenAICompatibleProvider(settings);
+    case 'gemini':
+    default:
+      return geminiProvider;
+  }
+};
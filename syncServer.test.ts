@@ -0,0 +1,112 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import type { Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import type { SyncChange, SyncPullResponse } from '../types';
+import { createAccessTokenVerifier, createAuthServer } from './authServer.ts';
+import { createSyncServer } from './syncServer.ts';
+
+const SECRET = 'test-secret';
+
+const listen = (server: Server): Promise<string> => new Promise(resolve => {
+  server.listen(0, () => resolve(`http://localhost:${(server.address() as AddressInfo).port}`));
+});
+
+const close = (server: Server): Promise<void> => new Promise(resolve => server.close(() => resolve()));
+
+const sessionChange = (updatedAt: number, title: string): SyncChange => ({
+  kind: 'session',
+  sessionId: 'session-1',
+  id: 'session-1',
+  updatedAt,
+  data: { id: 'session-1', title } as any,
+});
+
+describe('sync server', () => {
+  const authServer = createAuthServer({ secret: SECRET });
+  const syncServer = createSyncServer({ verifyToken: createAccessTokenVerifier(SECRET) });
+  let authUrl: string;
+  let syncUrl: string;
+
+  const signUp = async (email: string): Promise<string> => {
+    const response = await fetch(`${authUrl}/auth/signup`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ email, password: 'password123' }),
+    });
+    return (await response.json()).accessToken;
+  };
+
+  const push = async (accessToken: string, clientId: string, changes: SyncChange[]) => {
+    const response = await fetch(`${syncUrl}/sync/push`, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${accessToken}`, 'Content-Type': 'application/json' },
+      body: JSON.stringify({ clientId, changes }),
+    });
+    return { status: response.status, body: await response.json() };
+  };
+
+  const pull = async (accessToken: string, clientId: string, since = 0): Promise<SyncPullResponse> => {
+    const response = await fetch(`${syncUrl}/sync/pull?since=${since}&clientId=${clientId}`, {
+      headers: { Authorization: `Bearer ${accessToken}` },
+    });
+    expect(response.status).toBe(200);
+    return response.json();
+  };
+
+  beforeAll(async () => {
+    authUrl = await listen(authServer);
+    syncUrl = await listen(syncServer);
+  });
+
+  afterAll(async () => {
+    await close(authServer);
+    await close(syncServer);
+  });
+
+  it('returns what one device pushed to the other devices of the same user', async () => {
+    const accessToken = await signUp('round-trip@example.com');
+
+    const pushed = await push(accessToken, 'laptop', [sessionChange(1000, 'Receitas')]);
+    expect(pushed).toEqual({ status: 200, body: { accepted: 1 } });
+
+    const { changes, cursor } = await pull(accessToken, 'phone');
+    expect(changes).toEqual([sessionChange(1000, 'Receitas')]);
+    expect((await pull(accessToken, 'phone', cursor)).changes).toEqual([]);
+    // The device that pushed already has its own changes
+    expect((await pull(accessToken, 'laptop')).changes).toEqual([]);
+  });
+
+  it('keeps the most recently updated version when devices conflict', async () => {
+    const accessToken = await signUp('conflict@example.com');
+
+    await push(accessToken, 'laptop', [sessionChange(2000, 'Editado no notebook')]);
+    const stale = await push(accessToken, 'phone', [sessionChange(1500, 'Editado no celular')]);
+    expect(stale.body).toEqual({ accepted: 0 });
+    expect((await pull(accessToken, 'phone')).changes).toEqual([sessionChange(2000, 'Editado no notebook')]);
+
+    await push(accessToken, 'phone', [sessionChange(3000, 'Editado de novo no celular')]);
+    expect((await pull(accessToken, 'laptop')).changes).toEqual([sessionChange(3000, 'Editado de novo no celular')]);
+  });
+
+  it('keeps each user\'s records apart', async () => {
+    const owner = await signUp('owner@example.com');
+    const other = await signUp('other@example.com');
+
+    await push(owner, 'laptop', [sessionChange(1000, 'Particular')]);
+    expect((await pull(other, 'phone')).changes).toEqual([]);
+  });
+
+  it('rejects requests without a valid access token', async () => {
+    const accessToken = await signUp('tampered@example.com');
+
+    expect((await push(`${accessToken}x`, 'laptop', [sessionChange(1000, 'Receitas')])).status).toBe(401);
+    expect((await push('mock.any-account.anything', 'laptop', [])).status).toBe(401);
+  });
+
+  it('rejects malformed changes', async () => {
+    const accessToken = await signUp('malformed@example.com');
+
+    const { status } = await push(accessToken, 'laptop', [{ kind: 'session', id: 'session-1' } as SyncChange]);
+    expect(status).toBe(400);
+  });
+});
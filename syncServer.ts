@@ -0,0 +1,200 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import { pathToFileURL } from 'node:url';
+import type { SyncChange, SyncPullResponse, SyncPushRequest } from '../types';
+import { ACCESS_TOKEN_PREFIX, createAccessTokenVerifier, createAuthServer, getAuthPort, getAuthSecret } from './authServer.ts';
+
+// Reference implementation of the sync REST API used by services/syncService.ts.
+// Everything is kept in memory, so it suits local development and tests, not production.
+//
+//   POST /sync/push  { clientId, changes }  -> { accepted }
+//   GET  /sync/pull?since=<cursor>&clientId=<id>  -> { changes, cursor }
+//
+// Every request needs "Authorization: Bearer <access token>"; each user only sees their own records.
+
+const MAX_BODY_BYTES = 50 * 1024 * 1024;
+const DEFAULT_PORT = 8787;
+// Of the auth server started alongside; `npm run auth-server` alone listens on 8789 by default
+const DEFAULT_AUTH_PORT = 8788;
+
+// Resolves an access token to a user id, or null if the token is not accepted
+export type TokenVerifier = (accessToken: string) => Promise<string | null>;
+
+type StoredChange = SyncChange & {
+  // Position in the change log; pulls return everything after the client's cursor
+  seq: number;
+  clientId: string;
+};
+
+export interface SyncServerOptions {
+  // Required, so a server cannot end up trusting tokens nobody checked
+  verifyToken: TokenVerifier;
+}
+
+// Plain fields only: the file runs with Node's type stripping, which has no parameter properties
+class HttpError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+    this.name = "HttpError";
+  }
+}
+
+// Accepts Google access tokens, checked with Google's tokeninfo endpoint
+export const verifyGoogleToken: TokenVerifier = async (accessToken) => {
+  const response = await fetch(`https://oauth2.googleapis.com/tokeninfo?access_token=${encodeURIComponent(accessToken)}`);
+  if (!response.ok) return null;
+  const { sub } = await response.json();
+  return sub ? `google:${sub}` : null;
+};
+
+const isValidChange = (change: any): change is SyncChange => {
+  return typeof change === 'object' && change !== null
+    && (change.kind === 'session' || change.kind === 'message')
+    && typeof change.sessionId === 'string'
+    && typeof change.id === 'string'
+    && typeof change.updatedAt === 'number'
+    && (change.deleted === true || (typeof change.data === 'object' && change.data !== null));
+};
+
+const readJsonBody = (request: IncomingMessage): Promise<any> => {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    request.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new HttpError(413, 'Request body too large'));
+        request.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    request.on('end', () => {
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+      } catch {
+        reject(new HttpError(400, 'Invalid JSON'));
+      }
+    });
+    request.on('error', reject);
+  });
+};
+
+const sendJson = (response: ServerResponse, status: number, body: object) => {
+  response.writeHead(status, { 'Content-Type': 'application/json' });
+  response.end(JSON.stringify(body));
+};
+
+/**
+ * Creates the sync server; call `listen()` on the result.
+ * @param options - How access tokens are checked, e.g. createAccessTokenVerifier or verifyGoogleToken.
+ */
+export const createSyncServer = ({ verifyToken }: SyncServerOptions): Server => {
+  // Latest version of each record, per user and record key
+  const changesByUser = new Map<string, Map<string, StoredChange>>();
+  let lastSeq = 0;
+
+  const getUserChanges = (userId: string) => {
+    let changes = changesByUser.get(userId);
+    if (!changes) {
+      changes = new Map();
+      changesByUser.set(userId, changes);
+    }
+    return changes;
+  };
+
+  // Keeps the most recently updated version of each record
+  const push = (userId: string, { clientId, changes }: SyncPushRequest): number => {
+    const stored = getUserChanges(userId);
+    let accepted = 0;
+    for (const change of changes) {
+      const key = `${change.kind}:${change.sessionId}:${change.id}`;
+      const existing = stored.get(key);
+      if (existing && existing.updatedAt > change.updatedAt) continue;
+      stored.set(key, { ...change, seq: ++lastSeq, clientId });
+      accepted++;
+
+      if (change.kind === 'session' && change.deleted) {
+        // Clients drop the messages of a deleted session themselves
+        for (const [otherKey, other] of stored) {
+          if (other.kind === 'message' && other.sessionId === change.sessionId) stored.delete(otherKey);
+        }
+      }
+    }
+    return accepted;
+  };
+
+  // Records changed after the cursor, except those last written by the asking client
+  const pull = (userId: string, since: number, clientId: string): SyncPullResponse => {
+    const changes = [...getUserChanges(userId).values()]
+      .filter(change => change.seq > since && change.clientId !== clientId)
+      .sort((a, b) => a.seq - b.seq)
+      .map(({ seq, clientId, ...change }) => change);
+    return { changes, cursor: lastSeq };
+  };
+
+  const handleRequest = async (request: IncomingMessage, response: ServerResponse) => {
+    const url = new URL(request.url ?? '/', 'http://localhost');
+    const accessToken = request.headers.authorization?.match(/^Bearer (.+)$/)?.[1];
+    const userId = accessToken ? await verifyToken(accessToken) : null;
+    if (!userId) {
+      throw new HttpError(401, 'Missing or invalid access token');
+    }
+
+    if (request.method === 'POST' && url.pathname === '/sync/push') {
+      const body = await readJsonBody(request);
+      if (typeof body?.clientId !== 'string' || !Array.isArray(body.changes) || !body.changes.every(isValidChange)) {
+        throw new HttpError(400, 'Expected { clientId, changes }');
+      }
+      sendJson(response, 200, { accepted: push(userId, body) });
+      return;
+    }
+    if (request.method === 'GET' && url.pathname === '/sync/pull') {
+      const since = Number(url.searchParams.get('since') ?? 0);
+      const clientId = url.searchParams.get('clientId') ?? '';
+      if (!Number.isFinite(since)) {
+        throw new HttpError(400, 'Invalid cursor');
+      }
+      sendJson(response, 200, pull(userId, since, clientId));
+      return;
+    }
+    throw new HttpError(404, 'Not found');
+  };
+
+  return createServer((request, response) => {
+    // The app is served from another origin (Vite or GitHub Pages)
+    response.setHeader('Access-Control-Allow-Origin', '*');
+    response.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type');
+    response.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+    if (request.method === 'OPTIONS') {
+      response.writeHead(204);
+      response.end();
+      return;
+    }
+    handleRequest(request, response).catch(error => {
+      if (!(error instanceof HttpError)) {
+        console.error('Error handling sync request:', error);
+      }
+      sendJson(response, error instanceof HttpError ? error.status : 500, { error: error.message });
+    });
+  });
+};
+
+// Started directly (npm run sync-server) rather than imported by a test. The auth server for
+// email and password accounts runs alongside, so the sync server can check its tokens.
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const port = Number(process.env.PORT) || DEFAULT_PORT;
+  const authPort = getAuthPort(DEFAULT_AUTH_PORT);
+  const secret = getAuthSecret();
+  const verifyAccessToken = createAccessTokenVerifier(secret);
+  createAuthServer({ secret }).listen(authPort, () => {
+    console.log(`Auth server listening on http://localhost:${authPort}`);
+  });
+  createSyncServer({
+    verifyToken: (accessToken) => accessToken.startsWith(ACCESS_TOKEN_PREFIX) ? verifyAccessToken(accessToken) : verifyGoogleToken(accessToken),
+  }).listen(port, () => {
+    console.log(`Sync server listening on http://localhost:${port}`);
+  });
+}
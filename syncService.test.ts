@@ -0,0 +1,109 @@
+import { IDBFactory, IDBKeyRange } from 'fake-indexeddb';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { ChatSession, Message, SyncChange } from '../types';
+
+vi.mock('./authService', () => ({
+  getCurrentUser: () => ({ id: 'bia', email: 'bia@exemplo.com' }),
+  getAccessToken: async () => 'token-da-bia',
+  onAuthChange: () => () => {},
+}));
+
+const message = (id: string, text: string, parentId?: string): Message => ({
+  id, parentId, text, sender: 'user', createdAt: 1, updatedAt: 1,
+});
+
+const session = (id: string, title: string, messages: Message[]): ChatSession => ({
+  id, title, createdAt: 1, updatedAt: 1, messages,
+});
+
+// Ana's chats: one already on the server, one made offline that never got there
+const synced = session('synced', 'Receitas de bolo', [message('s1', 'Como faço um bolo de cenoura?')]);
+const unsynced = session('unsynced', 'Viagem de férias', [
+  message('u1', 'Quero viajar para o Nordeste.'),
+  message('u2', 'Quais praias você recomenda?', 'u1'),
+]);
+
+const setUp = async (pendingSessionIds: string[]) => {
+  const pending = Object.fromEntries(pendingSessionIds.map(sessionId => [
+    `session:${sessionId}:${sessionId}`,
+    { kind: 'session', sessionId, id: sessionId, updatedAt: 2 },
+  ]));
+  localStorage.setItem('sync_state', JSON.stringify({ userId: 'ana', clientId: 'navegador', cursor: 7, pending }));
+
+  vi.resetModules();
+  const chatHistory = await import('./chatHistoryService');
+  await chatHistory.loadChatHistory();
+  chatHistory.applySyncedHistory([synced, unsynced]);
+  const sync = await import('./syncService');
+  return { ...chatHistory, ...sync };
+};
+
+const pushedChanges = (): string[] => {
+  return vi.mocked(fetch).mock.calls
+    .filter(([url]) => String(url).endsWith('/sync/push'))
+    .flatMap(([, init]) => JSON.parse(String(init?.body)).changes)
+    .map((change: SyncChange) => `${change.kind}:${change.id}`);
+};
+
+const waitForPull = () => vi.waitFor(() => {
+  expect(fetch).toHaveBeenCalledWith(expect.stringContaining('/sync/pull'), expect.anything());
+});
+
+describe('startSync', () => {
+  beforeEach(() => {
+    const storage = new Map<string, string>();
+    vi.stubGlobal('indexedDB', new IDBFactory());
+    vi.stubGlobal('IDBKeyRange', IDBKeyRange);
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => storage.get(key) ?? null,
+      setItem: (key: string, value: string) => storage.set(key, value),
+      removeItem: (key: string) => storage.delete(key),
+    });
+    vi.stubGlobal('window', { addEventListener: () => {}, removeEventListener: () => {} });
+    vi.stubGlobal('navigator', { onLine: true });
+    vi.stubGlobal('fetch', vi.fn(async (url: string) => ({
+      ok: true,
+      json: async () => url.includes('/sync/pull') ? { changes: [], cursor: 1 } : {},
+    })));
+    vi.stubEnv('SYNC_SERVER_URL', 'http://localhost:8787');
+  });
+
+  it('removes the previous account\'s chats without asking when all of them were pushed', async () => {
+    const { startSync, getChatHistory } = await setUp([]);
+    const confirmAddChats = vi.fn(() => true);
+    const stopSync = startSync(() => {}, confirmAddChats);
+    await waitForPull();
+    stopSync();
+
+    expect(confirmAddChats).not.toHaveBeenCalled();
+    expect(getChatHistory()).toEqual([]);
+    expect(pushedChanges()).toEqual([]);
+  });
+
+  it('adds the chats that were never pushed to the new account when the user agrees', async () => {
+    const { startSync, getChatHistory } = await setUp(['unsynced']);
+    const confirmAddChats = vi.fn(() => true);
+    const stopSync = startSync(() => {}, confirmAddChats);
+    await waitForPull();
+    stopSync();
+
+    expect(confirmAddChats).toHaveBeenCalledWith([unsynced]);
+    expect(getChatHistory().map(s => s.id)).toEqual(['unsynced']);
+    expect(pushedChanges().sort()).toEqual(['message:u1', 'message:u2', 'session:unsynced']);
+  });
+
+  it('keeps them in the trash otherwise, and adds one to the account once restored', async () => {
+    const { startSync, getChatHistory, restoreSessions, getSyncStatus } = await setUp(['unsynced']);
+    const stopSync = startSync(() => {}, () => false);
+    await waitForPull();
+
+    const [kept] = getChatHistory();
+    expect(getChatHistory()).toHaveLength(1);
+    expect(kept).toMatchObject({ id: 'unsynced', deletedAt: expect.any(Number) });
+    expect(pushedChanges()).toEqual([]);
+
+    restoreSessions(['unsynced']);
+    expect(getSyncStatus().pendingCount).toBe(3);
+    stopSync();
+  });
+});
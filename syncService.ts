@@ -0,0 +1,358 @@
+import { ChatSession, Message, SyncChange, SyncPullResponse, SyncPushRequest, SyncStatus } from '../types';
+import { getChatHistory, onHistoryChange, applySyncedHistory, toSessionRecord, isInTrash, HistoryChanges, SessionRecord } from './chatHistoryService';
+import { getCurrentUser, getAccessToken, onAuthChange } from './authService';
+import { buildTree, getAllMessages } from '../utils/messageTreeUtils';
+
+const SYNC_STATE_KEY = 'sync_state';
+// Edits are pushed in batches, a moment after the last one
+const PUSH_DELAY_MS = 2000;
+const PULL_INTERVAL_MS = 30 * 1000;
+
+type PendingChange = Omit<SyncChange, 'data'>;
+
+interface SyncState {
+  // The account the local history belongs to: the one it was last synced with. Null until the
+  // first sync, when the chats made so far are added to the account that signs in.
+  userId: string | null;
+  clientId: string;
+  cursor: number;
+  // Local changes the server has not accepted yet, by record. They survive reloads, so edits
+  // made offline are pushed later; the data itself is read from the history when pushing.
+  pending: Record<string, PendingChange>;
+  // Chats of the previous account that were never pushed, kept in the trash of this browser when
+  // the user chose not to add them to the account that signed in. Restoring one adds it after all.
+  localSessionIds?: string[];
+  lastSyncedAt?: number;
+}
+
+type SyncStatusListener = (status: SyncStatus) => void;
+type SyncedHistoryListener = (history: ChatSession[]) => void;
+// Asked when another account signs in while chats of the previous one were never pushed
+type ConfirmAddChats = (sessions: ChatSession[]) => boolean | Promise<boolean>;
+
+// Base URL of the sync REST API, set with SYNC_SERVER_URL at build time
+const getSyncServerUrl = (): string | null => {
+  try {
+    return process.env.SYNC_SERVER_URL?.replace(/\/+$/, '') || null;
+  } catch {
+    return null;
+  }
+};
+
+const loadSyncState = (): SyncState => {
+  try {
+    const json = localStorage.getItem(SYNC_STATE_KEY);
+    if (json) return JSON.parse(json);
+  } catch (error) {
+    console.error('Error loading sync state from localStorage:', error);
+  }
+  return { userId: null, clientId: crypto.randomUUID(), cursor: 0, pending: {} };
+};
+
+let syncState = loadSyncState();
+let isSyncing = false;
+let hasFailed = false;
+// Set when a sync is requested while one is running, so it runs again afterwards
+let isSyncRequested = false;
+let pushTimer: ReturnType<typeof setTimeout> | undefined;
+// The sync in progress, so flushSync can wait for it
+let runningSync: Promise<void> | null = null;
+let syncOptions: { onSyncedHistory: SyncedHistoryListener; confirmAddChats: ConfirmAddChats } | null = null;
+const statusListeners = new Set<SyncStatusListener>();
+
+const getChangeKey = (change: PendingChange) => `${change.kind}:${change.sessionId}:${change.id}`;
+
+export const getSyncStatus = (): SyncStatus => {
+  const pendingCount = Object.keys(syncState.pending).length;
+  let state: SyncStatus['state'];
+  if (!getSyncServerUrl() || !getCurrentUser()) state = 'disabled';
+  else if (!navigator.onLine) state = 'offline';
+  else if (isSyncing) state = 'syncing';
+  else if (hasFailed) state = 'error';
+  else state = 'idle';
+  return { state, pendingCount, lastSyncedAt: syncState.lastSyncedAt };
+};
+
+/**
+ * Registers a callback for changes of the sync status shown in the settings.
+ * @returns A function that removes the listener.
+ */
+export const onSyncStatusChange = (listener: SyncStatusListener): (() => void) => {
+  statusListeners.add(listener);
+  return () => {
+    statusListeners.delete(listener);
+  };
+};
+
+const saveSyncState = () => {
+  try {
+    localStorage.setItem(SYNC_STATE_KEY, JSON.stringify(syncState));
+  } catch (error) {
+    console.error('Error saving sync state to localStorage:', error);
+  }
+  const status = getSyncStatus();
+  statusListeners.forEach(listener => listener(status));
+};
+
+const addPending = (change: PendingChange) => {
+  syncState.pending[getChangeKey(change)] = change;
+};
+
+// Queues local edits, stamped with the time they were made
+const recordChanges = (changes: HistoryChanges) => {
+  const updatedAt = Date.now();
+  const localSessionIds = new Set(syncState.localSessionIds);
+  for (const session of changes.sessions) {
+    if (!localSessionIds.has(session.id)) {
+      addPending({ kind: 'session', sessionId: session.id, id: session.id, updatedAt });
+    } else if (!isInTrash(session)) {
+      // The server has none of it yet, so the whole chat is sent
+      syncState.localSessionIds = syncState.localSessionIds.filter(id => id !== session.id);
+      queueEntireHistory([session]);
+    }
+  }
+  for (const { sessionId, message } of changes.messages) {
+    if (localSessionIds.has(sessionId)) continue;
+    addPending({ kind: 'message', sessionId, id: message.id, updatedAt });
+  }
+  for (const { sessionId, messageId } of changes.removedMessages) {
+    if (localSessionIds.has(sessionId)) continue;
+    addPending({ kind: 'message', sessionId, id: messageId, updatedAt, deleted: true });
+  }
+  for (const sessionId of changes.removedSessionIds) {
+    if (localSessionIds.has(sessionId)) {
+      syncState.localSessionIds = syncState.localSessionIds.filter(id => id !== sessionId);
+      continue;
+    }
+    // Deleting the session deletes its messages everywhere, so their own changes are moot
+    for (const [key, change] of Object.entries(syncState.pending)) {
+      if (change.sessionId === sessionId) delete syncState.pending[key];
+    }
+    addPending({ kind: 'session', sessionId, id: sessionId, updatedAt, deleted: true });
+  }
+  saveSyncState();
+};
+
+// Queues the whole history for the first sync of a browser with an account. Records keep the time
+// they were last updated, so anything edited more recently on another device wins.
+const queueEntireHistory = (history: ChatSession[]) => {
+  for (const session of history) {
+    addPending({ kind: 'session', sessionId: session.id, id: session.id, updatedAt: session.updatedAt });
+    for (const message of getAllMessages(session)) {
+      addPending({ kind: 'message', sessionId: session.id, id: message.id, updatedAt: message.updatedAt });
+    }
+  }
+};
+
+// Fills in the current data of each queued record; records that no longer exist are sent as deleted
+const buildPushChanges = (history: ChatSession[]): SyncChange[] => {
+  const sessions = new Map(history.map(session => [session.id, session]));
+  return Object.values(syncState.pending).map(change => {
+    if (change.deleted) return change;
+    const session = sessions.get(change.sessionId);
+    const data = change.kind === 'session'
+      ? session && toSessionRecord(session)
+      : session && getAllMessages(session).find(m => m.id === change.id);
+    return data ? { ...change, data } : { ...change, deleted: true };
+  });
+};
+
+/**
+ * Applies changes pulled from the server. Per session and per message, the version
+ * changed last wins: a local edit still waiting to be pushed is kept if it is newer.
+ */
+const mergeRemoteChanges = (history: ChatSession[], changes: SyncChange[]): ChatSession[] => {
+  const sessions = new Map(history.map(session => [session.id, session]));
+  const changesBySession = new Map<string, SyncChange[]>();
+  for (const change of changes) {
+    changesBySession.set(change.sessionId, [...(changesBySession.get(change.sessionId) ?? []), change]);
+  }
+
+  for (const [sessionId, sessionChanges] of changesBySession) {
+    const localSession = sessions.get(sessionId);
+    // null once deleted; undefined for messages of a session this device does not have
+    let record: SessionRecord | null | undefined = localSession && toSessionRecord(localSession);
+    const nodes = new Map<string, Message>(localSession ? getAllMessages(localSession).map(m => [m.id, m]) : []);
+    let hasChanged = false;
+
+    for (const change of sessionChanges) {
+      const key = getChangeKey(change);
+      const localChange = syncState.pending[key];
+      if (localChange && localChange.updatedAt > change.updatedAt) continue;
+      delete syncState.pending[key];
+      hasChanged = true;
+      if (change.kind === 'session') {
+        record = change.deleted ? null : change.data as SessionRecord;
+      } else if (change.deleted) {
+        nodes.delete(change.id);
+      } else {
+        nodes.set(change.id, change.data as Message);
+      }
+    }
+    if (!hasChanged) continue;
+
+    if (!record) {
+      sessions.delete(sessionId);
+      continue;
+    }
+    const { activeLeafId, ...sessionFields } = record;
+    const messages = [...nodes.values()];
+    // The active message may not have arrived yet; show the newest one instead
+    const leafId = activeLeafId && nodes.has(activeLeafId)
+      ? activeLeafId
+      : messages.reduce<Message | undefined>((newest, m) => !newest || m.createdAt > newest.createdAt ? m : newest, undefined)?.id;
+    sessions.set(sessionId, { ...sessionFields, ...buildTree(messages, leafId) });
+  }
+  return [...sessions.values()];
+};
+
+const request = async <T>(path: string, accessToken: string, body?: object): Promise<T> => {
+  const response = await fetch(`${getSyncServerUrl()}${path}`, {
+    method: body ? 'POST' : 'GET',
+    headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${accessToken}` },
+    body: body && JSON.stringify(body),
+  });
+  if (!response.ok) {
+    const details = await response.text();
+    throw new Error(`HTTP ${response.status}: ${details || response.statusText}`);
+  }
+  return response.json();
+};
+
+/**
+ * Hands the local history over to another account. The previous account's chats are already on
+ * the server (see flushSync), so they are only removed here; the pull brings in the new account's.
+ * Chats that were never pushed would be lost that way, so the user chooses between adding them to
+ * the new account and keeping them in the trash of this browser.
+ */
+const switchAccount = async (unsyncedIds: Set<string>, confirmAddChats: ConfirmAddChats): Promise<ChatSession[]> => {
+  const unsynced = getChatHistory().filter(session => unsyncedIds.has(session.id));
+  if (unsynced.length > 0 && await confirmAddChats(unsynced)) {
+    queueEntireHistory(unsynced);
+    return unsynced;
+  }
+  syncState.localSessionIds = unsynced.map(session => session.id);
+  const deletedAt = Date.now();
+  return unsynced.map(session => isInTrash(session) ? session : { ...session, deletedAt });
+};
+
+/**
+ * Pushes queued local changes, then pulls what other devices changed since the last sync.
+ * Does nothing while signed out, offline or without a sync server.
+ * @param onSyncedHistory - Receives the merged history when the pull changed it.
+ * @param confirmAddChats - Decides what happens to unpushed chats when another account signs in.
+ */
+const syncNow = async (onSyncedHistory: SyncedHistoryListener, confirmAddChats: ConfirmAddChats) => {
+  const user = getCurrentUser();
+  if (!getSyncServerUrl() || !user || !navigator.onLine) {
+    saveSyncState();
+    return;
+  }
+  if (isSyncing) {
+    isSyncRequested = true;
+    return;
+  }
+
+  isSyncing = true;
+  if (syncState.userId !== user.id) {
+    const previousUserId = syncState.userId;
+    // Chats with changes the server has not accepted, and the ones kept back from earlier accounts
+    const unsyncedIds = new Set([...Object.values(syncState.pending).map(change => change.sessionId), ...syncState.localSessionIds ?? []]);
+    syncState = { ...syncState, userId: user.id, cursor: 0, pending: {}, localSessionIds: [] };
+    if (previousUserId) {
+      onSyncedHistory(applySyncedHistory(await switchAccount(unsyncedIds, confirmAddChats)));
+    } else {
+      queueEntireHistory(getChatHistory());
+    }
+  }
+  saveSyncState();
+
+  runningSync = pushAndPull(onSyncedHistory);
+  await runningSync;
+  runningSync = null;
+
+  if (isSyncRequested) {
+    isSyncRequested = false;
+    syncNow(onSyncedHistory, confirmAddChats);
+  }
+};
+
+const pushAndPull = async (onSyncedHistory: SyncedHistoryListener) => {
+  try {
+    const accessToken = await getAccessToken();
+    if (!accessToken) return;
+
+    const pushed = buildPushChanges(getChatHistory());
+    if (pushed.length > 0) {
+      const pushRequest: SyncPushRequest = { clientId: syncState.clientId, changes: pushed };
+      await request('/sync/push', accessToken, pushRequest);
+      for (const change of pushed) {
+        const key = getChangeKey(change);
+        // Keep records edited again while the push was in flight
+        if (syncState.pending[key]?.updatedAt === change.updatedAt) delete syncState.pending[key];
+      }
+    }
+
+    const params = new URLSearchParams({ since: String(syncState.cursor), clientId: syncState.clientId });
+    const { changes, cursor } = await request<SyncPullResponse>(`/sync/pull?${params}`, accessToken);
+    if (changes.length > 0) {
+      onSyncedHistory(applySyncedHistory(mergeRemoteChanges(getChatHistory(), changes)));
+    }
+    syncState.cursor = cursor;
+    syncState.lastSyncedAt = Date.now();
+    hasFailed = false;
+  } catch (error) {
+    console.error('Error syncing chat history:', error);
+    hasFailed = true;
+  } finally {
+    isSyncing = false;
+    saveSyncState();
+  }
+};
+
+/**
+ * Pushes the changes still queued right away, e.g. before signing out: the history is handed
+ * over when another account signs in, and only the chats never pushed are kept then.
+ */
+export const flushSync = async (): Promise<void> => {
+  if (!syncOptions) return;
+  clearTimeout(pushTimer);
+  await runningSync;
+  if (Object.keys(syncState.pending).length > 0) {
+    await syncNow(syncOptions.onSyncedHistory, syncOptions.confirmAddChats);
+  }
+};
+
+/**
+ * Keeps the history in sync with the server for the signed-in user: queues every local
+ * edit, pushes shortly after, pulls periodically and catches up when back online.
+ * Call once the history has been loaded.
+ * @param onSyncedHistory - Receives the history whenever changes from other devices were merged in.
+ * @param confirmAddChats - Asked, when another account signs in, whether the chats of the previous
+ *   one that never reached the server are added to it; otherwise they are kept in the trash.
+ * @returns A function that stops syncing.
+ */
+export const startSync = (onSyncedHistory: SyncedHistoryListener, confirmAddChats: ConfirmAddChats): (() => void) => {
+  syncOptions = { onSyncedHistory, confirmAddChats };
+  const sync = () => syncNow(onSyncedHistory, confirmAddChats);
+  const unsubscribeHistory = onHistoryChange(changes => {
+    recordChanges(changes);
+    clearTimeout(pushTimer);
+    pushTimer = setTimeout(sync, PUSH_DELAY_MS);
+  });
+  const unsubscribeAuth = onAuthChange(sync);
+  const interval = setInterval(sync, PULL_INTERVAL_MS);
+  window.addEventListener('online', sync);
+  window.addEventListener('offline', saveSyncState);
+  sync();
+
+  return () => {
+    syncOptions = null;
+    unsubscribeHistory();
+    unsubscribeAuth();
+    clearInterval(interval);
+    clearTimeout(pushTimer);
+    window.removeEventListener('online', sync);
+    window.removeEventListener('offline', saveSyncState);
+  };
+};
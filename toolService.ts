@@ -0,0 +1,101 @@
+import { Tool, ToolCall } from '../types';
+import { getChatHistory, isInTrash } from './chatHistoryService';
+import { searchChats } from './chatSearchService';
+import { evaluateExpression } from '../utils/calculatorUtils';
+
+// Rounds of tool calls allowed per answer, so a confused model cannot loop forever
+export const MAX_TOOL_ROUNDS = 5;
+const MAX_SEARCH_RESULTS = 10;
+
+const tools = new Map<string, Tool>();
+
+/**
+ * Makes a tool available to the chat model. A tool with the same name is replaced.
+ * @returns A function that removes the tool again.
+ */
+export const registerTool = (tool: Tool): (() => void) => {
+  tools.set(tool.name, tool);
+  return () => {
+    if (tools.get(tool.name) === tool) tools.delete(tool.name);
+  };
+};
+
+export const getTools = (): Tool[] => {
+  return [...tools.values()];
+};
+
+export const getTool = (name: string): Tool | undefined => {
+  return tools.get(name);
+};
+
+/**
+ * Runs the handler of the tool a model asked for. Failures, including unknown tool names,
+ * end up in `error` so they can be reported back to the model instead of ending the answer.
+ * @param toolList - The tools offered to the model in this request.
+ * @param call - The call, without a result.
+ * @returns The call with its result or error.
+ */
+export const runToolCall = async (toolList: Tool[], call: ToolCall): Promise<ToolCall> => {
+  const tool = toolList.find(t => t.name === call.name);
+  if (!tool) {
+    return { ...call, error: `Unknown tool: ${call.name}` };
+  }
+  try {
+    // A missing result would look like a call still running
+    return { ...call, result: (await tool.handler(call.args)) ?? null };
+  } catch (error) {
+    return { ...call, error: error instanceof Error ? error.message : String(error) };
+  }
+};
+
+// Built-in tools
+
+registerTool({
+  name: 'calculator',
+  label: 'Calculadora',
+  description: 'Evaluates an arithmetic expression exactly. Use it for any calculation instead of doing the math yourself. Supports + - * / % ^, parentheses, pi, e and the functions sqrt, cbrt, abs, round, floor, ceil, sin, cos, tan, asin, acos, atan (radians), log (base 10), ln, exp, pow, min and max.',
+  parameters: {
+    type: 'object',
+    properties: {
+      expression: { type: 'string', description: 'The expression, using a dot for decimals, e.g. "(12.5 * 4) / sqrt(2)".' },
+    },
+    required: ['expression'],
+  },
+  handler: ({ expression }) => ({ result: evaluateExpression(String(expression)) }),
+});
+
+registerTool({
+  name: 'get_current_datetime',
+  label: 'Data e hora',
+  description: "Returns the current date and time on the user's device, with their time zone. Use it whenever the answer depends on today's date or the current time.",
+  parameters: { type: 'object', properties: {} },
+  handler: () => {
+    const now = new Date();
+    return {
+      iso: now.toISOString(),
+      local: now.toLocaleString('pt-BR', { dateStyle: 'full', timeStyle: 'long' }),
+      timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+    };
+  },
+});
+
+registerTool({
+  name: 'search_chat_history',
+  label: 'Busca nos chats',
+  description: "Searches the titles and messages of the user's previous chats in this app. Use it when the user refers to something discussed in another conversation. Every word of the query must appear in a result.",
+  parameters: {
+    type: 'object',
+    properties: {
+      query: { type: 'string', description: 'A few keywords to look for.' },
+    },
+    required: ['query'],
+  },
+  handler: ({ query }) => {
+    const sessions = getChatHistory().filter(session => !isInTrash(session));
+    return searchChats(sessions, String(query)).slice(0, MAX_SEARCH_RESULTS).map(result => ({
+      chat: result.sessionTitle,
+      from: result.messageId ? (result.sender === 'user' ? 'user' : 'assistant') : 'chat title',
+      text: result.snippet.map(segment => segment.text).join(''),
+    }));
+  },
+});
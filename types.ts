@@ -0,0 +1,364 @@
+// A file stored in IndexedDB; messages only keep this reference
+export interface Attachment {
+  id: string;
+  mimeType: string;
+  name?: string;
+}
+
+export interface Message {
+  id: string;
+  // The message this one answers or follows; undefined for the first message of a chat
+  parentId?: string;
+  // Epoch milliseconds. updatedAt also moves when the app changes a message, e.g. when a video is
+  // ready, so sync keeps the latest version; it does not mean the user edited it.
+  createdAt: number;
+  updatedAt: number;
+  sender: 'user' | 'model';
+  // Set on a user message sent as an edit of an earlier one (which stays as another version)
+  isEdited?: boolean;
+  text: string;
+  imageUrl?: string;
+  videoUrl?: string;
+  attachments?: Attachment[];
+  // What the model request that produced this message used
+  usage?: Usage;
+  // For generated images: the request, so it can be run again for variations
+  imageGeneration?: ImageGenerationRequest;
+  // For edited images: the image they were made from
+  editedFrom?: ImageEditSource;
+  // Tools the model called while writing this answer, in order
+  toolCalls?: ToolCall[];
+  // Knowledge base passages given to the model for this answer, cited as [1], [2]...
+  citations?: KnowledgeCitation[];
+}
+
+export interface ImageEditSource {
+  messageId: string;
+  // Undefined when the original is a message's legacy imageUrl
+  attachmentId?: string;
+}
+
+export type ImageAspectRatio = '1:1' | '3:4' | '4:3' | '9:16' | '16:9';
+
+export interface ImageGenerationOptions {
+  aspectRatio?: ImageAspectRatio;
+  // 1 to 4
+  numberOfImages?: number;
+  // What the images should not show
+  negativePrompt?: string;
+  // Makes results repeatable with the same prompt and options
+  seed?: number;
+}
+
+export interface ImageGenerationRequest {
+  prompt: string;
+  options: ImageGenerationOptions;
+}
+
+// Resources used by one model request, as reported by the provider
+export interface Usage {
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  images?: number;
+  videos?: number;
+}
+
+// A provider result together with its usage, when the provider reports it
+export interface WithUsage<T> {
+  value: T;
+  usage?: Usage;
+}
+
+export type SafetyCategory =
+  | 'HARM_CATEGORY_HARASSMENT'
+  | 'HARM_CATEGORY_HATE_SPEECH'
+  | 'HARM_CATEGORY_SEXUALLY_EXPLICIT'
+  | 'HARM_CATEGORY_DANGEROUS_CONTENT';
+
+export type SafetyThreshold = 'BLOCK_NONE' | 'BLOCK_ONLY_HIGH' | 'BLOCK_MEDIUM_AND_ABOVE' | 'BLOCK_LOW_AND_ABOVE';
+
+// Per-session generation parameters. Unset fields fall back to the provider's defaults.
+export interface GenerationSettings {
+  model?: string;
+  temperature?: number;
+  topP?: number;
+  maxOutputTokens?: number;
+  safetySettings?: Partial<Record<SafetyCategory, SafetyThreshold>>;
+  // Maximum estimated tokens of history sent with each turn; older turns get summarized
+  contextTokenBudget?: number;
+  // Lets the model call the registered tools; on unless set to false
+  useTools?: boolean;
+}
+
+// The JSON Schema subset accepted by both Gemini and OpenAI function declarations
+export interface ToolParameterSchema {
+  type: 'object' | 'string' | 'number' | 'integer' | 'boolean' | 'array';
+  description?: string;
+  enum?: string[];
+  properties?: Record<string, ToolParameterSchema>;
+  required?: string[];
+  items?: ToolParameterSchema;
+}
+
+// A function the chat model can call while answering
+export interface Tool {
+  name: string;
+  // Shown in the chat instead of the name
+  label: string;
+  // Tells the model what the tool does and when to use it
+  description: string;
+  parameters: ToolParameterSchema;
+  // Resolves to a JSON-serializable result; thrown errors are reported to the model
+  handler: (args: Record<string, unknown>) => unknown | Promise<unknown>;
+}
+
+// One call the model made to a tool; the result is missing while it runs
+export interface ToolCall {
+  id: string;
+  name: string;
+  args: Record<string, unknown>;
+  result?: unknown;
+  error?: string;
+}
+
+// What generateContentStream yields: the knowledge base passages found for the prompt (before
+// the answer, with the usage of the embedding requests made to find them), answer text, or a
+// tool call each time it starts and ends
+export type ChatStreamEvent =
+  | { type: 'knowledge'; citations: KnowledgeCitation[]; usage?: Usage }
+  | { type: 'text'; text: string }
+  | { type: 'toolCall'; toolCall: ToolCall };
+
+// Something taught through "Aprender". The knowledge base is shared by all chats.
+export interface KnowledgeEntry {
+  id: string;
+  title: string;
+  // Set when the text came from a document
+  fileName?: string;
+  createdAt: number;
+  // Length of the text in characters
+  size: number;
+  // The text is split into passages, each stored with its embedding
+  chunkCount: number;
+}
+
+// A passage of the knowledge base found relevant to a prompt
+export interface KnowledgeCitation {
+  // The number the model cites it by, starting at 1
+  index: number;
+  entryId: string;
+  title: string;
+  text: string;
+}
+
+// Rolling summary of the turns that no longer fit in the context budget
+export interface ContextSummary {
+  text: string;
+  // The last message covered by the summary
+  upToMessageId: string;
+}
+
+export interface Persona {
+  id: string;
+  name: string;
+  systemPrompt: string;
+  // Optional defaults applied to chats using this persona
+  language?: string;
+  model?: string;
+}
+
+// Colour labels for organizing and filtering the chat list
+export type SessionTag = 'red' | 'orange' | 'yellow' | 'green' | 'blue' | 'purple';
+
+export interface ChatSession {
+  id: string;
+  title: string;
+  // Epoch milliseconds; updatedAt moves with new messages and changes to the chat's settings
+  createdAt: number;
+  updatedAt: number;
+  // Set when the user renamed the chat, so its title is no longer generated
+  isTitleEdited?: boolean;
+  // Pinned chats are listed first
+  isPinned?: boolean;
+  // Name of the folder the chat is filed in; a folder exists while it has chats
+  folder?: string;
+  tags?: SessionTag[];
+  // When the chat was moved to the trash; unset for chats in the list
+  deletedAt?: number;
+  // The active branch of the conversation, in order
+  messages: Message[];
+  // Messages of the other branches (earlier edits and regenerated answers), linked by parentId
+  branches?: Message[];
+  settings?: GenerationSettings;
+  personaId?: string;
+  // Notes for this chat only, added to its system instruction ("Aprender" used to write here;
+  // it now fills the knowledge base shared by all chats)
+  customInstructions?: string;
+  contextSummary?: ContextSummary;
+}
+
+export interface User {
+  // Stable id from the auth provider (the OIDC "sub" claim for Google)
+  id: string;
+  email: string;
+  name?: string;
+  pictureUrl?: string;
+}
+
+export type AuthProviderId = 'mock' | 'google';
+
+// A signed-in user and the tokens proving it, kept in localStorage across reloads
+export interface AuthSession {
+  providerId: AuthProviderId;
+  user: User;
+  accessToken: string;
+  // Absent when the provider renews sessions another way (Google signs in again silently)
+  refreshToken?: string;
+  // Epoch milliseconds after which the access token is rejected
+  expiresAt: number;
+}
+
+/**
+ * Common contract of the sign-in backends. authService keeps the session
+ * and asks the provider that created it to renew or end it.
+ */
+export interface AuthProvider {
+  id: AuthProviderId;
+  refreshSession: (session: AuthSession) => Promise<AuthSession>;
+  signOut: (session: AuthSession) => Promise<void>;
+}
+
+// Backend with its own accounts, signed into with email and password
+export interface PasswordAuthProvider extends AuthProvider {
+  signIn: (email: string, password: string) => Promise<AuthSession>;
+  signUp: (email: string, password: string) => Promise<AuthSession>;
+  // Sends a one-time code to the address, if it has an account
+  requestPasswordReset: (email: string) => Promise<void>;
+  resetPassword: (email: string, code: string, newPassword: string) => Promise<void>;
+}
+
+// Backend that signs in on the identity provider's own page (OAuth/OIDC)
+export interface RedirectAuthProvider extends AuthProvider {
+  isConfigured: boolean;
+  signIn: () => Promise<AuthSession>;
+}
+
+// One session or message as exchanged with the sync server
+export interface SyncChange {
+  kind: 'session' | 'message';
+  sessionId: string;
+  // The message id; the session id again for sessions
+  id: string;
+  // When the record was last changed; the latest version of each record wins
+  updatedAt: number;
+  deleted?: boolean;
+  // The session fields (with activeLeafId) or the message; absent for deletions
+  data?: object;
+}
+
+export interface SyncPushRequest {
+  // Identifies this browser, so its own changes are not sent back to it
+  clientId: string;
+  changes: SyncChange[];
+}
+
+export interface SyncPullResponse {
+  changes: SyncChange[];
+  // Position in the server's change log to pull from next time
+  cursor: number;
+}
+
+export interface SyncStatus {
+  state: 'disabled' | 'idle' | 'syncing' | 'offline' | 'error';
+  // Local changes waiting to be pushed
+  pendingCount: number;
+  lastSyncedAt?: number;
+}
+
+// File data sent inline with a prompt (base64 without the data: prefix)
+export interface InlineDataPart {
+  inlineData: {
+    data: string;
+    mimeType: string;
+  };
+}
+
+export interface TextPart {
+  text: string;
+}
+
+// A piece of a user turn besides the typed prompt, e.g. an image, a PDF or a text file's contents
+export type PromptPart = InlineDataPart | TextPart;
+
+export type ProviderId = 'gemini' | 'openai-compatible';
+
+export interface ProviderSettings {
+  providerId: ProviderId;
+  // The fields below are only used by the OpenAI-compatible adapter (e.g. Ollama, llama.cpp, LM Studio)
+  baseUrl: string;
+  apiKey: string;
+  chatModel: string;
+  imageModel: string;
+  // Used to index and search the knowledge base
+  embeddingModel: string;
+}
+
+/**
+ * Common contract implemented by every model backend.
+ * App.tsx only talks to the active provider through this interface.
+ */
+export interface ModelProvider {
+  id: ProviderId;
+  label: string;
+  supportsImageGeneration: boolean;
+  supportsVideoGeneration: boolean;
+  supportsSafetySettings: boolean;
+  // Chat models offered in the per-session model picker; the first one is the default
+  chatModels: string[];
+  // Yields text chunks and tool calls, running the tools and sending their results back to the
+  // model until it answers; returns the usage of all those requests once the stream ends.
+  // Passages of the knowledge base relevant to the prompt are added to the system instruction.
+  generateContentStream: (prompt: string, history: Message[], attachmentParts: PromptPart[], systemInstruction: string, settings?: GenerationSettings, signal?: AbortSignal, tools?: Tool[]) => AsyncGenerator<ChatStreamEvent, Usage | undefined>;
+  generateChatTitle: (firstMessage: string, language: string) => Promise<WithUsage<string>>;
+  // Folds older messages into a summary, extending the previous one if given
+  summarizeConversation: (messages: Message[], previousSummary: string | undefined, language: string) => Promise<WithUsage<string>>;
+  // The knowledge base is searched with vectors from this model; passages indexed with
+  // another one are embedded again
+  embeddingModel: string;
+  // Resolves to one vector per text, in order. Documents and search queries may be embedded differently.
+  embedTexts: (texts: string[], purpose: 'document' | 'query') => Promise<WithUsage<number[][]>>;
+  // Resolves to the generated images as base64 PNG data
+  generateImage: (prompt: string, options?: ImageGenerationOptions) => Promise<WithUsage<string[]>>;
+  // The options generateImage honours; the others are not offered
+  imageGenerationOptions: (keyof ImageGenerationOptions)[];
+  supportsImageEditing: boolean;
+  // Changes an image as instructed. With a mask (white where the image may change, black
+  // elsewhere, same size as the image) the rest of the image is kept.
+  editImage: (image: Blob, instruction: string, mask?: Blob) => Promise<WithUsage<Blob>>;
+  // Videos take minutes, so generation is started and then checked on until it is done.
+  // Resolves to the name of the provider's operation, which can still be checked after a reload.
+  startVideoGeneration: (prompt: string) => Promise<string>;
+  // Resolves to the downloaded video once the operation is done, or to null while it is still running
+  checkVideoGeneration: (operationName: string) => Promise<WithUsage<Blob> | null>;
+}
+
+// queued: waiting for a free slot; starting: the request to start it is in flight;
+// running: the provider is generating it and it is checked on periodically
+export type VideoJobStatus = 'queued' | 'starting' | 'running';
+
+// A video generation in progress, persisted so it can be resumed after a reload
+export interface VideoJob {
+  id: string;
+  sessionId: string;
+  // The chat message that shows the job's progress and then the video
+  messageId: string;
+  prompt: string;
+  status: VideoJobStatus;
+  operationName?: string;
+  createdAt: number;
+  startedAt?: number;
+  // The last failed status check, shown while it is retried
+  lastError?: string;
+  failedChecks?: number;
+}
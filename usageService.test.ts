@@ -0,0 +1,44 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { estimateCost, getPriceTable, getUsageLog, recordUsage, sumUsage } from './usageService';
+
+const embedding = { model: 'gemini-embedding-001', inputTokens: 2_000_000, outputTokens: 0 };
+
+describe('recordUsage', () => {
+  beforeEach(() => {
+    const storage = new Map<string, string>();
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => storage.get(key) ?? null,
+      setItem: (key: string, value: string) => storage.set(key, value),
+      removeItem: (key: string) => storage.delete(key),
+    });
+  });
+
+  it('records indexing for the knowledge base outside any chat', () => {
+    recordUsage(null, 'embedding', embedding);
+    expect(getUsageLog()).toEqual([{ ...embedding, timestamp: expect.any(Number), sessionId: null, kind: 'embedding' }]);
+  });
+
+  it('records the embeddings of a prompt for its chat', () => {
+    recordUsage('chat-1', 'embedding', embedding);
+    expect(getUsageLog()).toMatchObject([{ sessionId: 'chat-1', kind: 'embedding' }]);
+  });
+
+  it('skips requests without reported usage', () => {
+    recordUsage('chat-1', 'embedding');
+    expect(getUsageLog()).toEqual([]);
+  });
+
+  it('prices embeddings by their input tokens', () => {
+    recordUsage(null, 'embedding', embedding);
+    expect(estimateCost(embedding, getPriceTable())).toBeCloseTo(0.3);
+    expect(sumUsage(getUsageLog(), getPriceTable())).toMatchObject({ requests: 1, inputTokens: 2_000_000, cost: expect.closeTo(0.3) });
+  });
+
+  it('drops entries older than 90 days', () => {
+    recordUsage('chat-1', 'chat', { model: 'gemini-2.5-flash', inputTokens: 10, outputTokens: 20 });
+    const log = getUsageLog();
+    localStorage.setItem('usage_log', JSON.stringify([{ ...log[0], timestamp: Date.now() - 91 * 24 * 60 * 60 * 1000 }]));
+    recordUsage(null, 'embedding', embedding);
+    expect(getUsageLog().map(entry => entry.kind)).toEqual(['embedding']);
+  });
+});
@@ -0,0 +1,166 @@
+import { Usage } from '../types';
+
+const USAGE_LOG_KEY = 'usage_log';
+const PRICE_TABLE_KEY = 'usage_prices';
+const USAGE_LIMITS_KEY = 'usage_limits';
+// Older entries are dropped so the log cannot fill the localStorage quota
+const MAX_LOG_AGE_DAYS = 90;
+
+// embedding: indexing what is taught through "Aprender" and searching it for each prompt
+export type UsageKind = 'chat' | 'title' | 'summary' | 'image' | 'video' | 'embedding';
+
+// One model request, kept separately from the messages so totals survive deleted chats
+export interface UsageEntry extends Usage {
+  timestamp: number;
+  // Null for requests made outside any chat, i.e. indexing what is taught through "Aprender"
+  sessionId: string | null;
+  kind: UsageKind;
+}
+
+// Prices in US dollars
+export interface ModelPrice {
+  inputPerMillion: number;
+  outputPerMillion: number;
+  perImage: number;
+  perVideo: number;
+}
+
+export type PriceTable = Record<string, ModelPrice>;
+
+// Soft limits per day; crossing one asks for confirmation before the next request
+export interface UsageLimits {
+  dailyTokens?: number;
+  dailyCost?: number;
+}
+
+export interface UsageTotals {
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  images: number;
+  videos: number;
+  // Estimated cost in US dollars; models missing from the price table count as free
+  cost: number;
+}
+
+const NO_PRICE: ModelPrice = { inputPerMillion: 0, outputPerMillion: 0, perImage: 0, perVideo: 0 };
+
+// Google's list prices at the time of writing; edit them in Settings > Uso when they change
+export const DEFAULT_PRICE_TABLE: PriceTable = {
+  'gemini-2.5-flash': { ...NO_PRICE, inputPerMillion: 0.3, outputPerMillion: 2.5 },
+  'gemini-2.5-pro': { ...NO_PRICE, inputPerMillion: 1.25, outputPerMillion: 10 },
+  'gemini-2.5-flash-lite': { ...NO_PRICE, inputPerMillion: 0.1, outputPerMillion: 0.4 },
+  'gemini-embedding-001': { ...NO_PRICE, inputPerMillion: 0.15 },
+  'imagen-4.0-generate-001': { ...NO_PRICE, perImage: 0.04 },
+  // Billed by tokens; each output image counts as 1290 tokens
+  'gemini-2.5-flash-image': { ...NO_PRICE, inputPerMillion: 0.3, outputPerMillion: 30 },
+  // $0.35 per second for an 8 second video
+  'veo-2.0-generate-001': { ...NO_PRICE, perVideo: 2.8 },
+};
+
+const readJson = <T>(key: string, fallback: T, label: string): T => {
+  try {
+    const json = localStorage.getItem(key);
+    return json ? JSON.parse(json) : fallback;
+  } catch (error) {
+    console.error(`Error loading ${label} from localStorage:`, error);
+    return fallback;
+  }
+};
+
+const writeJson = (key: string, value: unknown, label: string) => {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch (error) {
+    console.error(`Error saving ${label} to localStorage:`, error);
+  }
+};
+
+export const getUsageLog = (): UsageEntry[] => {
+  return readJson<UsageEntry[]>(USAGE_LOG_KEY, [], 'usage log');
+};
+
+/**
+ * Adds a request to the usage log. Does nothing if the provider did not report usage.
+ * @param sessionId - The chat the request was made for, or null if it was not made for a chat.
+ * @param kind - What the request was for.
+ * @param usage - The usage reported by the provider.
+ */
+export const recordUsage = (sessionId: string | null, kind: UsageKind, usage?: Usage) => {
+  if (!usage) return;
+  const oldestKept = Date.now() - MAX_LOG_AGE_DAYS * 24 * 60 * 60 * 1000;
+  const log = getUsageLog().filter(entry => entry.timestamp >= oldestKept);
+  log.push({ ...usage, timestamp: Date.now(), sessionId, kind });
+  writeJson(USAGE_LOG_KEY, log, 'usage log');
+};
+
+// Adds up the usage of several requests to the same model, e.g. the rounds of one answer with tool calls
+export const addUsage = (total: Usage | undefined, usage: Usage | undefined): Usage | undefined => {
+  if (!total || !usage) return total ?? usage;
+  return { ...total, inputTokens: total.inputTokens + usage.inputTokens, outputTokens: total.outputTokens + usage.outputTokens };
+};
+
+export const clearUsageLog = () => {
+  writeJson(USAGE_LOG_KEY, [], 'usage log');
+};
+
+// Saved prices override the defaults model by model, so models added in later versions still get theirs
+export const getPriceTable = (): PriceTable => {
+  return { ...DEFAULT_PRICE_TABLE, ...readJson<PriceTable>(PRICE_TABLE_KEY, {}, 'price table') };
+};
+
+export const savePriceTable = (prices: PriceTable) => {
+  writeJson(PRICE_TABLE_KEY, prices, 'price table');
+};
+
+export const getUsageLimits = (): UsageLimits => {
+  return readJson<UsageLimits>(USAGE_LIMITS_KEY, {}, 'usage limits');
+};
+
+export const saveUsageLimits = (limits: UsageLimits) => {
+  writeJson(USAGE_LIMITS_KEY, limits, 'usage limits');
+};
+
+export const estimateCost = (usage: Usage, prices: PriceTable): number => {
+  const price = prices[usage.model] ?? NO_PRICE;
+  return (usage.inputTokens * price.inputPerMillion + usage.outputTokens * price.outputPerMillion) / 1_000_000
+    + (usage.images ?? 0) * price.perImage
+    + (usage.videos ?? 0) * price.perVideo;
+};
+
+export const sumUsage = (entries: Usage[], prices: PriceTable): UsageTotals => {
+  return entries.reduce<UsageTotals>((totals, entry) => ({
+    requests: totals.requests + 1,
+    inputTokens: totals.inputTokens + entry.inputTokens,
+    outputTokens: totals.outputTokens + entry.outputTokens,
+    images: totals.images + (entry.images ?? 0),
+    videos: totals.videos + (entry.videos ?? 0),
+    cost: totals.cost + estimateCost(entry, prices),
+  }), { requests: 0, inputTokens: 0, outputTokens: 0, images: 0, videos: 0, cost: 0 });
+};
+
+// Local calendar day as YYYY-MM-DD
+export const toDayKey = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+/**
+ * Checks today's usage against the soft limits.
+ * @returns A warning to show before sending another request, or null if no limit was reached.
+ */
+export const getUsageLimitWarning = (): string | null => {
+  const limits = getUsageLimits();
+  if (!limits.dailyTokens && !limits.dailyCost) return null;
+
+  const today = toDayKey(Date.now());
+  const totals = sumUsage(getUsageLog().filter(entry => toDayKey(entry.timestamp) === today), getPriceTable());
+  const tokens = totals.inputTokens + totals.outputTokens;
+  if (limits.dailyTokens && tokens >= limits.dailyTokens) {
+    return `Você já usou ${tokens.toLocaleString('pt-BR')} tokens hoje, acima do limite de ${limits.dailyTokens.toLocaleString('pt-BR')}.`;
+  }
+  if (limits.dailyCost && totals.cost >= limits.dailyCost) {
+    return `O custo estimado de hoje (US$ ${totals.cost.toFixed(2)}) já passou do limite de US$ ${limits.dailyCost.toFixed(2)}.`;
+  }
+  return null;
+};
@@ -0,0 +1,36 @@
+import { useState, useEffect } from 'react';
+import { getAttachmentBlob } from '../services/attachmentService';
+
+/**
+ * Loads a stored attachment and exposes it as an object URL for <img> and friends.
+ * The URL is revoked when the component unmounts or the attachment changes.
+ * @returns The object URL, `null` while loading, or `undefined` if the attachment is missing.
+ */
+const useAttachmentUrl = (attachmentId: string): string | null | undefined => {
+  const [url, setUrl] = useState<string | null | undefined>(null);
+
+  useEffect(() => {
+    let objectUrl: string | null = null;
+    let isCancelled = false;
+    setUrl(null);
+
+    getAttachmentBlob(attachmentId).then(blob => {
+      if (isCancelled) return;
+      if (blob) {
+        objectUrl = URL.createObjectURL(blob);
+        setUrl(objectUrl);
+      } else {
+        setUrl(undefined);
+      }
+    });
+
+    return () => {
+      isCancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [attachmentId]);
+
+  return url;
+};
+
+export default useAttachmentUrl;
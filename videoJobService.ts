@@ -0,0 +1,181 @@
+import { VideoJob, WithUsage } from '../types';
+import { getModelProvider, getProviderSettings } from './providerService';
+
+const VIDEO_JOBS_KEY = 'video_jobs';
+const POLL_INTERVAL_MS = 10 * 1000;
+// Videos generated at the same time; further jobs wait in the queue
+export const MAX_CONCURRENT_VIDEO_JOBS = 2;
+// Veo usually needs one to three minutes; only used to estimate progress, which the API does not report
+export const ESTIMATED_VIDEO_DURATION_MS = 2 * 60 * 1000;
+// A job is given up after this many status checks in a row fail (about a minute)
+const MAX_FAILED_CHECKS = 6;
+
+type VideoJobsListener = (jobs: VideoJob[]) => void;
+
+export interface VideoJobHandlers {
+  onCompleted: (job: VideoJob, video: WithUsage<Blob>) => void | Promise<void>;
+  onFailed: (job: VideoJob, error: Error) => void;
+}
+
+const loadJobs = (): VideoJob[] => {
+  try {
+    const json = localStorage.getItem(VIDEO_JOBS_KEY);
+    return json ? JSON.parse(json) : [];
+  } catch (error) {
+    console.error('Error loading video jobs from localStorage:', error);
+    return [];
+  }
+};
+
+let jobs = loadJobs();
+let handlers: VideoJobHandlers | null = null;
+let pollTimer: ReturnType<typeof setTimeout> | undefined;
+let isProcessing = false;
+// Set when jobs change during a pass, so another one runs right after it
+let isProcessRequested = false;
+const jobsListeners = new Set<VideoJobsListener>();
+
+const setJobs = (nextJobs: VideoJob[]) => {
+  jobs = nextJobs;
+  try {
+    localStorage.setItem(VIDEO_JOBS_KEY, JSON.stringify(jobs));
+  } catch (error) {
+    console.error('Error saving video jobs to localStorage:', error);
+  }
+  jobsListeners.forEach(listener => listener(jobs));
+};
+
+const updateJob = (jobId: string, update: Partial<VideoJob>) => {
+  setJobs(jobs.map(job => job.id === jobId ? { ...job, ...update } : job));
+};
+
+const removeJob = (jobId: string) => {
+  setJobs(jobs.filter(job => job.id !== jobId));
+};
+
+const hasJob = (jobId: string) => jobs.some(job => job.id === jobId);
+
+export const getVideoJobs = (): VideoJob[] => {
+  return jobs;
+};
+
+/**
+ * Registers a callback for jobs being added, progressing or finishing.
+ * @returns A function that removes the listener.
+ */
+export const onVideoJobsChange = (listener: VideoJobsListener): (() => void) => {
+  jobsListeners.add(listener);
+  return () => {
+    jobsListeners.delete(listener);
+  };
+};
+
+const fail = (job: VideoJob, error: unknown) => {
+  removeJob(job.id);
+  handlers?.onFailed(job, error instanceof Error ? error : new Error(String(error)));
+};
+
+const startJob = async (job: VideoJob) => {
+  updateJob(job.id, { status: 'starting' });
+  try {
+    const operationName = await getModelProvider(getProviderSettings()).startVideoGeneration(job.prompt);
+    // Cancelled while starting: the provider cannot stop it, but the result is not wanted
+    if (!hasJob(job.id)) return;
+    updateJob(job.id, { status: 'running', operationName, startedAt: Date.now() });
+  } catch (error) {
+    if (hasJob(job.id)) fail(job, error);
+  }
+};
+
+const checkJob = async (job: VideoJob) => {
+  try {
+    const video = await getModelProvider(getProviderSettings()).checkVideoGeneration(job.operationName!);
+    if (!hasJob(job.id)) return;
+    if (!video) {
+      if (job.failedChecks) updateJob(job.id, { failedChecks: undefined, lastError: undefined });
+      return;
+    }
+    removeJob(job.id);
+    await handlers?.onCompleted(job, video);
+  } catch (error) {
+    if (!hasJob(job.id)) return;
+    const failedChecks = (job.failedChecks ?? 0) + 1;
+    if (failedChecks >= MAX_FAILED_CHECKS) {
+      fail(job, error);
+    } else {
+      updateJob(job.id, { failedChecks, lastError: error instanceof Error ? error.message : String(error) });
+    }
+  }
+};
+
+// Starts queued jobs while there are free slots, then checks on the running ones
+const processJobs = async () => {
+  clearTimeout(pollTimer);
+  if (!handlers) return;
+  if (isProcessing) {
+    isProcessRequested = true;
+    return;
+  }
+  isProcessing = true;
+  try {
+    for (const job of jobs.filter(j => j.status === 'queued')) {
+      if (jobs.filter(j => j.status !== 'queued').length >= MAX_CONCURRENT_VIDEO_JOBS) break;
+      await startJob(job);
+    }
+    if (navigator.onLine) {
+      await Promise.all(jobs.filter(j => j.status === 'running').map(checkJob));
+    }
+  } finally {
+    isProcessing = false;
+  }
+  if (isProcessRequested) {
+    isProcessRequested = false;
+    processJobs();
+  } else if (handlers && jobs.length > 0) {
+    pollTimer = setTimeout(processJobs, POLL_INTERVAL_MS);
+  }
+};
+
+/**
+ * Queues a video generation. It starts as soon as fewer than MAX_CONCURRENT_VIDEO_JOBS are running.
+ * @param job - Where the result goes: the chat and the placeholder message showing the progress.
+ * @returns The queued job.
+ */
+export const enqueueVideoJob = (job: Pick<VideoJob, 'sessionId' | 'messageId' | 'prompt'>): VideoJob => {
+  const queuedJob: VideoJob = { ...job, id: crypto.randomUUID(), status: 'queued', createdAt: Date.now() };
+  setJobs([...jobs, queuedJob]);
+  processJobs();
+  return queuedJob;
+};
+
+/**
+ * Stops waiting for a job. Once started, the provider keeps generating (and may bill) the
+ * video; it is just not downloaded.
+ * @returns The cancelled job, if it was still pending.
+ */
+export const cancelVideoJob = (jobId: string): VideoJob | undefined => {
+  const job = jobs.find(j => j.id === jobId);
+  if (job) removeJob(jobId);
+  return job;
+};
+
+/**
+ * Runs the queue: starts waiting jobs and checks on running ones, including those left by
+ * a previous visit. Call once the chat history has been loaded.
+ * @returns A function that stops processing; the jobs stay saved.
+ */
+export const startVideoJobs = (jobHandlers: VideoJobHandlers): (() => void) => {
+  handlers = jobHandlers;
+  // Whether a start request interrupted by a reload reached the provider cannot be known
+  for (const job of jobs.filter(j => j.status === 'starting')) {
+    fail(job, new Error('A geração do vídeo foi interrompida antes de começar. Tente novamente.'));
+  }
+  window.addEventListener('online', processJobs);
+  processJobs();
+
+  return () => {
+    handlers = null;
+    clearTimeout(pollTimer);
+    window.removeEventListener('online', processJobs);
+  };
+};
@@ -1,8 +1,19 @@
-import { defineConfig } from 'vite'
+import { defineConfig, loadEnv } from 'vite'
 import react from '@vitejs/plugin-react'
 
 // https://vitejs.dev/config/
-export default defineConfig({
-  plugins: [react()],
-  base: '/chatdorobertinsouzah/', // caminho do repositório do GitHub
-})
\ No newline at end of file
+export default defineConfig(({ mode }) => {
+  const env = loadEnv(mode, process.cwd(), '')
+  return {
+    plugins: [react()],
+    base: '/chatdorobertinsouzah/', // caminho do repositório do GitHub
+    define: {
+      // Public OAuth client id for "Entrar com Google"; the button is hidden without it
+      'process.env.GOOGLE_CLIENT_ID': JSON.stringify(env.GOOGLE_CLIENT_ID ?? ''),
+      // Base URL of the development auth server for email and password accounts
+      'process.env.AUTH_SERVER_URL': JSON.stringify(env.AUTH_SERVER_URL ?? ''),
+      // Base URL of the chat sync API; chats stay in the browser without it
+      'process.env.SYNC_SERVER_URL': JSON.stringify(env.SYNC_SERVER_URL ?? ''),
+    },
+  }
+})